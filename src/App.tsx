@@ -2,23 +2,48 @@ import { Outlet } from 'react-router-dom'
 import { Suspense } from 'react'
 import { ErrorBoundary } from '@/components/error-boundary'
 import { VibeStackBadge } from '@/components/vibestack-badge'
+import { TaskStoreProvider } from '@/store'
+import { createCollectionTaskStore, createMemoryBackend } from '@/storage'
+import {
+  generateBenchmarkTasks,
+  generateSampleTasks,
+  getBenchmarkTaskCount,
+} from '@/utils/sampleTasks'
+
+/**
+ * In development, ?benchmark=5000 loads that many generated tasks into a throwaway
+ * in-memory store, leaving saved tasks alone
+ */
+const benchmarkCount = import.meta.env.DEV ? getBenchmarkTaskCount(window.location.search) : null
+const benchmark = benchmarkCount
+  ? {
+      initialTasks: () => generateBenchmarkTasks(benchmarkCount),
+      store: createCollectionTaskStore(createMemoryBackend()),
+    }
+  : null
 
 /**
  * Main App component with routing
  * Uses React Router for SPA navigation
+ * The task store is provided here so every page shares the same tasks
  */
 function App() {
   return (
     <ErrorBoundary>
-      <Suspense
-        fallback={
-          <div className="flex min-h-screen items-center justify-center">
-            <p className="text-muted-foreground">Loading...</p>
-          </div>
-        }
+      <TaskStoreProvider
+        initialTasks={benchmark?.initialTasks ?? generateSampleTasks}
+        store={benchmark?.store}
       >
-        <Outlet />
-      </Suspense>
+        <Suspense
+          fallback={
+            <div className="flex min-h-screen items-center justify-center">
+              <p className="text-muted-foreground">Loading...</p>
+            </div>
+          }
+        >
+          <Outlet />
+        </Suspense>
+      </TaskStoreProvider>
       <VibeStackBadge />
     </ErrorBoundary>
   )
@@ -99,7 +99,6 @@
  *
  * 6. UTILITY FUNCTIONS (utils/task.ts)
  *    - Task querying and analysis
- *    - Sorting functions (sortByPriority, sortByDueDate)
  *    - Task state checks (isOverdue, isDueToday, isDueTomorrow)
  *    - Urgent task finder
  *    - Statistics calculation (TaskStats)
@@ -187,7 +186,7 @@
  *
  *    <TaskListDisplay
  *      tasks={tasks}
- *      sortBy="priority"
+ *      sort={[{ key: 'priority', direction: 'desc' }]}
  *      groupBy="status"
  *      onStatusChange={handleStatusChange}
  *      onDelete={handleDelete}
@@ -0,0 +1,182 @@
+import { useState } from 'react'
+import { TaskPriority } from '@/types/task'
+import { TaskList } from '@/types/list'
+import { TaskBatchEdit } from '@/store'
+import { parseDateInputValue } from '@/utils/date'
+
+interface BatchActionBarProps {
+  /** Number of selected tasks */
+  count: number
+  /** Number of tasks that can be selected */
+  total: number
+  lists: TaskList[]
+  /** Tags of the selected tasks, offered for removal */
+  tags: string[]
+  onApply: (edit: TaskBatchEdit) => void
+  onDelete: () => void
+  onSelectAll: () => void
+  onClearSelection: () => void
+}
+
+const buttonClasses =
+  'rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
+
+const selectClasses =
+  'rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50 dark:border-gray-600 dark:bg-gray-800 dark:text-white'
+
+/**
+ * BatchActionBar Component
+ * Actions applied to every selected task at once: complete, archive, delete, priority,
+ * tags, due date and list. Each action is a single undoable change.
+ */
+export function BatchActionBar({
+  count,
+  total,
+  lists,
+  tags,
+  onApply,
+  onDelete,
+  onSelectAll,
+  onClearSelection,
+}: BatchActionBarProps) {
+  const [newTag, setNewTag] = useState('')
+  const isEmpty = count === 0
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault()
+    const tag = newTag.trim()
+    if (!tag || isEmpty) return
+
+    onApply({ addTags: [tag] })
+    setNewTag('')
+  }
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Batch actions"
+      className="sticky top-0 z-20 mb-4 flex flex-wrap items-center gap-2 rounded-lg border border-blue-200 bg-blue-50 p-3 dark:border-blue-800 dark:bg-blue-950"
+    >
+      <span className="text-sm font-semibold text-blue-800 dark:text-blue-200" aria-live="polite">
+        {count} selected
+      </span>
+      <button
+        onClick={count > 0 && count === total ? onClearSelection : onSelectAll}
+        className={buttonClasses}
+      >
+        {count > 0 && count === total ? 'Select none' : `Select all (${total})`}
+      </button>
+
+      <span className="mx-1 h-6 w-px bg-blue-200 dark:bg-blue-800" aria-hidden="true" />
+
+      <button
+        onClick={() => onApply({ status: 'completed' })}
+        disabled={isEmpty}
+        className={buttonClasses}
+      >
+        Complete
+      </button>
+      <button
+        onClick={() => onApply({ status: 'archived' })}
+        disabled={isEmpty}
+        className={buttonClasses}
+      >
+        Archive
+      </button>
+
+      <select
+        value=""
+        onChange={e => onApply({ priority: e.target.value as TaskPriority })}
+        disabled={isEmpty}
+        aria-label="Set priority"
+        className={selectClasses}
+      >
+        <option value="" disabled>
+          Priority…
+        </option>
+        <option value="urgent">Urgent</option>
+        <option value="high">High</option>
+        <option value="medium">Medium</option>
+        <option value="low">Low</option>
+      </select>
+
+      <select
+        value=""
+        onChange={e => onApply({ listId: e.target.value })}
+        disabled={isEmpty}
+        aria-label="Move to list"
+        className={selectClasses}
+      >
+        <option value="" disabled>
+          Move to…
+        </option>
+        {lists.map(list => (
+          <option key={list.id} value={list.id}>
+            {list.icon} {list.name}
+          </option>
+        ))}
+      </select>
+
+      <input
+        type="date"
+        value=""
+        onChange={e => {
+          const dueDate = parseDateInputValue(e.target.value)
+          if (dueDate) onApply({ dueDate })
+        }}
+        disabled={isEmpty}
+        aria-label="Set due date"
+        className={selectClasses}
+      />
+      <button
+        onClick={() => onApply({ dueDate: null })}
+        disabled={isEmpty}
+        className={buttonClasses}
+      >
+        Clear due date
+      </button>
+
+      <form onSubmit={handleAddTag} className="flex gap-1">
+        <input
+          type="text"
+          value={newTag}
+          onChange={e => setNewTag(e.target.value)}
+          placeholder="Add tag"
+          aria-label="Tag to add"
+          disabled={isEmpty}
+          className={`w-28 ${selectClasses}`}
+        />
+        <button type="submit" disabled={isEmpty || !newTag.trim()} className={buttonClasses}>
+          Add
+        </button>
+      </form>
+
+      {tags.length > 0 && (
+        <select
+          value=""
+          onChange={e => onApply({ removeTags: [e.target.value] })}
+          disabled={isEmpty}
+          aria-label="Remove tag"
+          className={selectClasses}
+        >
+          <option value="" disabled>
+            Remove tag…
+          </option>
+          {tags.map(tag => (
+            <option key={tag} value={tag}>
+              #{tag}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <button
+        onClick={onDelete}
+        disabled={isEmpty}
+        className="rounded-lg bg-red-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-red-700 dark:hover:bg-red-600"
+      >
+        Delete
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { fuzzyFilter } from '@/utils/fuzzy'
+
+/**
+ * An entry of the command palette: an action, a view, a list or a task
+ */
+export interface PaletteCommand {
+  id: string
+  label: string
+  /** Kind of entry shown next to the label, e.g. "Action" or "Task" */
+  group: string
+  run: () => void
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[]
+  onClose: () => void
+}
+
+/**
+ * Results shown at most, best matches first
+ */
+const MAX_RESULTS = 50
+
+/**
+ * Render a label with its fuzzy-matched characters emphasized
+ */
+function renderMatch(label: string, indices: number[]) {
+  if (indices.length === 0) return label
+  const matched = new Set(indices)
+  return label.split('').map((char, index) =>
+    matched.has(index) ? (
+      <span key={index} className="font-semibold text-blue-600 dark:text-blue-400">
+        {char}
+      </span>
+    ) : (
+      char
+    )
+  )
+}
+
+/**
+ * CommandPalette Component
+ * Fuzzy search over commands, opened with Ctrl+K (⌘K on macOS)
+ * Arrow keys choose a result, Enter runs it and Escape (or Ctrl+K again) closes the palette
+ */
+export function CommandPalette({ commands, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const listRef = useRef<HTMLUListElement>(null)
+
+  const results = useMemo(
+    () => fuzzyFilter(commands, query, command => command.label).slice(0, MAX_RESULTS),
+    [commands, query]
+  )
+  const active = Math.min(activeIndex, results.length - 1)
+  const activeCommand = results[active]?.item
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector<HTMLElement>('[aria-selected="true"]')
+      ?.scrollIntoView({ block: 'nearest' })
+  }, [active])
+
+  // Close first so commands can open a dialog of their own
+  const runCommand = (command: PaletteCommand) => {
+    onClose()
+    command.run()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      if (results.length === 0) return
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setActiveIndex((active + step + results.length) % results.length)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      if (activeCommand) runCommand(activeCommand)
+    } else if (e.key === 'Escape' || ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k')) {
+      e.preventDefault()
+      onClose()
+    }
+  }
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-40 bg-black bg-opacity-50 dark:bg-opacity-70"
+        onClick={onClose}
+      />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="fixed left-1/2 top-24 z-50 w-full max-w-lg -translate-x-1/2 overflow-hidden rounded-lg bg-white shadow-xl dark:bg-gray-800"
+      >
+        <input
+          type="text"
+          role="combobox"
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value)
+            setActiveIndex(0)
+          }}
+          onKeyDown={handleKeyDown}
+          autoFocus
+          placeholder="Type a command, view, list or task…"
+          aria-label="Search commands"
+          aria-expanded="true"
+          aria-controls="command-palette-results"
+          aria-activedescendant={activeCommand ? `command-option-${active}` : undefined}
+          className="block w-full border-b border-gray-200 bg-white px-4 py-3 text-gray-900 focus:outline-none dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+        />
+        <ul
+          ref={listRef}
+          id="command-palette-results"
+          role="listbox"
+          aria-label="Commands"
+          className="max-h-80 overflow-y-auto py-2"
+        >
+          {results.map(({ item: command, match }, index) => (
+            <li
+              key={command.id}
+              id={`command-option-${index}`}
+              role="option"
+              aria-selected={index === active}
+              onMouseMove={() => index !== active && setActiveIndex(index)}
+              onClick={() => runCommand(command)}
+              className={`flex cursor-pointer items-center gap-3 px-4 py-2 text-sm ${
+                index === active
+                  ? 'bg-blue-50 text-blue-900 dark:bg-blue-950 dark:text-blue-100'
+                  : 'text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              <span className="min-w-0 flex-1 truncate">
+                {renderMatch(command.label, match.indices)}
+              </span>
+              <span className="flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">
+                {command.group}
+              </span>
+            </li>
+          ))}
+          {results.length === 0 && (
+            <li className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">No matches</li>
+          )}
+        </ul>
+      </div>
+    </>
+  )
+}
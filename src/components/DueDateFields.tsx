@@ -0,0 +1,91 @@
+import { Task } from '@/types/task'
+import {
+  COMMON_TIME_ZONES,
+  getUserTimeZone,
+  getZonedParts,
+  parseDateInputValue,
+  toDateInputValue,
+  zonedTimeToDate,
+} from '@/utils/date'
+
+/**
+ * The due date fields of a task edited together
+ */
+export type DueDateValue = Pick<Task, 'dueDate' | 'hasDueTime' | 'timeZone'>
+
+interface DueDateFieldsProps {
+  value: DueDateValue
+  onChange: (value: DueDateValue) => void
+  idPrefix?: string
+}
+
+const inputClasses =
+  'rounded-lg border border-gray-300 px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white'
+
+/**
+ * DueDateFields Component
+ * Date, optional time of day and time zone inputs for a task's due date
+ * Times are entered as wall-clock time in the selected zone and stored as an instant
+ */
+export function DueDateFields({ value, onChange, idPrefix = 'due' }: DueDateFieldsProps) {
+  const timeZone = value.timeZone || getUserTimeZone()
+  const dueDate = value.dueDate ? new Date(value.dueDate) : null
+  const zoned = dueDate && value.hasDueTime ? getZonedParts(dueDate, timeZone) : null
+  const dateValue = zoned ? zoned.date : toDateInputValue(dueDate)
+  const timeValue = zoned ? zoned.time : ''
+
+  const timeZones = COMMON_TIME_ZONES.includes(timeZone)
+    ? COMMON_TIME_ZONES
+    : [timeZone, ...COMMON_TIME_ZONES]
+
+  /**
+   * Rebuild the stored value from wall-clock inputs
+   */
+  const update = (date: string, time: string, zone: string) => {
+    if (!date) {
+      onChange({ dueDate: null, hasDueTime: false, timeZone: zone })
+      return
+    }
+    if (!time) {
+      onChange({ dueDate: parseDateInputValue(date), hasDueTime: false, timeZone: zone })
+      return
+    }
+    onChange({ dueDate: zonedTimeToDate(date, time, zone), hasDueTime: true, timeZone: zone })
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <input
+        id={`${idPrefix}Date`}
+        type="date"
+        value={dateValue}
+        onChange={e => update(e.target.value, timeValue, timeZone)}
+        aria-label="Due date"
+        className={`flex-1 ${inputClasses}`}
+      />
+      <input
+        id={`${idPrefix}Time`}
+        type="time"
+        value={timeValue}
+        onChange={e => update(dateValue || toDateInputValue(new Date()), e.target.value, timeZone)}
+        aria-label="Due time"
+        className={inputClasses}
+      />
+      {timeValue && (
+        <select
+          id={`${idPrefix}TimeZone`}
+          value={timeZone}
+          onChange={e => update(dateValue, timeValue, e.target.value)}
+          aria-label="Time zone"
+          className={inputClasses}
+        >
+          {timeZones.map(zone => (
+            <option key={zone} value={zone}>
+              {zone.replace(/_/g, ' ')}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+}
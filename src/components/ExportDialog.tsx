@@ -0,0 +1,158 @@
+import { useState } from 'react'
+import { Task } from '@/types/task'
+import { downloadFile } from '@/utils/download'
+import { exportTasksToCsv, exportTasksToJson, getExportFilename } from '@/utils/taskExport'
+import { IcsComponent, exportTasksToIcs } from '@/utils/ical'
+
+type ExportFormat = 'json' | 'csv' | 'ics'
+type ExportScope = 'all' | 'view'
+
+interface ExportDialogProps {
+  /** Every task */
+  tasks: Task[]
+  /** Tasks in the current list with the current filter applied */
+  viewTasks: Task[]
+  onClose: () => void
+}
+
+const FORMAT_DESCRIPTIONS: Record<ExportFormat, string> = {
+  json: 'Full backup including subtasks, reminders and repeat rules. Can be imported again.',
+  csv: 'Spreadsheet-friendly. Keeps the main task fields only.',
+  ics: 'Calendar file for tasks with a due date. Open it in your calendar app.',
+}
+
+/**
+ * ExportDialog Component
+ * Downloads all tasks or the tasks in the current view as JSON, CSV or iCalendar
+ */
+export function ExportDialog({ tasks, viewTasks, onClose }: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('json')
+  const [scope, setScope] = useState<ExportScope>('all')
+  const [icsComponent, setIcsComponent] = useState<IcsComponent>('VTODO')
+  const scopeTasks = scope === 'all' ? tasks : viewTasks
+  // Calendar entries need a date
+  const selectedTasks = format === 'ics' ? scopeTasks.filter(task => task.dueDate) : scopeTasks
+
+  const handleExport = () => {
+    if (format === 'json') {
+      downloadFile(getExportFilename('json'), exportTasksToJson(selectedTasks), 'application/json')
+    } else if (format === 'csv') {
+      downloadFile(getExportFilename('csv'), exportTasksToCsv(selectedTasks), 'text/csv')
+    } else {
+      downloadFile(
+        getExportFilename('ics'),
+        exportTasksToIcs(selectedTasks, icsComponent),
+        'text/calendar'
+      )
+    }
+    onClose()
+  }
+
+  const optionClasses = (isSelected: boolean) =>
+    `flex cursor-pointer items-start gap-3 rounded-lg border p-3 ${
+      isSelected
+        ? 'border-blue-500 bg-blue-50 dark:border-blue-400 dark:bg-blue-950'
+        : 'border-gray-300 hover:bg-gray-50 dark:border-gray-600 dark:hover:bg-gray-700'
+    }`
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-40 bg-black bg-opacity-50 dark:bg-opacity-70"
+        onClick={onClose}
+      />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-dialog-title"
+        className="fixed left-1/2 top-1/2 z-50 w-full max-w-md -translate-x-1/2 -translate-y-1/2 rounded-lg bg-white p-6 shadow-xl dark:bg-gray-800"
+      >
+        <h3 id="export-dialog-title" className="text-lg font-bold text-gray-900 dark:text-white">
+          Export tasks
+        </h3>
+
+        <fieldset className="mt-4">
+          <legend className="text-sm font-medium text-gray-700 dark:text-gray-300">Tasks</legend>
+          <div className="mt-2 space-y-2">
+            <label className={optionClasses(scope === 'all')}>
+              <input
+                type="radio"
+                name="export-scope"
+                checked={scope === 'all'}
+                onChange={() => setScope('all')}
+                className="mt-1"
+              />
+              <span className="text-sm text-gray-900 dark:text-white">
+                All tasks ({tasks.length})
+              </span>
+            </label>
+            <label className={optionClasses(scope === 'view')}>
+              <input
+                type="radio"
+                name="export-scope"
+                checked={scope === 'view'}
+                onChange={() => setScope('view')}
+                className="mt-1"
+              />
+              <span className="text-sm text-gray-900 dark:text-white">
+                Current list and filter ({viewTasks.length})
+              </span>
+            </label>
+          </div>
+        </fieldset>
+
+        <fieldset className="mt-4">
+          <legend className="text-sm font-medium text-gray-700 dark:text-gray-300">Format</legend>
+          <div className="mt-2 space-y-2">
+            {(['json', 'csv', 'ics'] as ExportFormat[]).map(option => (
+              <label key={option} className={optionClasses(format === option)}>
+                <input
+                  type="radio"
+                  name="export-format"
+                  checked={format === option}
+                  onChange={() => setFormat(option)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium uppercase text-gray-900 dark:text-white">
+                    {option}
+                  </span>
+                  <span className="block text-xs text-gray-600 dark:text-gray-400">
+                    {FORMAT_DESCRIPTIONS[option]}
+                  </span>
+                </span>
+              </label>
+            ))}
+          </div>
+          {format === 'ics' && (
+            <select
+              value={icsComponent}
+              onChange={e => setIcsComponent(e.target.value as IcsComponent)}
+              aria-label="Calendar entry type"
+              className="mt-2 block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            >
+              <option value="VTODO">As to-dos (VTODO)</option>
+              <option value="VEVENT">As events (VEVENT)</option>
+            </select>
+          )}
+        </fieldset>
+
+        <div className="mt-6 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="rounded-lg border border-gray-300 px-4 py-2 font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={selectedTasks.length === 0}
+            className="rounded-lg bg-blue-600 px-4 py-2 font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-blue-700 dark:hover:bg-blue-600"
+          >
+            Export {selectedTasks.length} task{selectedTasks.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </>
+  )
+}
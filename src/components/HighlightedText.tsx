@@ -0,0 +1,32 @@
+import { splitHighlights } from '@/utils/search'
+
+interface HighlightedTextProps {
+  text: string
+  /** Words and phrases to highlight (case-insensitive) */
+  terms?: string[]
+}
+
+/**
+ * HighlightedText Component
+ * Renders text with search matches wrapped in <mark>
+ */
+export function HighlightedText({ text, terms = [] }: HighlightedTextProps) {
+  if (terms.length === 0) return <>{text}</>
+
+  return (
+    <>
+      {splitHighlights(text, terms).map((part, index) =>
+        part.highlighted ? (
+          <mark
+            key={index}
+            className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-700 dark:text-white"
+          >
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  )
+}
@@ -0,0 +1,370 @@
+import { useMemo, useState } from 'react'
+import { Task } from '@/types/task'
+import { TaskList } from '@/types/list'
+import { parseCsv } from '@/utils/csv'
+import { parseIcsImport } from '@/utils/ical'
+import { formatTaskDueDate } from '@/utils/task'
+import { TASK_CSV_FIELDS, TASK_CSV_FIELD_LABELS, TaskCsvField } from '@/utils/taskExport'
+import {
+  CsvFieldMapping,
+  ImportRow,
+  getImportedTasks,
+  guessCsvMapping,
+  inputsToImportRows,
+  markDuplicates,
+  parseCsvImport,
+  parseJsonImport,
+} from '@/utils/taskImport'
+import {
+  ExternalImportResult,
+  importMarkdownChecklist,
+  importTodoistCsv,
+  importTrelloBoard,
+  isTodoistCsv,
+  isTrelloBoard,
+} from '@/utils/importers'
+
+type ImportFormat = 'auto' | 'json' | 'csv' | 'ics' | 'todoist' | 'trello' | 'markdown'
+
+const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  auto: 'Detect automatically',
+  json: 'NimbusTodo JSON',
+  csv: 'CSV',
+  ics: 'iCalendar (.ics)',
+  todoist: 'Todoist CSV',
+  trello: 'Trello board JSON',
+  markdown: 'Markdown checklist',
+}
+
+/**
+ * A chosen file and its contents
+ */
+interface ImportFile {
+  name: string
+  text: string
+  /** Set when the browser could not read the file */
+  readError?: string
+}
+
+/**
+ * A file that has been read and is waiting to be imported
+ */
+type ImportSource =
+  | { format: 'parsed'; rows: ImportRow[]; unmatchedLists: string[] }
+  | { format: 'csv'; header: string[]; data: string[][] }
+
+interface ImportDialogProps {
+  /** Tasks already saved, used to detect duplicates */
+  existingTasks: Task[]
+  /** Lists imported tasks may belong to */
+  lists: TaskList[]
+  onImport: (tasks: Task[]) => void
+  onClose: () => void
+}
+
+/**
+ * Work out the format of a file from its extension and contents
+ */
+function detectImportFormat(file: ImportFile): Exclude<ImportFormat, 'auto'> {
+  if (/\.csv$/i.test(file.name)) {
+    return isTodoistCsv(parseCsv(file.text.split(/\r?\n/, 1)[0])[0] || []) ? 'todoist' : 'csv'
+  }
+  if (/\.ics$/i.test(file.name)) return 'ics'
+  if (/\.(md|markdown|txt)$/i.test(file.name)) return 'markdown'
+  try {
+    return isTrelloBoard(JSON.parse(file.text)) ? 'trello' : 'json'
+  } catch {
+    return 'json'
+  }
+}
+
+/**
+ * Read file contents into an import source
+ * Throws an Error when the file cannot be read in the chosen format
+ */
+function readImportSource(file: ImportFile, format: ImportFormat, lists: TaskList[]): ImportSource {
+  const fromExternal = ({ inputs, unmatchedLists }: ExternalImportResult): ImportSource => ({
+    format: 'parsed',
+    rows: inputsToImportRows(inputs),
+    unmatchedLists,
+  })
+
+  switch (format === 'auto' ? detectImportFormat(file) : format) {
+    case 'csv': {
+      const [header = [], ...data] = parseCsv(file.text)
+      if (header.length === 0) throw new Error('The file is empty.')
+      return { format: 'csv', header, data }
+    }
+    case 'ics':
+      return { format: 'parsed', rows: parseIcsImport(file.text), unmatchedLists: [] }
+    case 'todoist':
+      return fromExternal(
+        importTodoistCsv(file.text, { lists, projectName: file.name.replace(/\.[^.]+$/, '') })
+      )
+    case 'trello': {
+      let data: unknown
+      try {
+        data = JSON.parse(file.text)
+      } catch {
+        throw new Error('The file is not valid JSON.')
+      }
+      return fromExternal(importTrelloBoard(data, { lists }))
+    }
+    case 'markdown':
+      return fromExternal(importMarkdownChecklist(file.text, { lists }))
+    default:
+      return { format: 'parsed', rows: parseJsonImport(file.text), unmatchedLists: [] }
+  }
+}
+
+const selectClasses =
+  'block w-full rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm text-gray-900 dark:border-gray-600 dark:bg-gray-700 dark:text-white'
+
+/**
+ * ImportDialog Component
+ * Imports tasks from NimbusTodo JSON, CSV, iCalendar, Todoist, Trello or Markdown files
+ * with CSV column mapping and a preview that shows invalid rows and duplicates before
+ * anything is saved
+ */
+export function ImportDialog({ existingTasks, lists, onImport, onClose }: ImportDialogProps) {
+  const [file, setFile] = useState<ImportFile | null>(null)
+  const [format, setFormat] = useState<ImportFormat>('auto')
+  // null until the user changes a column, so the guessed mapping follows the file
+  const [mapping, setMapping] = useState<CsvFieldMapping | null>(null)
+  const [includeDuplicates, setIncludeDuplicates] = useState(false)
+
+  const { source, fileError } = useMemo(() => {
+    if (!file) return { source: null, fileError: null }
+    if (file.readError) return { source: null, fileError: file.readError }
+    try {
+      return { source: readImportSource(file, format, lists), fileError: null }
+    } catch (error) {
+      return {
+        source: null,
+        fileError: error instanceof Error ? error.message : 'The file could not be read.',
+      }
+    }
+  }, [file, format, lists])
+
+  const columnMapping = useMemo(
+    () => mapping ?? (source?.format === 'csv' ? guessCsvMapping(source.header) : {}),
+    [mapping, source]
+  )
+
+  const rows = useMemo(() => {
+    if (!source) return []
+    const parsed =
+      source.format === 'parsed' ? source.rows : parseCsvImport(source.data, columnMapping)
+    return markDuplicates(parsed, existingTasks)
+  }, [source, columnMapping, existingTasks])
+
+  const tasksToImport = getImportedTasks(rows, {
+    includeDuplicates,
+    listIds: lists.map(list => list.id),
+  })
+  const invalidCount = rows.filter(row => !row.task).length
+  const duplicateCount = rows.filter(row => row.duplicate).length
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0]
+    if (!chosen) return
+
+    try {
+      setFile({ name: chosen.name, text: await chosen.text() })
+    } catch (error) {
+      setFile({
+        name: chosen.name,
+        text: '',
+        readError: error instanceof Error ? error.message : 'The file could not be read.',
+      })
+    }
+    setMapping(null)
+  }
+
+  const handleMappingChange = (field: TaskCsvField, column: string) => {
+    const next = { ...columnMapping }
+    if (column === '') {
+      delete next[field]
+    } else {
+      next[field] = Number(column)
+    }
+    setMapping(next)
+  }
+
+  const handleImport = () => {
+    onImport(tasksToImport)
+    onClose()
+  }
+
+  /**
+   * Describe the outcome of a previewed row
+   */
+  const renderRowResult = (row: ImportRow) => {
+    if (!row.task) {
+      return <span className="text-red-600 dark:text-red-400">{row.errors.join('; ')}</span>
+    }
+    if (row.duplicate) {
+      return (
+        <span className="text-yellow-700 dark:text-yellow-400">
+          Duplicate of “{row.duplicate.title}” (
+          {row.duplicate.reason === 'id' ? 'same id' : 'same title and due date'})
+        </span>
+      )
+    }
+    return <span className="text-green-700 dark:text-green-400">Ready</span>
+  }
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-40 bg-black bg-opacity-50 dark:bg-opacity-70"
+        onClick={onClose}
+      />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-dialog-title"
+        className="fixed left-1/2 top-1/2 z-50 max-h-[90vh] w-full max-w-3xl -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-lg bg-white p-6 shadow-xl dark:bg-gray-800"
+      >
+        <h3 id="import-dialog-title" className="text-lg font-bold text-gray-900 dark:text-white">
+          Import tasks
+        </h3>
+        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+          Choose a NimbusTodo export, a CSV or iCalendar file, or an export from Todoist, Trello or
+          a Markdown checklist. Nothing is saved until you confirm.
+        </p>
+
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          <input
+            type="file"
+            accept=".json,.csv,.ics,.md,.markdown,.txt"
+            onChange={handleFileChange}
+            aria-label="File to import"
+            className="block flex-1 text-sm text-gray-700 file:mr-4 file:rounded-lg file:border-0 file:bg-blue-50 file:px-4 file:py-2 file:font-medium file:text-blue-700 hover:file:bg-blue-100 dark:text-gray-300 dark:file:bg-blue-950 dark:file:text-blue-200"
+          />
+          <select
+            value={format}
+            onChange={e => {
+              setFormat(e.target.value as ImportFormat)
+              setMapping(null)
+            }}
+            aria-label="File format"
+            className={`w-auto ${selectClasses}`}
+          >
+            {(Object.keys(IMPORT_FORMAT_LABELS) as ImportFormat[]).map(option => (
+              <option key={option} value={option}>
+                {IMPORT_FORMAT_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {fileError && (
+          <p role="alert" className="mt-3 text-sm text-red-600 dark:text-red-400">
+            {file?.name}: {fileError}
+          </p>
+        )}
+
+        {/* CSV Field Mapping */}
+        {source?.format === 'csv' && (
+          <div className="mt-6">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Columns</h4>
+            <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+              Match the columns of your file to task fields. Title is required.
+            </p>
+            <div className="mt-3 grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+              {TASK_CSV_FIELDS.map(field => (
+                <label key={field} className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                  {TASK_CSV_FIELD_LABELS[field]}
+                  <select
+                    value={columnMapping[field] ?? ''}
+                    onChange={e => handleMappingChange(field, e.target.value)}
+                    className={`mt-1 ${selectClasses}`}
+                  >
+                    <option value="">Not imported</option>
+                    {source.header.map((column, index) => (
+                      <option key={index} value={index}>
+                        {column || `Column ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Preview */}
+        {source && (
+          <div className="mt-6">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Preview</h4>
+            <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+              {rows.length} row{rows.length === 1 ? '' : 's'} · {invalidCount} with errors ·{' '}
+              {duplicateCount} duplicate{duplicateCount === 1 ? '' : 's'}
+            </p>
+            {source.format === 'parsed' && source.unmatchedLists.length > 0 && (
+              <p className="mt-1 text-xs text-yellow-700 dark:text-yellow-400">
+                No list named {source.unmatchedLists.map(name => `“${name}”`).join(', ')}. Those
+                tasks will go to the Inbox.
+              </p>
+            )}
+            <div className="mt-3 max-h-72 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700">
+              <table className="w-full text-left text-sm">
+                <thead className="sticky top-0 bg-gray-50 text-xs uppercase text-gray-600 dark:bg-gray-900 dark:text-gray-400">
+                  <tr>
+                    <th className="px-3 py-2">Row</th>
+                    <th className="px-3 py-2">Title</th>
+                    <th className="px-3 py-2">Due</th>
+                    <th className="px-3 py-2">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {rows.map(row => (
+                    <tr key={row.row}>
+                      <td className="px-3 py-2 text-gray-500 dark:text-gray-400">{row.row}</td>
+                      <td className="px-3 py-2 text-gray-900 dark:text-white">
+                        {row.task?.title || '—'}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600 dark:text-gray-400">
+                        {row.task ? formatTaskDueDate(row.task) : ''}
+                      </td>
+                      <td className="px-3 py-2">{renderRowResult(row)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {duplicateCount > 0 && (
+              <label className="mt-3 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={includeDuplicates}
+                  onChange={e => setIncludeDuplicates(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                Import duplicates as copies
+              </label>
+            )}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="rounded-lg border border-gray-300 px-4 py-2 font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={tasksToImport.length === 0}
+            className="rounded-lg bg-blue-600 px-4 py-2 font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-blue-700 dark:hover:bg-blue-600"
+          >
+            Import {tasksToImport.length} task{tasksToImport.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,226 @@
+import { useState } from 'react'
+import { TaskList, TaskListColor, TaskListInput } from '@/types/list'
+import { INBOX_LIST_ID, LIST_COLORS, getListColorClass } from '@/utils/list'
+
+/**
+ * How to handle the tasks of a list that is being deleted
+ */
+export type DeleteListMode = 'move' | 'delete'
+
+interface ListSidebarProps {
+  lists: TaskList[]
+  selectedListId: string
+  /** Number of open tasks per list id */
+  taskCounts?: Record<string, number>
+  onSelectList: (listId: string) => void
+  onAddList: (input: TaskListInput) => void
+  onDeleteList: (listId: string, mode: DeleteListMode) => void
+}
+
+/**
+ * ListSidebar Component
+ * Navigation between named task lists with list creation and deletion
+ */
+export function ListSidebar({
+  lists,
+  selectedListId,
+  taskCounts = {},
+  onSelectList,
+  onAddList,
+  onDeleteList,
+}: ListSidebarProps) {
+  const [isAdding, setIsAdding] = useState(false)
+  const [name, setName] = useState('')
+  const [icon, setIcon] = useState('')
+  const [color, setColor] = useState<TaskListColor>('blue')
+  const [listToDelete, setListToDelete] = useState<TaskList | null>(null)
+
+  const resetForm = () => {
+    setIsAdding(false)
+    setName('')
+    setIcon('')
+    setColor('blue')
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!name.trim()) return
+
+    onAddList({ name: name.trim(), icon: icon.trim() || undefined, color })
+    resetForm()
+  }
+
+  const handleConfirmDelete = (mode: DeleteListMode) => {
+    if (listToDelete) {
+      onDeleteList(listToDelete.id, mode)
+      setListToDelete(null)
+    }
+  }
+
+  const deleteCount = listToDelete ? taskCounts[listToDelete.id] || 0 : 0
+
+  return (
+    <nav aria-label="Task lists" className="rounded-lg bg-white p-4 shadow-sm dark:bg-gray-800">
+      <h2 className="mb-3 text-xs font-semibold uppercase tracking-wide text-gray-600 dark:text-gray-400">
+        Lists
+      </h2>
+
+      <ul className="space-y-1">
+        {lists.map(list => {
+          const isSelected = list.id === selectedListId
+          return (
+            <li key={list.id} className="group flex items-center gap-1">
+              <button
+                onClick={() => onSelectList(list.id)}
+                aria-current={isSelected ? 'page' : undefined}
+                className={`flex flex-1 items-center gap-2 rounded-lg px-3 py-2 text-left text-sm transition-colors ${
+                  isSelected
+                    ? 'bg-blue-50 font-semibold text-blue-700 dark:bg-blue-950 dark:text-blue-300'
+                    : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+                }`}
+              >
+                <span
+                  className={`h-2 w-2 flex-shrink-0 rounded-full ${getListColorClass(list.color)}`}
+                />
+                <span aria-hidden="true">{list.icon}</span>
+                <span className="flex-1 truncate">{list.name}</span>
+                {taskCounts[list.id] ? (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {taskCounts[list.id]}
+                  </span>
+                ) : null}
+              </button>
+              {list.id !== INBOX_LIST_ID && (
+                <button
+                  onClick={() => setListToDelete(list)}
+                  className="rounded p-1.5 text-gray-400 opacity-0 transition-opacity hover:bg-red-100 hover:text-red-600 group-hover:opacity-100 dark:hover:bg-red-900 dark:hover:text-red-400"
+                  aria-label={`Delete list ${list.name}`}
+                >
+                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M6 18L18 6M6 6l12 12"
+                    />
+                  </svg>
+                </button>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+
+      {/* New List */}
+      {isAdding ? (
+        <form onSubmit={handleSubmit} className="mt-4 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={icon}
+              onChange={e => setIcon(e.target.value)}
+              placeholder="📋"
+              aria-label="List icon"
+              maxLength={2}
+              className="w-12 rounded-lg border border-gray-300 px-2 py-1.5 text-center text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            />
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="List name"
+              aria-label="List name"
+              autoFocus
+              className="min-w-0 flex-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            />
+          </div>
+          <div className="flex gap-1.5" role="radiogroup" aria-label="List color">
+            {LIST_COLORS.map(option => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={color === option}
+                aria-label={option}
+                onClick={() => setColor(option)}
+                className={`h-5 w-5 rounded-full ${getListColorClass(option)} ${
+                  color === option
+                    ? 'ring-2 ring-offset-2 ring-gray-400 dark:ring-offset-gray-800'
+                    : ''
+                }`}
+              />
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="flex-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600"
+            >
+              Add
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="mt-4 w-full rounded-lg px-3 py-2 text-left text-sm text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700"
+        >
+          + New list
+        </button>
+      )}
+
+      {/* Delete List Dialog */}
+      {listToDelete && (
+        <>
+          <div
+            className="fixed inset-0 z-40 bg-black bg-opacity-50 dark:bg-opacity-70"
+            onClick={() => setListToDelete(null)}
+          />
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="delete-list-title"
+            className="fixed left-1/2 top-1/2 z-50 w-full max-w-sm -translate-x-1/2 -translate-y-1/2 rounded-lg bg-white p-6 shadow-xl dark:bg-gray-800"
+          >
+            <h3 id="delete-list-title" className="text-lg font-bold text-gray-900 dark:text-white">
+              Delete “{listToDelete.name}”?
+            </h3>
+            <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+              {deleteCount > 0
+                ? `This list has ${deleteCount} open task${deleteCount === 1 ? '' : 's'}. What should happen to its tasks?`
+                : 'What should happen to any tasks in this list?'}
+            </p>
+            <div className="mt-6 flex flex-col gap-2">
+              <button
+                onClick={() => handleConfirmDelete('move')}
+                className="rounded-lg bg-blue-600 px-4 py-2 font-medium text-white hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600"
+              >
+                Move tasks to Inbox
+              </button>
+              <button
+                onClick={() => handleConfirmDelete('delete')}
+                className="rounded-lg border border-red-300 px-4 py-2 font-medium text-red-600 hover:bg-red-50 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-950"
+              >
+                Delete tasks
+              </button>
+              <button
+                onClick={() => setListToDelete(null)}
+                className="rounded-lg border border-gray-300 px-4 py-2 font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </nav>
+  )
+}
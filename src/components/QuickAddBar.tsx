@@ -0,0 +1,118 @@
+import { useState } from 'react'
+import { TaskInput } from '@/types/task'
+import { TaskList } from '@/types/list'
+import { parseQuickEntry } from '@/utils/parseQuickEntry'
+import { formatTaskDueDate } from '@/utils/task'
+
+interface QuickAddBarProps {
+  onAdd: (task: TaskInput) => void
+  /** Lists that @list tokens can refer to */
+  lists?: TaskList[]
+  /** Whether the full task form is currently expanded */
+  isExpanded?: boolean
+  onToggleExpand?: () => void
+  /** Ref to the text input, e.g. to focus it from a shortcut */
+  inputRef?: React.Ref<HTMLInputElement>
+}
+
+/**
+ * QuickAddBar Component
+ * Inline task entry with natural-language parsing and a toggle for the full create form
+ * e.g. "Pay invoice tomorrow 5pm #finance !urgent @work"
+ */
+export function QuickAddBar({
+  onAdd,
+  lists = [],
+  isExpanded = false,
+  onToggleExpand,
+  inputRef,
+}: QuickAddBarProps) {
+  const [text, setText] = useState('')
+  const { input, unknownList } = parseQuickEntry(text, { lists })
+  const list = input.listId ? lists.find(l => l.id === input.listId) : undefined
+  const dueLabel = formatTaskDueDate({ ...input, status: 'pending' })
+  const hasPreview =
+    !!dueLabel || !!input.tags || input.priority !== 'medium' || !!list || !!unknownList
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!input.title) return
+
+    onAdd(input)
+    setText('')
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="rounded-lg bg-white p-3 shadow-sm dark:bg-gray-800">
+      <div className="flex gap-2">
+        <input
+          ref={inputRef}
+          type="text"
+          value={text}
+          onChange={e => setText(e.target.value)}
+          placeholder="Add a task, e.g. Pay invoice tomorrow 5pm #finance !urgent"
+          aria-label="New task"
+          aria-describedby="quick-add-preview"
+          className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+        />
+        <button
+          type="submit"
+          disabled={!input.title}
+          className="rounded-lg bg-blue-600 px-4 py-2 font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-blue-700 dark:hover:bg-blue-600"
+        >
+          Add
+        </button>
+        {onToggleExpand && (
+          <button
+            type="button"
+            onClick={onToggleExpand}
+            aria-expanded={isExpanded}
+            className="rounded-lg border border-gray-300 px-4 py-2 font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+          >
+            {isExpanded ? 'Hide details' : 'More options'}
+          </button>
+        )}
+      </div>
+
+      {/* Parsed Preview */}
+      <div id="quick-add-preview" aria-live="polite">
+        {text.trim() && hasPreview && (
+          <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+            <span className="font-medium text-gray-700 dark:text-gray-300">
+              {input.title || <span className="italic text-gray-500">No title</span>}
+            </span>
+            {dueLabel && (
+              <span className="rounded-full bg-orange-100 px-2 py-0.5 text-orange-700 dark:bg-orange-900 dark:text-orange-200">
+                📅 {dueLabel}
+              </span>
+            )}
+            {input.priority !== 'medium' && (
+              <span className="rounded-full bg-red-100 px-2 py-0.5 capitalize text-red-700 dark:bg-red-900 dark:text-red-200">
+                {input.priority}
+              </span>
+            )}
+            {input.tags?.map(tag => (
+              <span
+                key={tag}
+                className="rounded-full bg-gray-100 px-2 py-0.5 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+              >
+                #{tag}
+              </span>
+            ))}
+            {list && (
+              <span className="rounded-full bg-blue-100 px-2 py-0.5 text-blue-700 dark:bg-blue-900 dark:text-blue-200">
+                {list.icon} {list.name}
+              </span>
+            )}
+            {unknownList && (
+              <span className="text-gray-500 dark:text-gray-400">
+                No list named “{unknownList}”
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,183 @@
+import { RecurrenceFrequency, RecurrenceRule } from '@/types/task'
+import { WEEKDAY_LABELS } from '@/utils/recurrence'
+import { parseDateInputValue, toDateInputValue } from '@/utils/date'
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null | undefined
+  onChange: (rule: RecurrenceRule | null) => void
+  /** Used to pick sensible defaults for weekday and day-of-month rules */
+  referenceDate?: Date | null
+}
+
+type EndMode = 'never' | 'count' | 'until'
+
+const inputClasses =
+  'rounded-lg border border-gray-300 px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white'
+
+/**
+ * Gets the unit label for the interval input
+ */
+function getUnitLabel(frequency: RecurrenceFrequency, interval: number): string {
+  const units = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' }
+  return interval === 1 ? units[frequency] : `${units[frequency]}s`
+}
+
+/**
+ * RecurrenceEditor Component
+ * Edits a task's repeat rule: frequency, interval, weekdays, day of month and end condition
+ */
+export function RecurrenceEditor({ value, onChange, referenceDate }: RecurrenceEditorProps) {
+  const reference = referenceDate ? new Date(referenceDate) : new Date()
+  const endMode: EndMode = value?.count ? 'count' : value?.until ? 'until' : 'never'
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | 'none') => {
+    if (frequency === 'none') {
+      onChange(null)
+      return
+    }
+    onChange({
+      frequency,
+      interval: value?.interval || 1,
+      byWeekday: frequency === 'weekly' ? [reference.getDay()] : undefined,
+      byMonthDay: frequency === 'monthly' ? reference.getDate() : undefined,
+      count: value?.count,
+      until: value?.until,
+    })
+  }
+
+  const update = (updates: Partial<RecurrenceRule>) => {
+    if (value) {
+      onChange({ ...value, ...updates })
+    }
+  }
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = value?.byWeekday || []
+    const next = weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day]
+    update({ byWeekday: next.sort((a, b) => a - b) })
+  }
+
+  const handleEndModeChange = (mode: EndMode) => {
+    update({
+      count: mode === 'count' ? value?.count || 5 : undefined,
+      until:
+        mode === 'until'
+          ? value?.until || new Date(reference.getFullYear(), reference.getMonth() + 1, 1)
+          : null,
+    })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={value?.frequency || 'none'}
+          onChange={e => handleFrequencyChange(e.target.value as RecurrenceFrequency | 'none')}
+          aria-label="Repeat"
+          className={inputClasses}
+        >
+          <option value="none">Does not repeat</option>
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthly">Monthly</option>
+          <option value="yearly">Yearly</option>
+        </select>
+
+        {value && (
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            every
+            <input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={e => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              aria-label="Repeat interval"
+              className={`w-20 ${inputClasses}`}
+            />
+            {getUnitLabel(value.frequency, value.interval)}
+          </label>
+        )}
+      </div>
+
+      {/* Weekdays */}
+      {value?.frequency === 'weekly' && (
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Repeat on">
+          {WEEKDAY_LABELS.map((label, day) => {
+            const isSelected = value.byWeekday?.includes(day)
+            return (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                aria-pressed={isSelected}
+                className={`rounded-full px-3 py-1 text-sm font-medium transition-colors ${
+                  isSelected
+                    ? 'bg-blue-600 text-white dark:bg-blue-700'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                {label}
+              </button>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Day of Month */}
+      {value?.frequency === 'monthly' && (
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          on day
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={value.byMonthDay || reference.getDate()}
+            onChange={e =>
+              update({ byMonthDay: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })
+            }
+            aria-label="Day of month"
+            className={`w-20 ${inputClasses}`}
+          />
+        </label>
+      )}
+
+      {/* End Condition */}
+      {value && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <select
+            value={endMode}
+            onChange={e => handleEndModeChange(e.target.value as EndMode)}
+            aria-label="Ends"
+            className={inputClasses}
+          >
+            <option value="never">Never ends</option>
+            <option value="count">Ends after</option>
+            <option value="until">Ends on</option>
+          </select>
+          {endMode === 'count' && (
+            <label className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                value={value.count}
+                onChange={e => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                aria-label="Number of occurrences"
+                className={`w-20 ${inputClasses}`}
+              />
+              occurrences
+            </label>
+          )}
+          {endMode === 'until' && (
+            <input
+              type="date"
+              value={toDateInputValue(value.until)}
+              onChange={e => update({ until: parseDateInputValue(e.target.value) })}
+              aria-label="End date"
+              className={inputClasses}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import { REMINDER_OPTIONS } from '@/utils/reminder'
+
+interface ReminderPickerProps {
+  value: number[]
+  onChange: (reminders: number[]) => void
+  /** Reminders need a due date to be relative to */
+  disabled?: boolean
+}
+
+/**
+ * ReminderPicker Component
+ * Toggles reminder offsets (e.g. 15 minutes or 1 day before the due time)
+ */
+export function ReminderPicker({ value, onChange, disabled = false }: ReminderPickerProps) {
+  const toggle = (minutes: number) => {
+    onChange(
+      value.includes(minutes)
+        ? value.filter(m => m !== minutes)
+        : [...value, minutes].sort((a, b) => a - b)
+    )
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2" role="group" aria-label="Reminders">
+      {REMINDER_OPTIONS.map(option => {
+        const isSelected = value.includes(option.minutes)
+        return (
+          <button
+            key={option.minutes}
+            type="button"
+            onClick={() => toggle(option.minutes)}
+            disabled={disabled}
+            aria-pressed={isSelected}
+            className={`rounded-full px-3 py-1 text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+              isSelected
+                ? 'bg-blue-600 text-white dark:bg-blue-700'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+            }`}
+          >
+            {option.label}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react'
+import { SavedView } from '@/types/view'
+
+interface SavedViewsSidebarProps {
+  views: SavedView[]
+  /** Id of the selected view, or null when a list is selected */
+  activeViewId: string | null
+  /** Number of matching tasks per view id */
+  viewCounts?: Record<string, number>
+  onSelectView: (view: SavedView) => void
+  /** Save the current filters, sorting and grouping under a name */
+  onSaveView: (name: string) => void
+  onDeleteView: (viewId: string) => void
+}
+
+/**
+ * SavedViewsSidebar Component
+ * Built-in smart views (Today, Upcoming, Overdue) and the user's saved views
+ */
+export function SavedViewsSidebar({
+  views,
+  activeViewId,
+  viewCounts = {},
+  onSelectView,
+  onSaveView,
+  onDeleteView,
+}: SavedViewsSidebarProps) {
+  const [isSaving, setIsSaving] = useState(false)
+  const [name, setName] = useState('')
+
+  const resetForm = () => {
+    setIsSaving(false)
+    setName('')
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!name.trim()) return
+
+    onSaveView(name.trim())
+    resetForm()
+  }
+
+  return (
+    <nav aria-label="Views" className="rounded-lg bg-white p-4 shadow-sm dark:bg-gray-800">
+      <h2 className="mb-3 text-xs font-semibold uppercase tracking-wide text-gray-600 dark:text-gray-400">
+        Views
+      </h2>
+
+      <ul className="space-y-1">
+        {views.map(view => {
+          const isSelected = view.id === activeViewId
+          return (
+            <li key={view.id} className="group flex items-center gap-1">
+              <button
+                onClick={() => onSelectView(view)}
+                aria-current={isSelected ? 'page' : undefined}
+                className={`flex flex-1 items-center gap-2 rounded-lg px-3 py-2 text-left text-sm transition-colors ${
+                  isSelected
+                    ? 'bg-blue-50 font-semibold text-blue-700 dark:bg-blue-950 dark:text-blue-300'
+                    : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+                }`}
+              >
+                <span aria-hidden="true">{view.icon}</span>
+                <span className="flex-1 truncate">{view.name}</span>
+                {viewCounts[view.id] ? (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {viewCounts[view.id]}
+                  </span>
+                ) : null}
+              </button>
+              {!view.builtIn && (
+                <button
+                  onClick={() => onDeleteView(view.id)}
+                  className="rounded p-1.5 text-gray-400 opacity-0 transition-opacity hover:bg-red-100 hover:text-red-600 group-hover:opacity-100 dark:hover:bg-red-900 dark:hover:text-red-400"
+                  aria-label={`Delete view ${view.name}`}
+                >
+                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M6 18L18 6M6 6l12 12"
+                    />
+                  </svg>
+                </button>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+
+      {/* Save Current View */}
+      {isSaving ? (
+        <form onSubmit={handleSubmit} className="mt-4 space-y-2">
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="View name"
+            aria-label="View name"
+            autoFocus
+            className="block w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="flex-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          onClick={() => setIsSaving(true)}
+          className="mt-4 w-full rounded-lg px-3 py-2 text-left text-sm text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700"
+        >
+          + Save current view
+        </button>
+      )}
+    </nav>
+  )
+}
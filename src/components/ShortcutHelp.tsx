@@ -0,0 +1,64 @@
+import { KEYBOARD_SHORTCUTS } from '@/utils/keyboard'
+
+interface ShortcutHelpProps {
+  onClose: () => void
+}
+
+/**
+ * ShortcutHelp Component
+ * Overlay listing the keyboard shortcuts, opened with "?"
+ */
+export function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-40 bg-black bg-opacity-50 dark:bg-opacity-70"
+        onClick={onClose}
+      />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        onKeyDown={e => {
+          if (e.key === 'Escape' || e.key === '?') {
+            e.preventDefault()
+            onClose()
+          }
+        }}
+        className="fixed left-1/2 top-1/2 z-50 w-full max-w-md -translate-x-1/2 -translate-y-1/2 rounded-lg bg-white p-6 shadow-xl dark:bg-gray-800"
+      >
+        <h3 id="shortcut-help-title" className="text-lg font-bold text-gray-900 dark:text-white">
+          Keyboard shortcuts
+        </h3>
+
+        <dl className="mt-4 space-y-2">
+          {KEYBOARD_SHORTCUTS.map(shortcut => (
+            <div key={shortcut.description} className="flex items-center justify-between gap-4">
+              <dt className="text-sm text-gray-700 dark:text-gray-300">{shortcut.description}</dt>
+              <dd className="flex flex-shrink-0 items-center gap-1">
+                {shortcut.keys.map(key => (
+                  <kbd
+                    key={key}
+                    className="min-w-6 rounded border border-gray-300 bg-gray-50 px-1.5 py-0.5 text-center font-mono text-xs text-gray-700 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-300"
+                  >
+                    {key}
+                  </kbd>
+                ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            autoFocus
+            className="rounded-lg border border-gray-300 px-4 py-2 font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,101 @@
+import { TaskSortKey, TaskSortRule } from '@/types/view'
+import {
+  SORT_KEYS,
+  SORT_LABELS,
+  createSortRule,
+  getSortDirectionLabel,
+  isManualSort,
+} from '@/utils/sort'
+
+interface SortControlsProps {
+  sort: TaskSortRule[]
+  onChange: (sort: TaskSortRule[]) => void
+}
+
+/**
+ * SortControls Component
+ * Edits the sort order of the task list: a first key and "then by" keys that break its
+ * ties, each with a direction. The manual order can only be the first key and ends the
+ * sort order, as it leaves no ties.
+ */
+export function SortControls({ sort, onChange }: SortControlsProps) {
+  const unusedKeys = SORT_KEYS.filter(
+    key => key !== 'manual' && !sort.some(rule => rule.key === key)
+  )
+
+  const changeKey = (index: number, key: TaskSortKey) => {
+    if (key === 'manual') {
+      onChange([createSortRule(key)])
+    } else {
+      onChange(sort.map((rule, i) => (i === index ? createSortRule(key) : rule)))
+    }
+  }
+
+  const toggleDirection = (index: number) => {
+    onChange(
+      sort.map((rule, i) =>
+        i === index ? { ...rule, direction: rule.direction === 'asc' ? 'desc' : 'asc' } : rule
+      )
+    )
+  }
+
+  return (
+    <div className="mt-2 space-y-2">
+      {sort.map((rule, index) => {
+        // A key can only be used once; keys of the other rows are not offered
+        const options = SORT_KEYS.filter(
+          key =>
+            key === rule.key ||
+            (key === 'manual' ? index === 0 : !sort.some(other => other.key === key))
+        )
+        const label = index === 0 ? 'Sort by' : `Then by (${index + 1})`
+        return (
+          <div key={rule.key} className="flex gap-1">
+            <select
+              value={rule.key}
+              onChange={e => changeKey(index, e.target.value as TaskSortKey)}
+              aria-label={label}
+              className="block min-w-0 flex-1 rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+            >
+              {options.map(key => (
+                <option key={key} value={key}>
+                  {index > 0 ? `then ${SORT_LABELS[key]}` : SORT_LABELS[key]}
+                </option>
+              ))}
+            </select>
+            {rule.key !== 'manual' && (
+              <button
+                type="button"
+                onClick={() => toggleDirection(index)}
+                aria-label={`${SORT_LABELS[rule.key]}: ${getSortDirectionLabel(rule)}`}
+                title={getSortDirectionLabel(rule)}
+                className="rounded-lg border border-gray-300 px-2 text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+              >
+                {rule.direction === 'asc' ? '↑' : '↓'}
+              </button>
+            )}
+            {index > 0 && (
+              <button
+                type="button"
+                onClick={() => onChange(sort.filter((_, i) => i !== index))}
+                aria-label={`Remove ${SORT_LABELS[rule.key]} from the sort order`}
+                className="rounded-lg px-2 text-gray-500 hover:bg-gray-100 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-gray-200"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        )
+      })}
+      {!isManualSort(sort) && unusedKeys.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange([...sort, createSortRule(unusedKeys[0])])}
+          className="text-sm font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          + Then by
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import { StorageError } from '@/storage'
+
+interface StorageErrorBannerProps {
+  error: StorageError | null
+  onDismiss?: () => void
+}
+
+/**
+ * Gets a headline for a storage failure
+ */
+function getErrorTitle(error: StorageError): string {
+  switch (error.kind) {
+    case 'quota':
+      return 'Your changes could not be saved'
+    case 'parse':
+    case 'migration':
+      return 'Your saved data could not be loaded'
+    case 'unavailable':
+      return 'Browser storage is unavailable'
+    default:
+      return 'Something went wrong while saving'
+  }
+}
+
+/**
+ * StorageErrorBanner Component
+ * Surfaces storage layer failures (quota exceeded, corrupted data, ...) to the user
+ */
+export function StorageErrorBanner({ error, onDismiss }: StorageErrorBannerProps) {
+  if (!error) return null
+
+  return (
+    <div
+      role="alert"
+      className="mb-6 flex items-start gap-3 rounded-lg border border-red-300 bg-red-50 p-4 text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-200"
+    >
+      <svg
+        className="mt-0.5 h-5 w-5 flex-shrink-0"
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M12 9v2m0 4h.01M5.07 19h13.86a2 2 0 001.73-3L13.73 4a2 2 0 00-3.46 0L3.34 16a2 2 0 001.73 3z"
+        />
+      </svg>
+      <div className="flex-1">
+        <p className="font-semibold">{getErrorTitle(error)}</p>
+        <p className="mt-1 text-sm">{error.message}</p>
+      </div>
+      {onDismiss && (
+        <button
+          onClick={onDismiss}
+          className="rounded p-1 hover:bg-red-100 dark:hover:bg-red-900"
+          aria-label="Dismiss"
+        >
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react'
+import { Subtask } from '@/types/task'
+import { createSubtask, moveSubtask, sortSubtasks } from '@/utils/subtask'
+
+interface SubtaskChecklistProps {
+  subtasks: Subtask[]
+  onChange: (subtasks: Subtask[]) => void
+}
+
+/**
+ * SubtaskChecklist Component
+ * Editable checklist of subtasks with add, reorder, check off and delete actions
+ */
+export function SubtaskChecklist({ subtasks, onChange }: SubtaskChecklistProps) {
+  const [newTitle, setNewTitle] = useState('')
+  const sorted = sortSubtasks(subtasks)
+
+  const handleAdd = () => {
+    if (!newTitle.trim()) return
+    onChange([...subtasks, createSubtask(newTitle.trim(), subtasks)])
+    setNewTitle('')
+  }
+
+  const handleToggle = (id: string) => {
+    onChange(
+      subtasks.map(subtask => (subtask.id === id ? { ...subtask, done: !subtask.done } : subtask))
+    )
+  }
+
+  const handleDelete = (id: string) => {
+    onChange(subtasks.filter(subtask => subtask.id !== id))
+  }
+
+  return (
+    <div className="mt-2 space-y-2">
+      {sorted.length > 0 && (
+        <ul className="space-y-1">
+          {sorted.map((subtask, index) => (
+            <li
+              key={subtask.id}
+              className="group flex items-center gap-2 rounded-lg px-2 py-1 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              <input
+                type="checkbox"
+                checked={subtask.done}
+                onChange={() => handleToggle(subtask.id)}
+                aria-label={`Mark ${subtask.title} ${subtask.done ? 'incomplete' : 'complete'}`}
+                className="h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-500 dark:border-gray-600"
+              />
+              <span
+                className={`flex-1 text-sm ${
+                  subtask.done
+                    ? 'line-through text-gray-500 dark:text-gray-400'
+                    : 'text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                {subtask.title}
+              </span>
+              <div className="flex gap-0.5 opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+                <button
+                  type="button"
+                  onClick={() => onChange(moveSubtask(subtasks, subtask.id, 'up'))}
+                  disabled={index === 0}
+                  className="rounded p-1 text-gray-400 hover:bg-gray-200 hover:text-gray-700 disabled:invisible dark:hover:bg-gray-600 dark:hover:text-gray-200"
+                  aria-label={`Move ${subtask.title} up`}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onChange(moveSubtask(subtasks, subtask.id, 'down'))}
+                  disabled={index === sorted.length - 1}
+                  className="rounded p-1 text-gray-400 hover:bg-gray-200 hover:text-gray-700 disabled:invisible dark:hover:bg-gray-600 dark:hover:text-gray-200"
+                  aria-label={`Move ${subtask.title} down`}
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(subtask.id)}
+                  className="rounded p-1 text-gray-400 hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-900 dark:hover:text-red-400"
+                  aria-label={`Delete ${subtask.title}`}
+                >
+                  ×
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newTitle}
+          onChange={e => setNewTitle(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleAdd()
+            }
+          }}
+          placeholder="Add a checklist item"
+          aria-label="New checklist item"
+          className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm text-white hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  )
+}
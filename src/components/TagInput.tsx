@@ -0,0 +1,123 @@
+import { useState } from 'react'
+import { getTagSuggestions, resolveTagName } from '@/utils/tag'
+
+interface TagInputProps {
+  /** Tags already on the task, left out of the suggestions */
+  tags: string[]
+  /** Existing tags offered while typing */
+  knownTags?: string[]
+  onAdd: (tag: string) => void
+  id?: string
+  placeholder?: string
+}
+
+/**
+ * TagInput Component
+ * Tag entry with case-insensitive autocomplete from the existing tags
+ * Typing a tag that exists in another case adds the existing spelling
+ */
+export function TagInput({
+  tags,
+  knownTags = [],
+  onAdd,
+  id = 'tag-input',
+  placeholder = 'Add tag',
+}: TagInputProps) {
+  const [text, setText] = useState('')
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const suggestions = text.trim() ? getTagSuggestions(text, knownTags, tags) : []
+  const showSuggestions = isOpen && suggestions.length > 0
+  const listId = `${id}-suggestions`
+
+  const addTag = (tag: string) => {
+    const name = resolveTagName(tag, knownTags)
+    if (name) onAdd(name)
+    setText('')
+    setIsOpen(false)
+    setActiveIndex(-1)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (suggestions.length === 0) return
+      e.preventDefault()
+      setIsOpen(true)
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      // -1 (nothing highlighted, Enter adds the typed text) is part of the cycle
+      const count = suggestions.length + 1
+      setActiveIndex(((activeIndex + 1 + step + count) % count) - 1)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      const suggestion = showSuggestions ? suggestions[activeIndex] : undefined
+      if (suggestion || text.trim()) addTag(suggestion || text)
+    } else if (e.key === 'Escape' && showSuggestions) {
+      // Close the suggestions without closing the surrounding dialog
+      e.preventDefault()
+      e.stopPropagation()
+      setIsOpen(false)
+    }
+  }
+
+  return (
+    <div className="relative flex gap-2">
+      <input
+        id={id}
+        type="text"
+        value={text}
+        onChange={e => {
+          setText(e.target.value)
+          setIsOpen(true)
+          setActiveIndex(-1)
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setIsOpen(false)}
+        placeholder={placeholder}
+        role="combobox"
+        autoComplete="off"
+        aria-autocomplete="list"
+        aria-expanded={showSuggestions}
+        aria-controls={listId}
+        aria-activedescendant={
+          showSuggestions && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined
+        }
+        className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+      />
+      <button
+        type="button"
+        onClick={() => text.trim() && addTag(text)}
+        className="rounded-lg bg-blue-600 px-4 py-2 text-white hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600"
+      >
+        Add
+      </button>
+
+      {showSuggestions && (
+        <ul
+          id={listId}
+          role="listbox"
+          aria-label="Existing tags"
+          className="absolute left-0 right-16 top-full z-10 mt-1 max-h-48 overflow-y-auto rounded-lg border border-gray-200 bg-white py-1 shadow-lg dark:border-gray-700 dark:bg-gray-800"
+        >
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so blur doesn't close the list before the click
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => addTag(tag)}
+              className={`cursor-pointer px-3 py-1.5 text-sm ${
+                index === activeIndex
+                  ? 'bg-blue-50 text-blue-900 dark:bg-blue-950 dark:text-blue-100'
+                  : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+              }`}
+            >
+              #{tag}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,192 @@
+import { useState } from 'react'
+import { TagColor, TagSummary } from '@/types/tag'
+import { LIST_COLORS } from '@/utils/list'
+import { getTagColorClasses, isSameTag, normalizeTagName } from '@/utils/tag'
+
+interface TagManagerProps {
+  tags: TagSummary[]
+  onColorChange: (name: string, color: TagColor) => void
+  /** Rename tags on every task; an existing name merges them into that tag */
+  onRename: (from: string[], to: string) => void
+  /** Remove a tag from every task */
+  onDelete: (name: string) => void
+  onClose: () => void
+}
+
+/**
+ * A tag being renamed and the name typed so far
+ */
+interface TagEdit {
+  name: string
+  text: string
+}
+
+/**
+ * TagManager Component
+ * Dialog to recolor, rename, merge and delete tags across all tasks
+ */
+export function TagManager({ tags, onColorChange, onRename, onDelete, onClose }: TagManagerProps) {
+  const [editing, setEditing] = useState<TagEdit | null>(null)
+
+  const taskCount = (count: number) => `${count} task${count === 1 ? '' : 's'}`
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editing) return
+    const to = normalizeTagName(editing.text)
+    if (!to || to === editing.name) {
+      setEditing(null)
+      return
+    }
+
+    // Renaming onto another tag merges the two
+    const target = tags.find(tag => tag.name !== editing.name && isSameTag(tag.name, to))
+    if (target) {
+      const source = tags.find(tag => tag.name === editing.name)
+      if (
+        !confirm(
+          `Merge #${editing.name} into #${target.name}? Its ${taskCount(source?.count || 0)} will be tagged #${target.name}.`
+        )
+      ) {
+        return
+      }
+    }
+    onRename([editing.name], target?.name || to)
+    setEditing(null)
+  }
+
+  const handleDelete = (tag: TagSummary) => {
+    if (tag.count > 0 && !confirm(`Remove #${tag.name} from ${taskCount(tag.count)}?`)) return
+    onDelete(tag.name)
+  }
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-40 bg-black bg-opacity-50 dark:bg-opacity-70"
+        onClick={onClose}
+      />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="tag-manager-title"
+        onKeyDown={e => {
+          if (e.key === 'Escape') {
+            e.preventDefault()
+            if (editing) {
+              setEditing(null)
+            } else {
+              onClose()
+            }
+          }
+        }}
+        className="fixed left-1/2 top-1/2 z-50 flex max-h-[85vh] w-full max-w-lg -translate-x-1/2 -translate-y-1/2 flex-col rounded-lg bg-white p-6 shadow-xl dark:bg-gray-800"
+      >
+        <h3 id="tag-manager-title" className="text-lg font-bold text-gray-900 dark:text-white">
+          Tags
+        </h3>
+        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+          Renaming a tag to the name of another tag merges them. Changes apply to every task and can
+          be undone.
+        </p>
+
+        {tags.length === 0 ? (
+          <p className="mt-4 text-sm italic text-gray-500 dark:text-gray-400">No tags yet.</p>
+        ) : (
+          <ul className="mt-4 flex-1 space-y-2 overflow-y-auto">
+            {tags.map(tag => {
+              const variant = tags.find(
+                other => other.name !== tag.name && isSameTag(other.name, tag.name)
+              )
+              return (
+                <li
+                  key={tag.name}
+                  className="flex flex-wrap items-center gap-2 rounded-lg border border-gray-200 p-2 dark:border-gray-700"
+                >
+                  <select
+                    value={tag.color}
+                    onChange={e => onColorChange(tag.name, e.target.value as TagColor)}
+                    aria-label={`Color of #${tag.name}`}
+                    className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm capitalize text-gray-900 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                  >
+                    {LIST_COLORS.map(color => (
+                      <option key={color} value={color}>
+                        {color}
+                      </option>
+                    ))}
+                  </select>
+
+                  {editing?.name === tag.name ? (
+                    <form onSubmit={handleRename} className="flex flex-1 gap-2">
+                      <input
+                        type="text"
+                        value={editing.text}
+                        onChange={e => setEditing({ ...editing, text: e.target.value })}
+                        autoFocus
+                        aria-label={`New name for #${tag.name}`}
+                        className="min-w-0 flex-1 rounded-lg border border-gray-300 px-2 py-1 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                      />
+                      <button
+                        type="submit"
+                        className="rounded-lg bg-blue-600 px-3 py-1 text-sm font-medium text-white hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600"
+                      >
+                        Save
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditing(null)}
+                        className="rounded-lg px-3 py-1 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+                      >
+                        Cancel
+                      </button>
+                    </form>
+                  ) : (
+                    <>
+                      <span
+                        className={`rounded-full px-3 py-1 text-sm ${getTagColorClasses(tag.color)}`}
+                      >
+                        #{tag.name}
+                      </span>
+                      <span className="flex-1 text-xs text-gray-500 dark:text-gray-400">
+                        {taskCount(tag.count)}
+                      </span>
+                      {variant && (
+                        <button
+                          onClick={() => onRename([tag.name], variant.name)}
+                          className="rounded-lg px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 dark:text-blue-400 dark:hover:bg-blue-950"
+                        >
+                          Merge into #{variant.name}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setEditing({ name: tag.name, text: tag.name })}
+                        className="rounded-lg px-2 py-1 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+                      >
+                        Rename
+                      </button>
+                      <button
+                        onClick={() => handleDelete(tag)}
+                        className="rounded-lg px-2 py-1 text-sm font-medium text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-950"
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            className="rounded-lg border border-gray-300 px-4 py-2 font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,253 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Task } from '@/types/task'
+import { TaskList } from '@/types/list'
+import { TagColor } from '@/types/tag'
+import { TaskFilterStatus, TaskGroupBy, TaskSortRule } from '@/types/view'
+import { DEFAULT_SORT, sortTasks } from '@/utils/sort'
+import { TaskGroupChanges, getGroupMoveChanges, groupTasksBy } from '@/utils/grouping'
+import { matchesStatusFilter } from '@/utils/view'
+import { TaskItem } from './TaskItem'
+
+interface TaskBoardProps {
+  tasks: Task[]
+  onTaskClick?: (task: Task) => void
+  onStatusChange?: (taskId: string, status: Task['status']) => void
+  onDelete?: (taskId: string) => void
+  /** Apply the changes that move a task to another column */
+  onMoveTask?: (taskId: string, changes: TaskGroupChanges) => void
+  /** Filter tasks by status (defaults to showing all non-archived) */
+  filterStatus?: TaskFilterStatus
+  /** Order of the cards within each column */
+  sort?: TaskSortRule[]
+  /** Columns come from this grouping ('none' shows status columns) */
+  groupBy?: TaskGroupBy
+  /** Lists used for list columns */
+  lists?: TaskList[]
+  /** Tags that get a column when grouping by tag, even when empty */
+  tags?: string[]
+  /** Search terms to highlight in each card */
+  highlightTerms?: string[]
+  /** Colors of the tags, by name */
+  tagColors?: Record<string, TagColor>
+  /** Filter by a tag when it is clicked */
+  onTagClick?: (tag: string) => void
+}
+
+/**
+ * A card being moved, with the column it came from and the one it would drop in
+ */
+interface MovingCard {
+  taskId: string
+  fromKey: string
+  toKey: string
+}
+
+/**
+ * Get the key identifying a card (a task can be in several tag columns)
+ */
+function getCardKey(columnKey: string, taskId: string): string {
+  return `${columnKey}:${taskId}`
+}
+
+/**
+ * TaskBoard Component
+ * Kanban board with a column per group and cards rendered by TaskItem
+ * Cards move between columns by dragging, or from the keyboard with Space to pick up,
+ * the arrow keys to choose a column, Space to drop and Escape to cancel
+ */
+export function TaskBoard({
+  tasks,
+  onTaskClick,
+  onStatusChange,
+  onDelete,
+  onMoveTask,
+  filterStatus = 'all',
+  sort = DEFAULT_SORT,
+  groupBy = 'status',
+  lists,
+  tags,
+  highlightTerms,
+  tagColors,
+  onTagClick,
+}: TaskBoardProps) {
+  const [dragging, setDragging] = useState<MovingCard | null>(null)
+  const [picked, setPicked] = useState<MovingCard | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+  const boardRef = useRef<HTMLDivElement>(null)
+  // Card to focus once it re-renders in its new column
+  const focusCardKey = useRef<string | null>(null)
+  const columnGroupBy = groupBy === 'none' ? 'status' : groupBy
+
+  const columns = useMemo(
+    () =>
+      groupTasksBy(
+        sortTasks(
+          tasks.filter(task => matchesStatusFilter(task, filterStatus)),
+          sort
+        ),
+        columnGroupBy,
+        { lists, tags, includeEmpty: true }
+      ),
+    [tasks, filterStatus, sort, columnGroupBy, lists, tags]
+  )
+
+  useEffect(() => {
+    if (!focusCardKey.current) return
+    const card = boardRef.current?.querySelector<HTMLElement>(
+      `[data-card-key="${CSS.escape(focusCardKey.current)}"]`
+    )
+    card?.focus()
+    focusCardKey.current = null
+  })
+
+  const getColumnLabel = (key: string) => columns.find(column => column.key === key)?.label || key
+
+  /**
+   * Move a task between columns through the task store
+   */
+  const moveTask = (move: MovingCard) => {
+    const task = tasks.find(t => t.id === move.taskId)
+    if (!task) return
+    const changes = getGroupMoveChanges(task, columnGroupBy, move.fromKey, move.toKey)
+    if (changes) onMoveTask?.(task.id, changes)
+  }
+
+  const handleDrop = (e: React.DragEvent, columnKey: string) => {
+    e.preventDefault()
+    if (dragging) moveTask({ ...dragging, toKey: columnKey })
+    setDragging(null)
+  }
+
+  const handleCardKeyDown = (e: React.KeyboardEvent, task: Task, columnKey: string) => {
+    // Keys pressed on the checkbox or delete button inside the card are theirs
+    if (e.target !== e.currentTarget) return
+
+    if (!picked) {
+      if (e.key === ' ' && onMoveTask) {
+        e.preventDefault()
+        setPicked({ taskId: task.id, fromKey: columnKey, toKey: columnKey })
+        setAnnouncement(
+          `Picked up “${task.title}” in ${getColumnLabel(columnKey)}. Use the left and right arrow keys to choose a column, Space to drop or Escape to cancel.`
+        )
+      } else if (e.key === 'Enter') {
+        e.preventDefault()
+        onTaskClick?.(task)
+      }
+      return
+    }
+
+    if (picked.taskId !== task.id || picked.fromKey !== columnKey) return
+
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      e.preventDefault()
+      const index =
+        columns.findIndex(column => column.key === picked.toKey) + (e.key === 'ArrowRight' ? 1 : -1)
+      if (index < 0 || index >= columns.length) return
+      setPicked({ ...picked, toKey: columns[index].key })
+      setAnnouncement(columns[index].label)
+    } else if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault()
+      setPicked(null)
+      if (picked.toKey === picked.fromKey) {
+        setAnnouncement(`“${task.title}” dropped back in ${getColumnLabel(picked.fromKey)}.`)
+        return
+      }
+      focusCardKey.current = getCardKey(picked.toKey, task.id)
+      moveTask(picked)
+      setAnnouncement(`Moved “${task.title}” to ${getColumnLabel(picked.toKey)}.`)
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      setPicked(null)
+      setAnnouncement(`Move of “${task.title}” cancelled.`)
+    }
+  }
+
+  const targetKey = dragging?.toKey ?? picked?.toKey
+
+  return (
+    <div ref={boardRef}>
+      <p id="board-instructions" className="sr-only">
+        Press Space to pick up a task, the left and right arrow keys to choose a column, and Space
+        to drop it. Press Enter to open a task.
+      </p>
+      <div aria-live="assertive" className="sr-only">
+        {announcement}
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {columns.map(column => {
+          const isTarget = targetKey === column.key && (dragging || picked)?.fromKey !== column.key
+          return (
+            <section
+              key={column.key}
+              aria-label={`${column.label}, ${column.tasks.length} tasks`}
+              onDragOver={e => {
+                if (!dragging) return
+                e.preventDefault()
+                if (dragging.toKey !== column.key) setDragging({ ...dragging, toKey: column.key })
+              }}
+              onDrop={e => handleDrop(e, column.key)}
+              className={`flex w-72 flex-shrink-0 flex-col rounded-lg bg-gray-50 p-3 transition-shadow dark:bg-gray-900 ${
+                isTarget ? 'ring-2 ring-blue-500' : ''
+              }`}
+            >
+              {/* Column Header */}
+              <div className="mb-3 flex items-center gap-2">
+                <h3 className="truncate text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  {column.label}
+                </h3>
+                <span className="inline-flex h-6 w-6 items-center justify-center rounded-full bg-gray-200 text-xs font-semibold text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                  {column.tasks.length}
+                </span>
+              </div>
+
+              {/* Cards */}
+              <ul className="flex-1 space-y-2">
+                {column.tasks.map(task => {
+                  const cardKey = getCardKey(column.key, task.id)
+                  const isPicked = picked?.taskId === task.id && picked.fromKey === column.key
+                  const isDragged = dragging?.taskId === task.id && dragging.fromKey === column.key
+                  return (
+                    <li
+                      key={cardKey}
+                      data-card-key={cardKey}
+                      tabIndex={0}
+                      draggable={!!onMoveTask}
+                      aria-describedby="board-instructions"
+                      onDragStart={e => {
+                        e.dataTransfer.effectAllowed = 'move'
+                        e.dataTransfer.setData('text/plain', task.id)
+                        setDragging({ taskId: task.id, fromKey: column.key, toKey: column.key })
+                      }}
+                      onDragEnd={() => setDragging(null)}
+                      onKeyDown={e => handleCardKeyDown(e, task, column.key)}
+                      onBlur={() => isPicked && setPicked(null)}
+                      className={`rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${
+                        isPicked ? 'ring-2 ring-blue-500' : ''
+                      } ${isDragged || isPicked ? 'opacity-60' : ''}`}
+                    >
+                      <TaskItem
+                        task={task}
+                        onTaskClick={onTaskClick}
+                        onStatusChange={onStatusChange}
+                        onDelete={onDelete}
+                        highlightTerms={highlightTerms}
+                        tagColors={tagColors}
+                        onTagClick={onTagClick}
+                      />
+                    </li>
+                  )
+                })}
+              </ul>
+              {column.tasks.length === 0 && (
+                <p className="py-4 text-center text-xs text-gray-500 dark:text-gray-400">
+                  No tasks
+                </p>
+              )}
+            </section>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,298 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Task } from '@/types/task'
+import { CalendarMode, TaskFilterStatus } from '@/types/view'
+import { isTaskDueToday, isTaskOverdue } from '@/utils/task'
+import { sortByDueDate } from '@/utils/sort'
+import { addDays, formatTime, isSameDay, toDateInputValue } from '@/utils/date'
+import {
+  getCalendarDays,
+  getCalendarTitle,
+  getTasksByDay,
+  rescheduleDueDate,
+  shiftCalendar,
+} from '@/utils/calendar'
+import { matchesStatusFilter } from '@/utils/view'
+
+interface TaskCalendarProps {
+  tasks: Task[]
+  mode: CalendarMode
+  onModeChange?: (mode: CalendarMode) => void
+  onTaskClick?: (task: Task) => void
+  /** Move a task to another day */
+  onReschedule?: (taskId: string, dueDate: Date) => void
+  /** Filter tasks by status (defaults to showing all non-archived) */
+  filterStatus?: TaskFilterStatus
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * Tasks shown per day in the month view before "+N more"
+ */
+const MAX_TASKS_PER_DAY = 3
+
+/**
+ * Days moved by Alt + arrow keys on a task
+ */
+const KEYBOARD_MOVES: Record<string, number> = {
+  ArrowLeft: -1,
+  ArrowRight: 1,
+  ArrowUp: -7,
+  ArrowDown: 7,
+}
+
+/**
+ * Gets the styling of a task on the calendar based on its due state
+ */
+function getTaskStyles(task: Task): string {
+  if (task.status === 'completed' || task.status === 'archived') {
+    return 'bg-gray-100 text-gray-500 line-through dark:bg-gray-800 dark:text-gray-400'
+  }
+  if (isTaskOverdue(task)) {
+    return 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200'
+  }
+  if (isTaskDueToday(task)) {
+    return 'bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-200'
+  }
+  return 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200'
+}
+
+/**
+ * TaskCalendar Component
+ * Month or week calendar placing tasks on their due dates
+ * Tasks can be dragged to another day (or moved with Alt + arrow keys) to reschedule them
+ */
+export function TaskCalendar({
+  tasks,
+  mode,
+  onModeChange,
+  onTaskClick,
+  onReschedule,
+  filterStatus = 'all',
+}: TaskCalendarProps) {
+  const [anchor, setAnchor] = useState(() => new Date())
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropDay, setDropDay] = useState<string | null>(null)
+  const calendarRef = useRef<HTMLDivElement>(null)
+  // Task to focus once it re-renders on its new day
+  const focusTaskId = useRef<string | null>(null)
+  const today = new Date()
+
+  const visibleTasks = useMemo(
+    () => tasks.filter(task => matchesStatusFilter(task, filterStatus)),
+    [tasks, filterStatus]
+  )
+  const tasksByDay = useMemo(() => getTasksByDay(sortByDueDate(visibleTasks)), [visibleTasks])
+  const days = getCalendarDays(anchor, mode)
+  const undatedCount = visibleTasks.filter(task => !task.dueDate).length
+
+  useEffect(() => {
+    if (!focusTaskId.current) return
+    const item = calendarRef.current?.querySelector<HTMLElement>(
+      `[data-task-id="${CSS.escape(focusTaskId.current)}"]`
+    )
+    item?.focus()
+    focusTaskId.current = null
+  })
+
+  /**
+   * Reschedule a task to a day, keeping its time of day
+   */
+  const moveTask = (taskId: string, day: Date) => {
+    const task = tasks.find(t => t.id === taskId)
+    if (!task?.dueDate || isSameDay(new Date(task.dueDate), day)) return
+    onReschedule?.(task.id, rescheduleDueDate(new Date(task.dueDate), day))
+  }
+
+  const handleTaskKeyDown = (e: React.KeyboardEvent, task: Task) => {
+    const offset = KEYBOARD_MOVES[e.key]
+    if (!e.altKey || !offset || !task.dueDate || !onReschedule) return
+
+    e.preventDefault()
+    const day = addDays(new Date(task.dueDate), offset)
+    focusTaskId.current = task.id
+    moveTask(task.id, day)
+    // Follow the task when it leaves the period on screen
+    if (!getCalendarDays(anchor, mode).some(d => isSameDay(d, day))) {
+      setAnchor(day)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent, day: Date) => {
+    e.preventDefault()
+    if (draggingId) moveTask(draggingId, day)
+    setDraggingId(null)
+    setDropDay(null)
+  }
+
+  const buttonClasses =
+    'rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
+
+  return (
+    <div ref={calendarRef}>
+      {/* Toolbar */}
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setAnchor(shiftCalendar(anchor, mode, -1))}
+            className={buttonClasses}
+            aria-label={`Previous ${mode}`}
+          >
+            ‹
+          </button>
+          <button onClick={() => setAnchor(new Date())} className={buttonClasses}>
+            Today
+          </button>
+          <button
+            onClick={() => setAnchor(shiftCalendar(anchor, mode, 1))}
+            className={buttonClasses}
+            aria-label={`Next ${mode}`}
+          >
+            ›
+          </button>
+          <h3 className="ml-2 text-lg font-semibold text-gray-900 dark:text-white">
+            {getCalendarTitle(anchor, mode)}
+          </h3>
+        </div>
+        {onModeChange && (
+          <div className="flex gap-1" role="group" aria-label="Calendar period">
+            {(['month', 'week'] as CalendarMode[]).map(option => (
+              <button
+                key={option}
+                onClick={() => onModeChange(option)}
+                aria-pressed={mode === option}
+                className={`rounded-lg px-3 py-1.5 text-sm font-medium capitalize ${
+                  mode === option
+                    ? 'bg-blue-600 text-white dark:bg-blue-700'
+                    : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Grid */}
+      <div className="grid grid-cols-7 overflow-hidden rounded-lg border-l border-t border-gray-200 dark:border-gray-700">
+        {WEEKDAYS.map(weekday => (
+          <div
+            key={weekday}
+            className="border-b border-r border-gray-200 bg-gray-50 px-2 py-1 text-center text-xs font-semibold uppercase text-gray-600 dark:border-gray-700 dark:bg-gray-900 dark:text-gray-400"
+          >
+            {weekday}
+          </div>
+        ))}
+        {days.map(day => {
+          const key = toDateInputValue(day)
+          const dayTasks = tasksByDay.get(key) || []
+          const shownTasks = mode === 'month' ? dayTasks.slice(0, MAX_TASKS_PER_DAY) : dayTasks
+          const hiddenCount = dayTasks.length - shownTasks.length
+          const isToday = isSameDay(day, today)
+          const isOutside = mode === 'month' && day.getMonth() !== anchor.getMonth()
+
+          return (
+            <div
+              key={key}
+              role="group"
+              aria-label={`${day.toLocaleDateString('en-US', {
+                weekday: 'long',
+                month: 'long',
+                day: 'numeric',
+              })}${isToday ? ', today' : ''}, ${dayTasks.length} tasks`}
+              onDragOver={e => {
+                if (!draggingId) return
+                e.preventDefault()
+                setDropDay(key)
+              }}
+              onDrop={e => handleDrop(e, day)}
+              className={`min-w-0 border-b border-r border-gray-200 p-1 dark:border-gray-700 ${
+                mode === 'week' ? 'min-h-64' : 'min-h-24'
+              } ${
+                dropDay === key
+                  ? 'bg-blue-50 dark:bg-blue-950'
+                  : isOutside
+                    ? 'bg-gray-50 dark:bg-gray-900'
+                    : ''
+              }`}
+            >
+              <div className="mb-1 flex justify-end">
+                <span
+                  className={`inline-flex h-6 min-w-6 items-center justify-center rounded-full px-1 text-xs ${
+                    isToday
+                      ? 'bg-blue-600 font-semibold text-white dark:bg-blue-700'
+                      : isOutside
+                        ? 'text-gray-400 dark:text-gray-600'
+                        : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  {day.getDate()}
+                </span>
+              </div>
+
+              <ul className="space-y-1">
+                {shownTasks.map(task => (
+                  <li key={task.id}>
+                    <button
+                      data-task-id={task.id}
+                      draggable={!!onReschedule}
+                      onDragStart={e => {
+                        e.dataTransfer.effectAllowed = 'move'
+                        e.dataTransfer.setData('text/plain', task.id)
+                        setDraggingId(task.id)
+                      }}
+                      onDragEnd={() => {
+                        setDraggingId(null)
+                        setDropDay(null)
+                      }}
+                      onClick={() => onTaskClick?.(task)}
+                      onKeyDown={e => handleTaskKeyDown(e, task)}
+                      aria-keyshortcuts={
+                        onReschedule
+                          ? 'Alt+ArrowLeft Alt+ArrowRight Alt+ArrowUp Alt+ArrowDown'
+                          : undefined
+                      }
+                      title={task.title}
+                      className={`block w-full truncate rounded px-1.5 py-0.5 text-left text-xs font-medium ${getTaskStyles(task)}`}
+                    >
+                      {task.hasDueTime && task.dueDate && (
+                        <span className="mr-1 opacity-75">
+                          {formatTime(new Date(task.dueDate))}
+                        </span>
+                      )}
+                      {task.title}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {hiddenCount > 0 && (
+                <button
+                  onClick={() => {
+                    setAnchor(day)
+                    onModeChange?.('week')
+                  }}
+                  className="mt-1 px-1.5 text-xs font-medium text-blue-600 hover:underline dark:text-blue-400"
+                >
+                  +{hiddenCount} more
+                </button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {undatedCount > 0 && (
+        <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+          {undatedCount} task{undatedCount === 1 ? '' : 's'} without a due date{' '}
+          {undatedCount === 1 ? 'is' : 'are'} not shown.
+        </p>
+      )}
+      {onReschedule && (
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Drag a task to another day, or focus it and press Alt + arrow keys, to reschedule it.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,19 @@
 import { useState, useEffect } from 'react'
-import { Task, TaskPriority, TaskStatus } from '@/types/task'
+import { Subtask, Task, TaskPriority, TaskStatus } from '@/types/task'
+import { TaskList } from '@/types/list'
+import { getTaskListId } from '@/utils/list'
+import { formatTaskDueDate } from '@/utils/task'
+import { getSubtaskProgress } from '@/utils/subtask'
+import { describeRecurrence } from '@/utils/recurrence'
+import { SubtaskChecklist } from './SubtaskChecklist'
+import { getUserTimeZone, formatTime } from '@/utils/date'
+import { describeReminder } from '@/utils/reminder'
+import { RecurrenceEditor } from './RecurrenceEditor'
+import { DueDateFields } from './DueDateFields'
+import { ReminderPicker } from './ReminderPicker'
+import { TagInput } from './TagInput'
+import { TagColor } from '@/types/tag'
+import { getDefaultTagColor, getTagColorClasses, isSameTag } from '@/utils/tag'
 
 interface TaskDetailModalProps {
   task: Task | null
@@ -8,70 +22,12 @@ interface TaskDetailModalProps {
   onSave: (task: Task) => void
   onDelete: (taskId: string) => void
   onStatusChange?: (taskId: string, status: TaskStatus) => void
-}
-
-/**
- * Check if a date is today
- */
-function isToday(date: Date): boolean {
-  const today = new Date()
-  return (
-    date.getDate() === today.getDate() &&
-    date.getMonth() === today.getMonth() &&
-    date.getFullYear() === today.getFullYear()
-  )
-}
-
-/**
- * Check if a date is tomorrow
- */
-function isTomorrow(date: Date): boolean {
-  const tomorrow = new Date()
-  tomorrow.setDate(tomorrow.getDate() + 1)
-  return (
-    date.getDate() === tomorrow.getDate() &&
-    date.getMonth() === tomorrow.getMonth() &&
-    date.getFullYear() === tomorrow.getFullYear()
-  )
-}
-
-/**
- * Check if a date is in the past
- */
-function isPast(date: Date): boolean {
-  return date < new Date()
-}
-
-/**
- * Format date as Mon DD, YYYY
- */
-function formatDate(date: Date): string {
-  const month = date.toLocaleDateString('en-US', { month: 'short' })
-  const day = date.getDate()
-  const year = date.getFullYear()
-  const today = new Date()
-  const isCurrentYear = year === today.getFullYear()
-  return isCurrentYear ? `${month} ${day}` : `${month} ${day}, ${year}`
-}
-
-/**
- * Formats the due date into a readable string with relative date context
- */
-function formatDueDate(dueDate: Date | undefined | null): string | null {
-  if (!dueDate) return null
-
-  const date = dueDate instanceof Date ? dueDate : new Date(dueDate)
-
-  if (isToday(date)) {
-    return 'Today'
-  }
-  if (isTomorrow(date)) {
-    return 'Tomorrow'
-  }
-  if (isPast(date)) {
-    return `Overdue: ${formatDate(date)}`
-  }
-  return formatDate(date)
+  /** Lists the task can be moved between */
+  lists?: TaskList[]
+  /** Existing tags offered while typing a tag */
+  knownTags?: string[]
+  /** Colors of the tags, by name */
+  tagColors?: Record<string, TagColor>
 }
 
 /**
@@ -119,6 +75,9 @@ export function TaskDetailModal({
   onSave,
   onDelete,
   onStatusChange,
+  lists = [],
+  knownTags = [],
+  tagColors = {},
 }: TaskDetailModalProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [editedTask, setEditedTask] = useState<Task | null>(null)
@@ -139,8 +98,9 @@ export function TaskDetailModal({
 
   const displayTask = isEditing && editedTask ? editedTask : task
   const priorityStyles = getPriorityStyles(displayTask.priority)
-  const formattedDueDate = formatDueDate(displayTask.dueDate)
+  const formattedDueDate = formatTaskDueDate(displayTask)
   const isCompleted = displayTask.status === 'completed'
+  const subtaskProgress = getSubtaskProgress(displayTask)
 
   const handleEditChange = <K extends keyof Task>(key: K, value: Task[K]) => {
     if (editedTask) {
@@ -153,10 +113,10 @@ export function TaskDetailModal({
   }
 
   const handleAddTag = (newTag: string) => {
-    if (editedTask && newTag.trim() && !editedTask.tags?.includes(newTag.trim())) {
+    if (editedTask && !editedTask.tags?.some(tag => isSameTag(tag, newTag))) {
       setEditedTask({
         ...editedTask,
-        tags: [...(editedTask.tags || []), newTag.trim()],
+        tags: [...(editedTask.tags || []), newTag],
       })
     }
   }
@@ -201,6 +161,22 @@ export function TaskDetailModal({
     }
   }
 
+  const handleMoveToList = (listId: string) => {
+    if (isEditing) {
+      handleEditChange('listId', listId)
+      return
+    }
+    onSave({ ...task, listId, updatedAt: new Date() })
+  }
+
+  const handleSubtasksChange = (subtasks: Subtask[]) => {
+    if (isEditing) {
+      handleEditChange('subtasks', subtasks)
+      return
+    }
+    onSave({ ...task, subtasks, updatedAt: new Date() })
+  }
+
   const handleStatusChange = (newStatus: TaskStatus) => {
     if (editedTask) {
       const updatedTask = {
@@ -246,11 +222,15 @@ export function TaskDetailModal({
                   placeholder="Task title"
                 />
               ) : (
-                <h2 className={`text-lg font-bold ${isCompleted ? 'line-through text-gray-500 dark:text-gray-400' : 'text-gray-900 dark:text-white'}`}>
+                <h2
+                  className={`text-lg font-bold ${isCompleted ? 'line-through text-gray-500 dark:text-gray-400' : 'text-gray-900 dark:text-white'}`}
+                >
                   {displayTask.title}
                 </h2>
               )}
-              {errors.title && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{errors.title}</p>}
+              {errors.title && (
+                <p className="mt-1 text-xs text-red-600 dark:text-red-400">{errors.title}</p>
+              )}
             </div>
 
             <button
@@ -259,7 +239,12 @@ export function TaskDetailModal({
               aria-label="Close modal"
             >
               <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
               </svg>
             </button>
           </div>
@@ -292,6 +277,30 @@ export function TaskDetailModal({
               </div>
             </div>
 
+            {/* List */}
+            {lists.length > 0 && (
+              <div>
+                <label
+                  htmlFor="taskList"
+                  className="block text-xs font-semibold uppercase tracking-wide text-gray-600 dark:text-gray-400"
+                >
+                  List
+                </label>
+                <select
+                  id="taskList"
+                  value={getTaskListId(displayTask)}
+                  onChange={e => handleMoveToList(e.target.value)}
+                  className="mt-2 w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                >
+                  {lists.map(list => (
+                    <option key={list.id} value={list.id}>
+                      {list.icon} {list.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {/* Description */}
             <div>
               <label className="block text-xs font-semibold uppercase tracking-wide text-gray-600 dark:text-gray-400">
@@ -307,26 +316,108 @@ export function TaskDetailModal({
                 />
               ) : (
                 <p className="mt-2 whitespace-pre-wrap text-gray-700 dark:text-gray-300">
-                  {displayTask.description || <span className="italic text-gray-500">No description</span>}
+                  {displayTask.description || (
+                    <span className="italic text-gray-500">No description</span>
+                  )}
                 </p>
               )}
             </div>
 
+            {/* Checklist */}
+            <div>
+              <div className="flex items-center justify-between">
+                <label className="block text-xs font-semibold uppercase tracking-wide text-gray-600 dark:text-gray-400">
+                  Checklist
+                </label>
+                {subtaskProgress.total > 0 && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {subtaskProgress.done}/{subtaskProgress.total}
+                  </span>
+                )}
+              </div>
+              <SubtaskChecklist
+                subtasks={displayTask.subtasks || []}
+                onChange={handleSubtasksChange}
+              />
+            </div>
+
             {/* Due Date */}
             <div>
               <label className="block text-xs font-semibold uppercase tracking-wide text-gray-600 dark:text-gray-400">
                 Due Date
               </label>
               {isEditing ? (
-                <input
-                  type="date"
-                  value={displayTask.dueDate ? new Date(displayTask.dueDate).toISOString().split('T')[0] : ''}
-                  onChange={e => handleEditChange('dueDate', e.target.value ? new Date(e.target.value) : null)}
-                  className="mt-2 w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
-                />
+                <div className="mt-2">
+                  <DueDateFields
+                    idPrefix="modalDue"
+                    value={{
+                      dueDate: editedTask?.dueDate,
+                      hasDueTime: editedTask?.hasDueTime,
+                      timeZone: editedTask?.timeZone,
+                    }}
+                    onChange={due => editedTask && setEditedTask({ ...editedTask, ...due })}
+                  />
+                </div>
               ) : (
                 <p className="mt-2 text-gray-700 dark:text-gray-300">
                   {formattedDueDate || <span className="italic text-gray-500">No due date</span>}
+                  {displayTask.dueDate &&
+                    displayTask.hasDueTime &&
+                    displayTask.timeZone &&
+                    displayTask.timeZone !== getUserTimeZone() && (
+                      <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">
+                        ({formatTime(new Date(displayTask.dueDate), displayTask.timeZone)}{' '}
+                        {displayTask.timeZone.replace(/_/g, ' ')})
+                      </span>
+                    )}
+                </p>
+              )}
+            </div>
+
+            {/* Reminders */}
+            <div>
+              <label className="block text-xs font-semibold uppercase tracking-wide text-gray-600 dark:text-gray-400">
+                Reminders
+              </label>
+              {isEditing ? (
+                <div className="mt-2">
+                  <ReminderPicker
+                    value={editedTask?.reminders || []}
+                    onChange={reminders => handleEditChange('reminders', reminders)}
+                    disabled={!editedTask?.dueDate}
+                  />
+                </div>
+              ) : (
+                <p className="mt-2 text-gray-700 dark:text-gray-300">
+                  {displayTask.reminders && displayTask.reminders.length > 0 ? (
+                    displayTask.reminders.map(describeReminder).join(', ')
+                  ) : (
+                    <span className="italic text-gray-500">No reminders</span>
+                  )}
+                </p>
+              )}
+            </div>
+
+            {/* Repeat */}
+            <div>
+              <label className="block text-xs font-semibold uppercase tracking-wide text-gray-600 dark:text-gray-400">
+                Repeat
+              </label>
+              {isEditing ? (
+                <div className="mt-2">
+                  <RecurrenceEditor
+                    value={editedTask?.recurrence}
+                    onChange={rule => handleEditChange('recurrence', rule)}
+                    referenceDate={editedTask?.dueDate}
+                  />
+                </div>
+              ) : (
+                <p className="mt-2 text-gray-700 dark:text-gray-300">
+                  {displayTask.recurrence ? (
+                    describeRecurrence(displayTask.recurrence)
+                  ) : (
+                    <span className="italic text-gray-500">Does not repeat</span>
+                  )}
                 </p>
               )}
             </div>
@@ -365,46 +456,26 @@ export function TaskDetailModal({
               </label>
               {isEditing ? (
                 <div className="mt-2 space-y-2">
-                  <div className="flex gap-2">
-                    <input
-                      type="text"
-                      id="newTag"
-                      placeholder="Add a tag"
-                      onKeyPress={e => {
-                        if (e.key === 'Enter') {
-                          const input = e.target as HTMLInputElement
-                          handleAddTag(input.value)
-                          input.value = ''
-                        }
-                      }}
-                      className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
-                    />
-                    <button
-                      type="button"
-                      onClick={() => {
-                        const input = document.getElementById('newTag') as HTMLInputElement
-                        if (input) {
-                          handleAddTag(input.value)
-                          input.value = ''
-                        }
-                      }}
-                      className="rounded-lg bg-blue-600 px-4 py-2 text-white hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600"
-                    >
-                      Add
-                    </button>
-                  </div>
+                  <TagInput
+                    id="newTag"
+                    tags={editedTask?.tags || []}
+                    knownTags={knownTags}
+                    onAdd={handleAddTag}
+                    placeholder="Add a tag"
+                  />
                   {editedTask?.tags && editedTask.tags.length > 0 && (
                     <div className="flex flex-wrap gap-2">
                       {editedTask.tags.map(tag => (
                         <span
                           key={tag}
-                          className="inline-flex items-center gap-1 rounded-full bg-blue-100 px-3 py-1 text-sm text-blue-700 dark:bg-blue-900 dark:text-blue-200"
+                          className={`inline-flex items-center gap-1 rounded-full px-3 py-1 text-sm ${getTagColorClasses(tagColors[tag] || getDefaultTagColor(tag))}`}
                         >
                           {tag}
                           <button
                             type="button"
                             onClick={() => handleRemoveTag(tag)}
-                            className="ml-1 hover:text-blue-900 dark:hover:text-blue-100"
+                            aria-label={`Remove tag ${tag}`}
+                            className="ml-1 opacity-75 hover:opacity-100"
                           >
                             ×
                           </button>
@@ -420,7 +491,7 @@ export function TaskDetailModal({
                       {displayTask.tags.map(tag => (
                         <span
                           key={tag}
-                          className="inline-flex items-center rounded-full bg-gray-200 px-3 py-1 text-sm text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+                          className={`inline-flex items-center rounded-full px-3 py-1 text-sm ${getTagColorClasses(tagColors[tag] || getDefaultTagColor(tag))}`}
                         >
                           {tag}
                         </span>
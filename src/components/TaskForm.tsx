@@ -1,10 +1,22 @@
 import { useState } from 'react'
-import { Task, TaskPriority, TaskInput } from '@/types/task'
+import { RecurrenceRule, Task, TaskPriority, TaskInput } from '@/types/task'
+import { getUserTimeZone } from '@/utils/date'
+import { RecurrenceEditor } from './RecurrenceEditor'
+import { DueDateFields, DueDateValue } from './DueDateFields'
+import { ReminderPicker } from './ReminderPicker'
+import { TagInput } from './TagInput'
+import { TagColor } from '@/types/tag'
+import { getDefaultTagColor, getTagColorClasses, isSameTag } from '@/utils/tag'
 
 interface TaskFormProps {
   onSubmit: (task: TaskInput) => void
   initialTask?: Task
   isEditing?: boolean
+  onCancel?: () => void
+  /** Existing tags offered while typing a tag */
+  knownTags?: string[]
+  /** Colors of the tags, by name */
+  tagColors?: Record<string, TagColor>
 }
 
 /**
@@ -12,15 +24,27 @@ interface TaskFormProps {
  * Form for creating or editing tasks with all fields
  * Includes validation and user-friendly inputs
  */
-export function TaskForm({ onSubmit, initialTask, isEditing = false }: TaskFormProps) {
+export function TaskForm({
+  onSubmit,
+  initialTask,
+  isEditing = false,
+  onCancel,
+  knownTags = [],
+  tagColors = {},
+}: TaskFormProps) {
   const [title, setTitle] = useState(initialTask?.title || '')
   const [description, setDescription] = useState(initialTask?.description || '')
-  const [dueDate, setDueDate] = useState(
-    initialTask?.dueDate ? new Date(initialTask.dueDate).toISOString().split('T')[0] : ''
-  )
+  const [due, setDue] = useState<DueDateValue>({
+    dueDate: initialTask?.dueDate || null,
+    hasDueTime: initialTask?.hasDueTime,
+    timeZone: initialTask?.timeZone || getUserTimeZone(),
+  })
+  const [reminders, setReminders] = useState<number[]>(initialTask?.reminders || [])
   const [priority, setPriority] = useState<TaskPriority>(initialTask?.priority || 'medium')
   const [tags, setTags] = useState<string[]>(initialTask?.tags || [])
-  const [newTag, setNewTag] = useState('')
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(
+    initialTask?.recurrence || null
+  )
   const [errors, setErrors] = useState<Record<string, string>>({})
 
   const validateForm = (): boolean => {
@@ -42,9 +66,13 @@ export function TaskForm({ onSubmit, initialTask, isEditing = false }: TaskFormP
     const taskInput: TaskInput = {
       title: title.trim(),
       description: description.trim() || undefined,
-      dueDate: dueDate ? new Date(dueDate) : null,
+      dueDate: due.dueDate,
+      hasDueTime: due.dueDate ? due.hasDueTime : undefined,
+      timeZone: due.dueDate && due.hasDueTime ? due.timeZone : undefined,
+      reminders: due.dueDate && reminders.length > 0 ? reminders : undefined,
       priority,
       tags: tags.length > 0 ? tags : undefined,
+      recurrence,
     }
 
     onSubmit(taskInput)
@@ -52,16 +80,16 @@ export function TaskForm({ onSubmit, initialTask, isEditing = false }: TaskFormP
     // Reset form
     setTitle('')
     setDescription('')
-    setDueDate('')
+    setDue({ dueDate: null, hasDueTime: false, timeZone: getUserTimeZone() })
+    setReminders([])
     setPriority('medium')
     setTags([])
-    setNewTag('')
+    setRecurrence(null)
   }
 
-  const handleAddTag = () => {
-    if (newTag.trim() && !tags.includes(newTag.trim())) {
-      setTags([...tags, newTag.trim()])
-      setNewTag('')
+  const handleAddTag = (tag: string) => {
+    if (!tags.some(t => isSameTag(t, tag))) {
+      setTags([...tags, tag])
     }
   }
 
@@ -125,13 +153,31 @@ export function TaskForm({ onSubmit, initialTask, isEditing = false }: TaskFormP
         >
           Due Date
         </label>
-        <input
-          id="dueDate"
-          type="date"
-          value={dueDate}
-          onChange={e => setDueDate(e.target.value)}
-          className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
-        />
+        <div className="mt-1">
+          <DueDateFields value={due} onChange={setDue} />
+        </div>
+      </div>
+
+      {/* Reminders */}
+      <div>
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Reminders
+        </span>
+        <div className="mt-1">
+          <ReminderPicker value={reminders} onChange={setReminders} disabled={!due.dueDate} />
+        </div>
+      </div>
+
+      {/* Repeat */}
+      <div>
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">Repeat</span>
+        <div className="mt-1">
+          <RecurrenceEditor
+            value={recurrence}
+            onChange={setRecurrence}
+            referenceDate={due.dueDate}
+          />
+        </div>
       </div>
 
       {/* Priority */}
@@ -163,41 +209,22 @@ export function TaskForm({ onSubmit, initialTask, isEditing = false }: TaskFormP
         >
           Tags
         </label>
-        <div className="mt-2 flex gap-2">
-          <input
-            id="tags"
-            type="text"
-            value={newTag}
-            onChange={e => setNewTag(e.target.value)}
-            placeholder="Add tag"
-            onKeyPress={e => {
-              if (e.key === 'Enter') {
-                e.preventDefault()
-                handleAddTag()
-              }
-            }}
-            className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
-          />
-          <button
-            type="button"
-            onClick={handleAddTag}
-            className="rounded-lg bg-blue-600 px-4 py-2 text-white hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600"
-          >
-            Add
-          </button>
+        <div className="mt-2">
+          <TagInput id="tags" tags={tags} knownTags={knownTags} onAdd={handleAddTag} />
         </div>
         {tags.length > 0 && (
           <div className="mt-2 flex flex-wrap gap-2">
             {tags.map(tag => (
               <span
                 key={tag}
-                className="inline-flex items-center gap-1 rounded-full bg-blue-100 px-3 py-1 text-sm text-blue-700 dark:bg-blue-900 dark:text-blue-200"
+                className={`inline-flex items-center gap-1 rounded-full px-3 py-1 text-sm ${getTagColorClasses(tagColors[tag] || getDefaultTagColor(tag))}`}
               >
                 {tag}
                 <button
                   type="button"
                   onClick={() => handleRemoveTag(tag)}
-                  className="ml-1 hover:text-blue-900 dark:hover:text-blue-100"
+                  aria-label={`Remove tag ${tag}`}
+                  className="ml-1 opacity-75 hover:opacity-100"
                 >
                   ×
                 </button>
@@ -209,6 +236,15 @@ export function TaskForm({ onSubmit, initialTask, isEditing = false }: TaskFormP
 
       {/* Submit Button */}
       <div className="flex gap-2 pt-4">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 rounded-lg border border-gray-300 px-4 py-2 font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+        )}
         <button
           type="submit"
           className="flex-1 rounded-lg bg-blue-600 px-4 py-2 font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:bg-blue-700 dark:hover:bg-blue-600 dark:focus:ring-offset-gray-800"
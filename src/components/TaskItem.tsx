@@ -1,54 +1,28 @@
 import { Task, TaskPriority } from '@/types/task'
-
-/**
- * Check if a date is today
- */
-function isToday(date: Date): boolean {
-  const today = new Date()
-  return (
-    date.getDate() === today.getDate() &&
-    date.getMonth() === today.getMonth() &&
-    date.getFullYear() === today.getFullYear()
-  )
-}
-
-/**
- * Check if a date is tomorrow
- */
-function isTomorrow(date: Date): boolean {
-  const tomorrow = new Date()
-  tomorrow.setDate(tomorrow.getDate() + 1)
-  return (
-    date.getDate() === tomorrow.getDate() &&
-    date.getMonth() === tomorrow.getMonth() &&
-    date.getFullYear() === tomorrow.getFullYear()
-  )
-}
-
-/**
- * Check if a date is in the past
- */
-function isPast(date: Date): boolean {
-  return date < new Date()
-}
-
-/**
- * Format date as Mon DD, YYYY
- */
-function formatDate(date: Date): string {
-  const month = date.toLocaleDateString('en-US', { month: 'short' })
-  const day = date.getDate()
-  const year = date.getFullYear()
-  const today = new Date()
-  const isCurrentYear = year === today.getFullYear()
-  return isCurrentYear ? `${month} ${day}` : `${month} ${day}, ${year}`
-}
+import { TagColor } from '@/types/tag'
+import { formatTaskDueDate, isTaskDueToday, isTaskOverdue } from '@/utils/task'
+import { getSubtaskProgress } from '@/utils/subtask'
+import { describeRecurrence } from '@/utils/recurrence'
+import { getDefaultTagColor, getTagColorClasses } from '@/utils/tag'
+import { HighlightedText } from './HighlightedText'
 
 interface TaskItemProps {
   task: Task
   onTaskClick?: (task: Task) => void
   onStatusChange?: (taskId: string, status: Task['status']) => void
   onDelete?: (taskId: string) => void
+  /** Search terms to highlight in the title, description and tags */
+  highlightTerms?: string[]
+  /** Whether the task is selected for a batch action */
+  isSelected?: boolean
+  /** Shows a selection checkbox; `range` is true for shift-clicks */
+  onSelect?: (task: Task, range: boolean) => void
+  /** Whether the task is highlighted by keyboard navigation (j/k) */
+  isActive?: boolean
+  /** Colors of the tags, by name */
+  tagColors?: Record<string, TagColor>
+  /** Makes tags clickable, e.g. to filter by them */
+  onTagClick?: (tag: string) => void
 }
 
 /**
@@ -84,38 +58,14 @@ function getPriorityStyles(priority: TaskPriority): {
   return styles[priority]
 }
 
-/**
- * Formats the due date into a readable string with relative date context
- */
-function formatDueDate(dueDate: Date | undefined | null): string | null {
-  if (!dueDate) return null
-
-  const date = dueDate instanceof Date ? dueDate : new Date(dueDate)
-
-  if (isToday(date)) {
-    return 'Today'
-  }
-  if (isTomorrow(date)) {
-    return 'Tomorrow'
-  }
-  if (isPast(date)) {
-    return `Overdue: ${formatDate(date)}`
-  }
-  return formatDate(date)
-}
-
 /**
  * Gets styling for due date based on whether it's overdue
  */
-function getDueDateStyles(dueDate: Date | undefined | null): string {
-  if (!dueDate) return 'text-gray-500 dark:text-gray-400'
-
-  const date = dueDate instanceof Date ? dueDate : new Date(dueDate)
-
-  if (isPast(date) && !isToday(date)) {
+function getDueDateStyles(task: Task): string {
+  if (isTaskOverdue(task)) {
     return 'text-red-600 dark:text-red-400 font-semibold'
   }
-  if (isToday(date)) {
+  if (isTaskDueToday(task)) {
     return 'text-orange-600 dark:text-orange-400 font-semibold'
   }
   return 'text-gray-600 dark:text-gray-400'
@@ -126,12 +76,24 @@ function getDueDateStyles(dueDate: Date | undefined | null): string {
  * Displays a single task with title, due date, and priority indicator
  * Supports task interaction (completion toggle, delete, click)
  */
-export function TaskItem({ task, onTaskClick, onStatusChange, onDelete }: TaskItemProps) {
+export function TaskItem({
+  task,
+  onTaskClick,
+  onStatusChange,
+  onDelete,
+  highlightTerms,
+  isSelected = false,
+  onSelect,
+  isActive = false,
+  tagColors = {},
+  onTagClick,
+}: TaskItemProps) {
   const priorityStyles = getPriorityStyles(task.priority)
-  const formattedDueDate = formatDueDate(task.dueDate)
-  const dueDateClasses = getDueDateStyles(task.dueDate)
+  const formattedDueDate = formatTaskDueDate(task)
+  const dueDateClasses = getDueDateStyles(task)
   const isCompleted = task.status === 'completed'
   const isArchived = task.status === 'archived'
+  const subtaskProgress = getSubtaskProgress(task)
 
   const handleToggleComplete = (e: React.MouseEvent) => {
     e.stopPropagation()
@@ -147,12 +109,30 @@ export function TaskItem({ task, onTaskClick, onStatusChange, onDelete }: TaskIt
   return (
     <div
       onClick={() => onTaskClick?.(task)}
+      data-active={isActive || undefined}
       className={`group flex items-start gap-3 rounded-lg border p-4 transition-all duration-200 ${
         isArchived
           ? 'border-gray-300 bg-gray-50 dark:border-gray-700 dark:bg-gray-900 opacity-60'
-          : 'border-gray-200 bg-white dark:border-gray-800 dark:bg-gray-950 hover:border-blue-300 hover:shadow-md dark:hover:border-blue-700'
-      } ${onTaskClick ? 'cursor-pointer' : ''}`}
+          : isSelected
+            ? 'border-blue-400 bg-blue-50 dark:border-blue-600 dark:bg-blue-950'
+            : 'border-gray-200 bg-white dark:border-gray-800 dark:bg-gray-950 hover:border-blue-300 hover:shadow-md dark:hover:border-blue-700'
+      } ${isActive ? 'ring-2 ring-blue-500' : ''} ${onTaskClick ? 'cursor-pointer' : ''}`}
     >
+      {/* Selection */}
+      {onSelect && (
+        <input
+          type="checkbox"
+          checked={isSelected}
+          readOnly
+          onClick={e => {
+            e.stopPropagation()
+            onSelect(task, e.shiftKey)
+          }}
+          aria-label={`Select “${task.title}”`}
+          className="mt-1.5 h-4 w-4 flex-shrink-0 rounded border-gray-300"
+        />
+      )}
+
       {/* Checkbox */}
       <button
         onClick={handleToggleComplete}
@@ -179,13 +159,13 @@ export function TaskItem({ task, onTaskClick, onStatusChange, onDelete }: TaskIt
               : 'text-gray-900 dark:text-gray-100'
           }`}
         >
-          {task.title}
+          <HighlightedText text={task.title} terms={highlightTerms} />
         </h3>
 
         {/* Description */}
         {task.description && !isCompleted && (
           <p className="mt-1 truncate text-xs text-gray-600 dark:text-gray-400">
-            {task.description}
+            <HighlightedText text={task.description} terms={highlightTerms} />
           </p>
         )}
 
@@ -195,6 +175,46 @@ export function TaskItem({ task, onTaskClick, onStatusChange, onDelete }: TaskIt
             <span className={`text-xs ${dueDateClasses}`}>{formattedDueDate}</span>
           )}
 
+          {/* Repeat Indicator */}
+          {task.recurrence && (
+            <span
+              className="inline-flex items-center text-xs text-gray-500 dark:text-gray-400"
+              title={describeRecurrence(task.recurrence)}
+              aria-label={describeRecurrence(task.recurrence)}
+            >
+              <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                />
+              </svg>
+            </span>
+          )}
+
+          {/* Checklist Progress */}
+          {subtaskProgress.total > 0 && (
+            <span
+              className={`inline-flex items-center gap-1 text-xs ${
+                subtaskProgress.done === subtaskProgress.total
+                  ? 'text-green-600 dark:text-green-400'
+                  : 'text-gray-500 dark:text-gray-400'
+              }`}
+              aria-label={`${subtaskProgress.done} of ${subtaskProgress.total} subtasks done`}
+            >
+              <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"
+                />
+              </svg>
+              {subtaskProgress.done}/{subtaskProgress.total}
+            </span>
+          )}
+
           {/* Priority Badge */}
           <span
             className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${priorityStyles.bgColor} ${priorityStyles.textColor}`}
@@ -205,14 +225,27 @@ export function TaskItem({ task, onTaskClick, onStatusChange, onDelete }: TaskIt
           {/* Tags */}
           {task.tags && task.tags.length > 0 && (
             <div className="flex flex-wrap gap-1">
-              {task.tags.slice(0, 2).map(tag => (
-                <span
-                  key={tag}
-                  className="inline-flex items-center rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700 dark:bg-gray-800 dark:text-gray-300"
-                >
-                  {tag}
-                </span>
-              ))}
+              {task.tags.slice(0, 2).map(tag => {
+                const tagClasses = `inline-flex items-center rounded-full px-2 py-0.5 text-xs ${getTagColorClasses(tagColors[tag] || getDefaultTagColor(tag))}`
+                return onTagClick ? (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={e => {
+                      e.stopPropagation()
+                      onTagClick(tag)
+                    }}
+                    title={`Filter by #${tag}`}
+                    className={`${tagClasses} hover:underline`}
+                  >
+                    <HighlightedText text={tag} terms={highlightTerms} />
+                  </button>
+                ) : (
+                  <span key={tag} className={tagClasses}>
+                    <HighlightedText text={tag} terms={highlightTerms} />
+                  </span>
+                )
+              })}
               {task.tags.length > 2 && (
                 <span className="text-xs text-gray-500 dark:text-gray-400">
                   +{task.tags.length - 2}
@@ -1,6 +1,14 @@
 import { Task } from '@/types/task'
+import { TaskList } from '@/types/list'
+import { TagColor } from '@/types/tag'
+import { TaskFilterStatus, TaskGroupBy, TaskSortRule } from '@/types/view'
+import { DEFAULT_SORT, isManualSort, sortTasks } from '@/utils/sort'
+import { TaskGroup, getGroupId, groupTasksBy } from '@/utils/grouping'
+import { TaskOrderChange, getReorderChanges } from '@/utils/order'
+import { matchesStatusFilter } from '@/utils/view'
 import { TaskItem } from './TaskItem'
-import { useMemo } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useVirtualRows } from '@/hooks/useVirtualRows'
 
 interface TaskListDisplayProps {
   tasks: Task[]
@@ -8,57 +16,65 @@ interface TaskListDisplayProps {
   onStatusChange?: (taskId: string, status: Task['status']) => void
   onDelete?: (taskId: string) => void
   /** Filter tasks by status (defaults to showing all non-archived) */
-  filterStatus?: Task['status'] | 'all'
-  /** Sort tasks by priority or due date */
-  sortBy?: 'priority' | 'dueDate' | 'createdAt' | 'none'
-  /** Group tasks by status or priority */
-  groupBy?: 'status' | 'priority' | 'none'
+  filterStatus?: TaskFilterStatus
+  /** Sort keys by precedence; tasks can be reordered when the first key is 'manual' */
+  sort?: TaskSortRule[]
+  /** Group tasks by status, priority, list, tag or due date */
+  groupBy?: TaskGroupBy
+  /** Lists used for list group headers */
+  lists?: TaskList[]
   emptyMessage?: string
+  /** Search terms to highlight in each task */
+  highlightTerms?: string[]
+  /** Save a new manual order; tasks can be reordered when sorting manually */
+  onReorder?: (orders: TaskOrderChange[]) => void
+  /** Ids of the tasks selected for a batch action */
+  selectedIds?: Set<string>
+  /** Shows selection checkboxes (checkbox mode) */
+  onSelectionChange?: (ids: Set<string>) => void
+  /** Task highlighted by keyboard navigation, kept scrolled into view */
+  activeTaskId?: string | null
+  /** Colors of the tags, by name */
+  tagColors?: Record<string, TagColor>
+  /** Filter by a tag when it is clicked */
+  onTagClick?: (tag: string) => void
+  /** Ids of the collapsed groups (see getGroupId) */
+  collapsedGroups?: Set<string>
+  /** Makes group headers collapsible */
+  onToggleCollapse?: (groupId: string) => void
 }
 
 /**
- * Gets priority numeric value for sorting (higher = more urgent)
+ * A row of the flattened list: a group header or a task within its group
  */
-function getPriorityValue(priority: Task['priority']): number {
-  const values = {
-    low: 1,
-    medium: 2,
-    high: 3,
-    urgent: 4,
-  }
-  return values[priority]
-}
+type ListRow =
+  | { kind: 'header'; key: string; group: TaskGroup }
+  | { kind: 'task'; key: string; group: TaskGroup; task: Task; index: number }
 
 /**
- * Gets group label for tasks
+ * Rows above which only the rows on screen are rendered
  */
-function getGroupLabel(groupBy: 'status' | 'priority' | 'none', groupKey: string): string {
-  if (groupBy === 'status') {
-    const labels = {
-      pending: 'To Do',
-      completed: 'Completed',
-      archived: 'Archived',
-    }
-    return labels[groupKey as Task['status']] || groupKey
-  }
+const VIRTUALIZE_AFTER = 150
 
-  if (groupBy === 'priority') {
-    const labels = {
-      urgent: '🔴 Urgent',
-      high: '🟠 High',
-      medium: '🟡 Medium',
-      low: '🔵 Low',
-    }
-    return labels[groupKey as Task['priority']] || groupKey
-  }
+/**
+ * Row heights used until rows are measured, including the space between them
+ */
+const ESTIMATED_HEADER_HEIGHT = 52
+const ESTIMATED_TASK_HEIGHT = 92
 
-  return groupKey
+/**
+ * Where a dragged task would be dropped: before the task at `index` in a group
+ */
+interface DropTarget {
+  groupKey: string
+  index: number
 }
 
 /**
  * TaskListDisplay Component
  * Renders a list of tasks with support for filtering, sorting, and grouping
  * Displays title, due date, and priority indicators for each task
+ * Long lists scroll in their own area and only render the rows on screen (see useVirtualRows)
  */
 export function TaskListDisplay({
   tasks,
@@ -66,62 +82,202 @@ export function TaskListDisplay({
   onStatusChange,
   onDelete,
   filterStatus = 'all',
-  sortBy = 'priority',
+  sort = DEFAULT_SORT,
   groupBy = 'none',
+  lists,
   emptyMessage = 'No tasks to display',
+  highlightTerms,
+  onReorder,
+  selectedIds,
+  onSelectionChange,
+  activeTaskId,
+  tagColors,
+  onTagClick,
+  collapsedGroups,
+  onToggleCollapse,
 }: TaskListDisplayProps) {
+  const [dragging, setDragging] = useState<{ taskId: string; groupKey: string } | null>(null)
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+  const listRef = useRef<HTMLDivElement>(null)
+  // Task to focus once it re-renders in its new position
+  const focusTaskId = useRef<string | null>(null)
+  const canReorder = isManualSort(sort) && !!onReorder
+  // Last task (de)selected without shift, where shift-click ranges start
+  const selectionAnchor = useRef<string | null>(null)
+
   // Filter tasks based on status
-  const filteredTasks = useMemo(() => {
-    if (filterStatus === 'all') {
-      return tasks.filter(task => task.status !== 'archived')
-    }
-    return tasks.filter(task => task.status === filterStatus)
-  }, [tasks, filterStatus])
+  const filteredTasks = useMemo(
+    () => tasks.filter(task => matchesStatusFilter(task, filterStatus)),
+    [tasks, filterStatus]
+  )
 
   // Sort and group tasks
-  const groupedTasks = useMemo(() => {
-    const sortedTasks = [...filteredTasks]
-
-    // Apply sorting
-    if (sortBy === 'priority') {
-      sortedTasks.sort((a, b) => getPriorityValue(b.priority) - getPriorityValue(a.priority))
-    } else if (sortBy === 'dueDate') {
-      sortedTasks.sort((a, b) => {
-        const aDate = a.dueDate ? new Date(a.dueDate).getTime() : Infinity
-        const bDate = b.dueDate ? new Date(b.dueDate).getTime() : Infinity
-        return aDate - bDate
-      })
-    } else if (sortBy === 'createdAt') {
-      sortedTasks.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-    }
+  const groups = useMemo(
+    () => groupTasksBy(sortTasks(filteredTasks, sort), groupBy, { lists }),
+    [filteredTasks, sort, groupBy, lists]
+  )
 
-    // Apply grouping
-    if (groupBy === 'none') {
-      return { ungrouped: sortedTasks }
-    }
+  const isCollapsed = useCallback(
+    (group: TaskGroup) =>
+      groupBy !== 'none' && !!collapsedGroups?.has(getGroupId(groupBy, group.key)),
+    [groupBy, collapsedGroups]
+  )
+
+  // Tasks in display order, for shift-click ranges
+  const orderedIds = useMemo(
+    () => [
+      ...new Set(
+        groups.flatMap(group => (isCollapsed(group) ? [] : group.tasks.map(task => task.id)))
+      ),
+    ],
+    [groups, isCollapsed]
+  )
+
+  // Group headers and tasks as one flat list of rows for virtualized rendering
+  const rows = useMemo(
+    () =>
+      groups.flatMap((group): ListRow[] => [
+        ...(groupBy !== 'none'
+          ? [{ kind: 'header' as const, key: `group:${group.key}`, group }]
+          : []),
+        ...(isCollapsed(group) ? [] : group.tasks).map((task, index) => ({
+          kind: 'task' as const,
+          key: `${group.key}:${task.id}`,
+          group,
+          task,
+          index,
+        })),
+      ]),
+    [groups, groupBy, isCollapsed]
+  )
+  const isVirtualized = rows.length > VIRTUALIZE_AFTER
+  const estimateSize = useCallback(
+    (index: number) =>
+      rows[index].kind === 'header' ? ESTIMATED_HEADER_HEIGHT : ESTIMATED_TASK_HEIGHT,
+    [rows]
+  )
+  const {
+    containerRef: scrollRef,
+    containerProps: scrollProps,
+    totalHeight,
+    rows: virtualRows,
+    measureRow,
+  } = useVirtualRows({
+    keys: useMemo(() => rows.map(row => row.key), [rows]),
+    estimateSize,
+    // The active task is scrolled into view and a dragged task must outlive its drag
+    pinnedKeys: rows
+      .filter(
+        row =>
+          row.kind === 'task' &&
+          (row.task.id === activeTaskId ||
+            (row.task.id === dragging?.taskId && row.group.key === dragging.groupKey))
+      )
+      .map(row => row.key),
+    enabled: isVirtualized,
+  })
+
+  useEffect(() => {
+    if (!focusTaskId.current) return
+    const item = listRef.current?.querySelector<HTMLElement>(
+      `[data-task-id="${CSS.escape(focusTaskId.current)}"]`
+    )
+    item?.focus()
+    focusTaskId.current = null
+  })
 
-    const grouped: Record<string, Task[]> = {}
-    sortedTasks.forEach(task => {
-      const key = groupBy === 'status' ? task.status : task.priority
-      if (!grouped[key]) {
-        grouped[key] = []
+  useEffect(() => {
+    if (!activeTaskId) return
+    listRef.current
+      ?.querySelector<HTMLElement>('[data-active="true"]')
+      ?.scrollIntoView({ block: 'nearest' })
+  }, [activeTaskId])
+
+  /**
+   * Toggle a task, or select the range from the last toggled task on shift-click
+   */
+  const handleSelect = (task: Task, range: boolean) => {
+    if (!onSelectionChange) return
+    const next = new Set(selectedIds)
+    const from = selectionAnchor.current ? orderedIds.indexOf(selectionAnchor.current) : -1
+
+    if (range && from !== -1) {
+      const to = orderedIds.indexOf(task.id)
+      orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1).forEach(id => next.add(id))
+    } else {
+      if (next.has(task.id)) {
+        next.delete(task.id)
+      } else {
+        next.add(task.id)
       }
-      grouped[key].push(task)
-    })
+      selectionAnchor.current = task.id
+    }
+    onSelectionChange(next)
+  }
 
-    return grouped
-  }, [filteredTasks, sortBy, groupBy])
+  /**
+   * Select every task of a group, or clear them when all are selected
+   */
+  const toggleGroup = (group: TaskGroup) => {
+    if (!onSelectionChange) return
+    const next = new Set(selectedIds)
+    const allSelected = group.tasks.every(task => next.has(task.id))
+    group.tasks.forEach(task => (allSelected ? next.delete(task.id) : next.add(task.id)))
+    onSelectionChange(next)
+  }
+
+  /**
+   * Move a task to a new index within its group (counted without the task itself)
+   */
+  const moveTask = (group: TaskGroup, taskId: string, toIndex: number) => {
+    onReorder?.(getReorderChanges(group.tasks, taskId, toIndex))
+  }
 
-  // Get the order of groups for consistent display
-  const groupOrder = useMemo(() => {
-    if (groupBy === 'status') {
-      return ['pending', 'completed']
+  const handleDragOver = (e: React.DragEvent, group: TaskGroup, index: number) => {
+    // Tasks are only reordered within their own group
+    if (!dragging || dragging.groupKey !== group.key) return
+    e.preventDefault()
+    const rect = e.currentTarget.getBoundingClientRect()
+    const before = e.clientY < rect.top + rect.height / 2
+    const target = before ? index : index + 1
+    if (dropTarget?.groupKey !== group.key || dropTarget.index !== target) {
+      setDropTarget({ groupKey: group.key, index: target })
     }
-    if (groupBy === 'priority') {
-      return ['urgent', 'high', 'medium', 'low']
+  }
+
+  const handleDrop = (e: React.DragEvent, group: TaskGroup) => {
+    e.preventDefault()
+    if (dragging && dropTarget) {
+      const fromIndex = group.tasks.findIndex(task => task.id === dragging.taskId)
+      moveTask(
+        group,
+        dragging.taskId,
+        dropTarget.index > fromIndex ? dropTarget.index - 1 : dropTarget.index
+      )
+    }
+    setDragging(null)
+    setDropTarget(null)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent, group: TaskGroup, index: number) => {
+    if (e.target !== e.currentTarget) return
+
+    const task = group.tasks[index]
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      onTaskClick?.(task)
+      return
     }
-    return ['ungrouped']
-  }, [groupBy])
+    if (!e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return
+
+    e.preventDefault()
+    const toIndex = index + (e.key === 'ArrowUp' ? -1 : 1)
+    if (toIndex < 0 || toIndex >= group.tasks.length) return
+    focusTaskId.current = task.id
+    moveTask(group, task.id, toIndex)
+    setAnnouncement(`“${task.title}” moved to position ${toIndex + 1} of ${group.tasks.length}.`)
+  }
 
   if (filteredTasks.length === 0) {
     return (
@@ -144,41 +300,193 @@ export function TaskListDisplay({
     )
   }
 
+  /**
+   * Header of a group with its selection checkbox and task count
+   * Collapsing is remembered per grouping, so e.g. Completed stays folded away
+   */
+  const renderGroupHeader = (group: TaskGroup) => {
+    const selectedCount = group.tasks.filter(task => selectedIds?.has(task.id)).length
+    const collapsed = isCollapsed(group)
+    const count = (
+      <span
+        aria-label={`${group.tasks.length} task${group.tasks.length === 1 ? '' : 's'}`}
+        className="inline-flex h-6 min-w-6 items-center justify-center rounded-full bg-gray-200 px-1.5 text-xs font-semibold text-gray-700 dark:bg-gray-800 dark:text-gray-300"
+      >
+        {group.tasks.length}
+      </span>
+    )
+    return (
+      <div className={`flex items-center gap-2 ${collapsed ? '' : 'mb-3'}`}>
+        {onSelectionChange && (
+          <input
+            type="checkbox"
+            checked={selectedCount > 0 && selectedCount === group.tasks.length}
+            ref={input => {
+              if (input) {
+                input.indeterminate = selectedCount > 0 && selectedCount < group.tasks.length
+              }
+            }}
+            onChange={() => toggleGroup(group)}
+            aria-label={`Select all in ${group.label}`}
+            className="h-4 w-4 rounded border-gray-300"
+          />
+        )}
+        {onToggleCollapse ? (
+          <h3>
+            <button
+              onClick={() => onToggleCollapse(getGroupId(groupBy, group.key))}
+              aria-expanded={!collapsed}
+              className="flex items-center gap-2 rounded text-sm font-semibold text-gray-700 hover:text-gray-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 dark:text-gray-300 dark:hover:text-white"
+            >
+              <svg
+                className={`h-4 w-4 transition-transform ${collapsed ? '-rotate-90' : ''}`}
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                aria-hidden="true"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M19 9l-7 7-7-7"
+                />
+              </svg>
+              {group.label}
+              {count}
+            </button>
+          </h3>
+        ) : (
+          <>
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+              {group.label}
+            </h3>
+            {count}
+          </>
+        )}
+      </div>
+    )
+  }
+
+  /**
+   * A task of a group, draggable and movable with Alt + arrow keys when sorting manually
+   */
+  const renderTask = (group: TaskGroup, task: Task, index: number) => {
+    const item = (
+      <TaskItem
+        key={task.id}
+        task={task}
+        onTaskClick={onTaskClick}
+        onStatusChange={onStatusChange}
+        onDelete={onDelete}
+        highlightTerms={highlightTerms}
+        isSelected={selectedIds?.has(task.id)}
+        onSelect={onSelectionChange && handleSelect}
+        isActive={task.id === activeTaskId}
+        tagColors={tagColors}
+        onTagClick={onTagClick}
+      />
+    )
+    if (!canReorder) return item
+
+    const isDropBefore = dropTarget?.groupKey === group.key && dropTarget.index === index
+    const isDropAfter =
+      dropTarget?.groupKey === group.key &&
+      dropTarget.index === group.tasks.length &&
+      index === group.tasks.length - 1
+    return (
+      <div
+        key={task.id}
+        data-task-id={task.id}
+        tabIndex={0}
+        draggable
+        aria-describedby="reorder-instructions"
+        aria-keyshortcuts="Alt+ArrowUp Alt+ArrowDown"
+        onDragStart={e => {
+          e.dataTransfer.effectAllowed = 'move'
+          e.dataTransfer.setData('text/plain', task.id)
+          setDragging({ taskId: task.id, groupKey: group.key })
+        }}
+        onDragEnd={() => {
+          setDragging(null)
+          setDropTarget(null)
+        }}
+        onDragOver={e => handleDragOver(e, group, index)}
+        onDrop={e => handleDrop(e, group)}
+        onKeyDown={e => handleKeyDown(e, group, index)}
+        className={`relative rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${
+          dragging?.taskId === task.id && dragging.groupKey === group.key ? 'opacity-50' : ''
+        }`}
+      >
+        {isDropBefore && (
+          <div
+            className="absolute -top-1.5 left-0 right-0 h-0.5 rounded bg-blue-500"
+            aria-hidden="true"
+          />
+        )}
+        {item}
+        {isDropAfter && (
+          <div
+            className="absolute -bottom-1.5 left-0 right-0 h-0.5 rounded bg-blue-500"
+            aria-hidden="true"
+          />
+        )}
+      </div>
+    )
+  }
+
   return (
-    <div className="space-y-6">
-      {groupOrder.map(groupKey => {
-        const tasksInGroup = groupedTasks[groupKey]
-        if (!tasksInGroup || tasksInGroup.length === 0) return null
+    <div ref={listRef} className="space-y-6">
+      {canReorder && (
+        <>
+          <p id="reorder-instructions" className="sr-only">
+            Press Alt and the up or down arrow key to move a task. Press Enter to open it.
+          </p>
+          <div aria-live="assertive" className="sr-only">
+            {announcement}
+          </div>
+        </>
+      )}
 
-        return (
-          <div key={groupKey}>
+      {isVirtualized ? (
+        // Only rows near the visible part of the scroll area are rendered
+        <div ref={scrollRef} {...scrollProps} className="max-h-[70vh] overflow-y-auto">
+          <div className="relative" style={{ height: totalHeight }}>
+            {virtualRows.map(({ index, key, offset }) => {
+              const row = rows[index]
+              return (
+                <div
+                  key={key}
+                  ref={measureRow}
+                  data-virtual-key={key}
+                  className={`absolute left-0 right-0 ${
+                    row.kind === 'header' ? (index > 0 ? 'pt-4' : '') : 'pb-2'
+                  }`}
+                  style={{ top: offset }}
+                >
+                  {row.kind === 'header'
+                    ? renderGroupHeader(row.group)
+                    : renderTask(row.group, row.task, row.index)}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      ) : (
+        groups.map(group => (
+          <div key={group.key}>
             {/* Group Header */}
-            {groupBy !== 'none' && (
-              <div className="mb-3 flex items-center gap-2">
-                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
-                  {getGroupLabel(groupBy, groupKey)}
-                </h3>
-                <span className="inline-flex h-6 w-6 items-center justify-center rounded-full bg-gray-200 text-xs font-semibold text-gray-700 dark:bg-gray-800 dark:text-gray-300">
-                  {tasksInGroup.length}
-                </span>
-              </div>
-            )}
+            {groupBy !== 'none' && renderGroupHeader(group)}
 
             {/* Task List */}
-            <div className="space-y-2">
-              {tasksInGroup.map(task => (
-                <TaskItem
-                  key={task.id}
-                  task={task}
-                  onTaskClick={onTaskClick}
-                  onStatusChange={onStatusChange}
-                  onDelete={onDelete}
-                />
-              ))}
-            </div>
+            {!isCollapsed(group) && (
+              <div className="space-y-2">
+                {group.tasks.map((task, index) => renderTask(group, task, index))}
+              </div>
+            )}
           </div>
-        )
-      })}
+        ))
+      )}
     </div>
   )
 }
@@ -0,0 +1,50 @@
+import { useEffect } from 'react'
+
+interface UndoToastProps {
+  message: string
+  onUndo: () => void
+  onDismiss: () => void
+  /** Milliseconds before the toast hides itself */
+  duration?: number
+}
+
+/**
+ * UndoToast Component
+ * Confirms a destructive action with an Undo button, hiding itself after a few seconds
+ */
+export function UndoToast({ message, onUndo, onDismiss, duration = 6000 }: UndoToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration)
+    return () => clearTimeout(timer)
+  }, [onDismiss, duration])
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="fixed bottom-6 left-1/2 z-50 flex -translate-x-1/2 items-center gap-4 rounded-lg bg-gray-900 px-4 py-3 text-sm text-white shadow-lg dark:bg-gray-700"
+    >
+      <span>{message}</span>
+      <button
+        onClick={onUndo}
+        className="font-semibold text-blue-300 hover:text-blue-200 focus:outline-none focus:underline"
+      >
+        Undo
+      </button>
+      <button
+        onClick={onDismiss}
+        className="rounded p-1 text-gray-400 hover:text-white"
+        aria-label="Dismiss"
+      >
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M6 18L18 6M6 6l12 12"
+          />
+        </svg>
+      </button>
+    </div>
+  )
+}
@@ -7,6 +7,28 @@
  * - TaskItem: Displays a single task with checkbox, title, due date, and priority badge
  * - TaskListDisplay: Container component for displaying multiple tasks with filtering,
  *   sorting, and grouping capabilities
+ * - QuickAddBar: Natural-language quick entry with a parsed preview and a toggle for the
+ *   full TaskForm
+ * - ListSidebar: Navigation between named task lists with create and delete actions
+ * - TaskBoard: Kanban board with a column per group and keyboard-accessible drag and drop
+ * - TaskCalendar: Month and week calendar of tasks by due date with drag-to-reschedule
+ * - BatchActionBar: Complete, archive, delete, retag, reschedule or move selected tasks at once
+ * - CommandPalette: Ctrl+K fuzzy search over actions, saved views, lists and task titles
+ * - ShortcutHelp: Overlay listing the keyboard shortcuts
+ * - TagInput: Tag entry with case-insensitive autocomplete from the existing tags
+ * - TagManager: Recolor, rename, merge and delete tags across all tasks
+ * - SortControls: Multi-key sort order with a direction per key
+ * - SavedViewsSidebar: Built-in smart views (Today, Upcoming, Overdue) and saved views
+ * - SubtaskChecklist: Editable checklist of subtasks shown in the task detail modal
+ * - RecurrenceEditor: Repeat rule editor (daily, weekly, monthly, yearly) for recurring tasks
+ * - DueDateFields: Due date, optional time of day and time zone inputs
+ * - ReminderPicker: Reminder offsets that trigger browser notifications
+ * - StorageErrorBanner: Surfaces storage failures such as a full quota or corrupted data
+ * - ExportDialog: Downloads all tasks or the current view as JSON, CSV or iCalendar (.ics)
+ * - ImportDialog: Imports JSON, CSV, .ics, Todoist, Trello and Markdown files with column
+ *   mapping, per-row errors and duplicate detection
+ * - HighlightedText: Text with search matches highlighted
+ * - UndoToast: Confirms a destructive action with an Undo button
  * - ErrorBoundary: Error handling wrapper for React components
  *
  * Features:
@@ -46,7 +68,7 @@
  *     <TaskListDisplay
  *       tasks={tasks}
  *       filterStatus="all"
- *       sortBy="priority"
+ *       sort={[{ key: 'priority', direction: 'desc' }]}
  *       groupBy="status"
  *       onStatusChange={(id, status) => console.log(id, status)}
  *       onDelete={(id) => console.log('Delete', id)}
@@ -71,6 +93,29 @@
 export { TaskItem } from './TaskItem'
 export { TaskListDisplay } from './TaskListDisplay'
 export { TaskForm } from './TaskForm'
+export { QuickAddBar } from './QuickAddBar'
+export { ListSidebar } from './ListSidebar'
+export type { DeleteListMode } from './ListSidebar'
+export { SavedViewsSidebar } from './SavedViewsSidebar'
+export { TaskBoard } from './TaskBoard'
+export { TaskCalendar } from './TaskCalendar'
+export { BatchActionBar } from './BatchActionBar'
+export { CommandPalette } from './CommandPalette'
+export type { PaletteCommand } from './CommandPalette'
+export { ShortcutHelp } from './ShortcutHelp'
+export { TagInput } from './TagInput'
+export { TagManager } from './TagManager'
+export { SortControls } from './SortControls'
 export { TaskDetailModal } from './TaskDetailModal'
+export { SubtaskChecklist } from './SubtaskChecklist'
+export { RecurrenceEditor } from './RecurrenceEditor'
+export { DueDateFields } from './DueDateFields'
+export type { DueDateValue } from './DueDateFields'
+export { ReminderPicker } from './ReminderPicker'
+export { StorageErrorBanner } from './StorageErrorBanner'
+export { ExportDialog } from './ExportDialog'
+export { ImportDialog } from './ImportDialog'
+export { HighlightedText } from './HighlightedText'
+export { UndoToast } from './UndoToast'
 export { ErrorBoundary } from './error-boundary'
 export { VibeStackBadge } from './vibestack-badge'
@@ -0,0 +1,31 @@
+import { useCallback, useMemo } from 'react'
+import { StorageBackend, collapsedGroupsSchema } from '@/storage'
+import { useStoredState } from './useStoredState'
+
+/**
+ * Custom hook for the collapsed groups of the task list
+ * Groups are identified with getGroupId, so each grouping remembers its own groups
+ */
+export function useCollapsedGroups(backend?: StorageBackend) {
+  const [ids, setIds, storage] = useStoredState<string[]>(collapsedGroupsSchema, [], backend)
+
+  const collapsedGroups = useMemo(() => new Set(ids), [ids])
+
+  /**
+   * Collapse an expanded group or expand a collapsed one
+   */
+  const toggleGroup = useCallback(
+    (groupId: string) => {
+      setIds(prev =>
+        prev.includes(groupId) ? prev.filter(id => id !== groupId) : [...prev, groupId]
+      )
+    },
+    [setIds]
+  )
+
+  return {
+    collapsedGroups,
+    toggleGroup,
+    storage,
+  }
+}
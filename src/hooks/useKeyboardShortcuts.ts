@@ -0,0 +1,47 @@
+import { useEffect, useRef } from 'react'
+import { getShortcutName, isEditingText } from '@/utils/keyboard'
+
+/**
+ * Handlers by shortcut name, e.g. { j: next, '?': showHelp, 'mod+k': openPalette }
+ * '*' runs for any other key and leaves the key's default action alone
+ */
+export type ShortcutHandlers = Partial<Record<string, (e: KeyboardEvent) => void>>
+
+/**
+ * Keys that only modify the next key press, e.g. Shift on the way to "#"
+ */
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'CapsLock', 'AltGraph']
+
+/**
+ * Bind single-key shortcuts and Ctrl/⌘ combinations on the window
+ * Single keys are ignored while typing in a text field; Ctrl/⌘ combinations still work
+ * there. Pass enabled = false while a dialog handles its own keys.
+ */
+export function useKeyboardShortcuts(handlers: ShortcutHandlers, enabled = true) {
+  // Always call the latest handlers without re-binding on every render
+  const latest = useRef(handlers)
+  useEffect(() => {
+    latest.current = handlers
+  })
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.defaultPrevented) return
+      const name = getShortcutName(e)
+      if (!name.startsWith('mod+') && isEditingText(e.target)) return
+
+      const handler = latest.current[name]
+      if (!handler) {
+        if (!MODIFIER_KEYS.includes(e.key)) latest.current['*']?.(e)
+        return
+      }
+      e.preventDefault()
+      handler(e)
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [enabled])
+}
@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Task } from '@/types/task'
+import {
+  StorageBackend,
+  StorageError,
+  TaskStore,
+  diffTasks,
+  getDefaultBackend,
+  getDefaultTaskStore,
+  migrateLegacyTasks,
+  rebaseTasks,
+  tasksSchema,
+  toStorageError,
+} from '@/storage'
+import { StoredStateInfo, StoredStateStatus } from './useStoredState'
+
+/**
+ * Custom hook for the task collection persisted in a TaskStore
+ * Moves tasks saved under the old localStorage key into the store once, then writes
+ * only the tasks that changed. Returns the same shape as useStoredState.
+ */
+export function usePersistedTasks(
+  initialValue: Task[] | (() => Task[]),
+  store: TaskStore = getDefaultTaskStore(),
+  legacy: StorageBackend = getDefaultBackend()
+) {
+  const [tasks, setTasks] = useState<Task[]>(initialValue)
+  const [status, setStatus] = useState<StoredStateStatus>('loading')
+  const [error, setError] = useState<StorageError | null>(null)
+  // Tasks as last written to (or read from) the store; changes are diffed against it
+  const persisted = useRef<Task[] | null>(null)
+  // Tasks before any change; changes made while loading are replayed onto the loaded tasks
+  const initialTasks = useRef(tasks)
+  const hasLocalChanges = useRef(false)
+  // Writes run one after another so batches reach the store in order
+  const writeQueue = useRef<Promise<void>>(Promise.resolve())
+
+  /**
+   * Migrate and load the stored tasks once per store
+   */
+  useEffect(() => {
+    let cancelled = false
+
+    migrateLegacyTasks(store, legacy)
+      .then(() => store.loadAll())
+      .then(loaded => {
+        if (cancelled) return
+        // A store that was never written gets the initial tasks on the first save
+        persisted.current = loaded || []
+        if (loaded) {
+          // The next write then only stores the changes, never deletes what was loaded
+          const base = initialTasks.current
+          setTasks(current =>
+            hasLocalChanges.current ? rebaseTasks(base, current, loaded) : loaded
+          )
+        }
+        setStatus('ready')
+      })
+      .catch(err => {
+        if (cancelled) return
+        // Leave `persisted` unset so nothing overwrites tasks that could not be read
+        setError(toStorageError(err, tasksSchema.key))
+        setStatus('ready')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [store, legacy])
+
+  /**
+   * Write changed tasks once loaded
+   */
+  useEffect(() => {
+    const previous = persisted.current
+    if (status !== 'ready' || !previous || previous === tasks) return
+
+    const changes = diffTasks(previous, tasks)
+    persisted.current = tasks
+    writeQueue.current = writeQueue.current
+      .then(() => store.applyChanges(changes))
+      .catch(err => {
+        // Write every task again with the next change
+        persisted.current = []
+        setError(toStorageError(err, tasksSchema.key))
+      })
+  }, [store, tasks, status])
+
+  /**
+   * Reload when another tab changes the tasks
+   */
+  useEffect(() => {
+    if (!store.subscribe) return
+
+    return store.subscribe(() => {
+      store
+        .loadAll()
+        .then(loaded => {
+          if (!loaded) return
+          persisted.current = loaded
+          setTasks(loaded)
+        })
+        .catch(err => setError(toStorageError(err, tasksSchema.key)))
+    })
+  }, [store])
+
+  /**
+   * Setter with the same API as useState
+   */
+  const setPersistedTasks = useCallback((next: Task[] | ((prev: Task[]) => Task[])) => {
+    hasLocalChanges.current = true
+    setTasks(next)
+  }, [])
+
+  const dismissError = useCallback(() => setError(null), [])
+
+  const info: StoredStateInfo = { status, error, dismissError }
+  return [tasks, setPersistedTasks, info] as const
+}
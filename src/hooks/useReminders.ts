@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react'
+import { FiredReminder, Task } from '@/types/task'
+import { formatTaskDueDate } from '@/utils/task'
+import { getDueReminders, pruneFiredReminders } from '@/utils/reminder'
+import { StorageBackend, firedRemindersSchema } from '@/storage'
+import { useStoredState } from './useStoredState'
+
+const CHECK_INTERVAL_MS = 30 * 1000
+
+/**
+ * Custom hook that fires browser notifications for task reminders while the app is open
+ * Fired reminders are stored so reloading the page (or another tab) does not repeat them
+ */
+export function useReminders(tasks: Task[], backend?: StorageBackend) {
+  const isSupported = typeof window !== 'undefined' && 'Notification' in window
+  const [permission, setPermission] = useState<NotificationPermission>(
+    isSupported ? Notification.permission : 'denied'
+  )
+  const [fired, setFired, storage] = useStoredState<FiredReminder[]>(
+    firedRemindersSchema,
+    [],
+    backend
+  )
+
+  /**
+   * Ask the user for permission to show notifications
+   */
+  const requestPermission = useCallback(async () => {
+    if (!isSupported) return
+    setPermission(await Notification.requestPermission())
+  }, [isSupported])
+
+  useEffect(() => {
+    // Until the fired reminders are loaded every reminder would look new
+    if (!isSupported || permission !== 'granted' || storage.status !== 'ready') return
+
+    const checkReminders = () => {
+      const dueReminders = getDueReminders(tasks, new Date(), fired)
+      if (dueReminders.length === 0) return
+
+      dueReminders.forEach(({ key, task }) => {
+        new Notification(task.title, {
+          body: `Due ${formatTaskDueDate(task)}`,
+          tag: key,
+        })
+      })
+      setFired(prev =>
+        pruneFiredReminders([...prev, ...dueReminders.map(reminder => reminder.fired)], tasks)
+      )
+    }
+
+    checkReminders()
+    const interval = window.setInterval(checkReminders, CHECK_INTERVAL_MS)
+    return () => window.clearInterval(interval)
+  }, [tasks, fired, setFired, isSupported, permission, storage.status])
+
+  return { isSupported, permission, requestPermission, storage }
+}
@@ -0,0 +1,55 @@
+import { useCallback, useMemo } from 'react'
+import { SavedView, ViewSettings } from '@/types/view'
+import { BUILT_IN_VIEWS, createSavedView } from '@/utils/view'
+import { StorageBackend, viewsSchema } from '@/storage'
+import { useStoredState } from './useStoredState'
+
+/**
+ * Custom hook for managing saved views
+ * Built-in views come first and are never stored
+ */
+export function useSavedViews(backend?: StorageBackend) {
+  const [storedViews, setViews, storage] = useStoredState<SavedView[]>(viewsSchema, [], backend)
+
+  /**
+   * Save the current settings as a named view
+   */
+  const addView = useCallback(
+    (name: string, settings: ViewSettings, icon?: string) => {
+      const newView = createSavedView(name, settings, icon)
+      setViews(prev => [...prev, newView])
+      return newView
+    },
+    [setViews]
+  )
+
+  /**
+   * Update a saved view
+   */
+  const updateView = useCallback(
+    (id: string, updates: Partial<Omit<SavedView, 'id' | 'builtIn'>>) => {
+      setViews(prev => prev.map(view => (view.id === id ? { ...view, ...updates } : view)))
+    },
+    [setViews]
+  )
+
+  /**
+   * Delete a saved view
+   */
+  const deleteView = useCallback(
+    (id: string) => {
+      setViews(prev => prev.filter(view => view.id !== id))
+    },
+    [setViews]
+  )
+
+  const views = useMemo(() => [...BUILT_IN_VIEWS, ...storedViews], [storedViews])
+
+  return {
+    views,
+    addView,
+    updateView,
+    deleteView,
+    storage,
+  }
+}
@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  CollectionSchema,
+  StorageBackend,
+  StorageError,
+  decodeCollection,
+  getDefaultBackend,
+  readCollection,
+  toStorageError,
+  writeCollection,
+} from '@/storage'
+
+/**
+ * Load state of a stored collection
+ */
+export type StoredStateStatus = 'loading' | 'ready'
+
+/**
+ * Storage status returned alongside the value
+ */
+export interface StoredStateInfo {
+  status: StoredStateStatus
+  error: StorageError | null
+  dismissError: () => void
+}
+
+/**
+ * Custom hook for state persisted through the storage layer
+ * Loads and migrates the stored collection, writes every change back and follows
+ * changes made in other tabs. Read and write failures are returned as `error`
+ * so the UI can show them.
+ */
+export function useStoredState<T>(
+  schema: CollectionSchema<T>,
+  initialValue: T | (() => T),
+  backend: StorageBackend = getDefaultBackend()
+) {
+  const [value, setValue] = useState<T>(initialValue)
+  const [status, setStatus] = useState<StoredStateStatus>('loading')
+  const [error, setError] = useState<StorageError | null>(null)
+  // Values that came from storage must not be written straight back
+  const skipNextWrite = useRef(true)
+  // Changes made before loading finished win over the loaded value
+  const hasLocalChanges = useRef(false)
+
+  /**
+   * Load the stored value once per schema/backend
+   */
+  useEffect(() => {
+    let cancelled = false
+
+    readCollection(backend, schema)
+      .then(result => {
+        if (cancelled) return
+        if (result && !hasLocalChanges.current) {
+          skipNextWrite.current = !result.migrated
+          setValue(result.value)
+        }
+        setStatus('ready')
+      })
+      .catch(err => {
+        if (cancelled) return
+        setError(toStorageError(err, schema.key))
+        setStatus('ready')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [backend, schema])
+
+  /**
+   * Persist changes once loaded
+   */
+  useEffect(() => {
+    if (status !== 'ready') return
+    if (skipNextWrite.current) {
+      skipNextWrite.current = false
+      return
+    }
+
+    writeCollection(backend, schema, value).catch(err => {
+      setError(toStorageError(err, schema.key))
+    })
+  }, [backend, schema, value, status])
+
+  /**
+   * Listen for changes from other tabs/windows
+   */
+  useEffect(() => {
+    if (!backend.subscribe) return
+
+    return backend.subscribe(schema.key, raw => {
+      if (raw === null) return
+      try {
+        const { value: nextValue } = decodeCollection(schema, raw)
+        skipNextWrite.current = true
+        setValue(nextValue)
+      } catch (err) {
+        setError(toStorageError(err, schema.key))
+      }
+    })
+  }, [backend, schema])
+
+  /**
+   * Setter with the same API as useState
+   */
+  const setStoredValue = useCallback((next: T | ((prev: T) => T)) => {
+    hasLocalChanges.current = true
+    skipNextWrite.current = false
+    setValue(next)
+  }, [])
+
+  const dismissError = useCallback(() => setError(null), [])
+
+  const info: StoredStateInfo = { status, error, dismissError }
+  return [value, setStoredValue, info] as const
+}
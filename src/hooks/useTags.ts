@@ -0,0 +1,79 @@
+import { useCallback, useMemo } from 'react'
+import { Task } from '@/types/task'
+import { TagColor, TaskTag } from '@/types/tag'
+import { getTagSummaries } from '@/utils/tag'
+import { HistoryEffect } from '@/utils/history'
+import { StorageBackend, tagsSchema } from '@/storage'
+import { useStoredState } from './useStoredState'
+
+/**
+ * Custom hook for the tag registry
+ * Tags live on tasks as plain strings; the registry keeps their colors. Renaming or
+ * deleting tags on the tasks themselves goes through useTaskList.replaceTags, and the
+ * registry entries follow with renameTags and deleteTag, which return the effect to
+ * record with that task change so undo brings the colors back.
+ */
+export function useTags(tasks: Task[], backend?: StorageBackend) {
+  const [registry, setRegistry, storage] = useStoredState<TaskTag[]>(tagsSchema, [], backend)
+
+  const tags = useMemo(() => getTagSummaries(tasks, registry), [tasks, registry])
+  const tagNames = useMemo(() => tags.map(tag => tag.name), [tags])
+  const tagColors = useMemo(
+    () => Object.fromEntries(tags.map(tag => [tag.name, tag.color])) as Record<string, TagColor>,
+    [tags]
+  )
+
+  /**
+   * Set the color of a tag
+   */
+  const setTagColor = useCallback(
+    (name: string, color: TagColor) => {
+      setRegistry(prev => [...prev.filter(tag => tag.name !== name), { name, color }])
+    },
+    [setRegistry]
+  )
+
+  /**
+   * Replace the registry entries of some tags
+   * Returns the effect that swaps those entries back and forth for undo and redo; other
+   * entries, including colors changed since, are left alone
+   */
+  const replaceEntries = useCallback(
+    (names: string[], entries: TaskTag[]): HistoryEffect => {
+      const before = registry.filter(tag => names.includes(tag.name))
+      const restore = (restored: TaskTag[]) =>
+        setRegistry(prev => [...prev.filter(tag => !names.includes(tag.name)), ...restored])
+
+      restore(entries)
+      return { undo: () => restore(before), redo: () => restore(entries) }
+    },
+    [registry, setRegistry]
+  )
+
+  /**
+   * Move registry entries to a new name; the target keeps its own color when it has one
+   */
+  const renameTags = useCallback(
+    (from: string[], to: string) => {
+      const target =
+        registry.find(tag => tag.name === to) || registry.find(tag => from.includes(tag.name))
+      return replaceEntries([...from, to], target ? [{ name: to, color: target.color }] : [])
+    },
+    [registry, replaceEntries]
+  )
+
+  /**
+   * Forget a tag's settings
+   */
+  const deleteTag = useCallback((name: string) => replaceEntries([name], []), [replaceEntries])
+
+  return {
+    tags,
+    tagNames,
+    tagColors,
+    setTagColor,
+    renameTags,
+    deleteTag,
+    storage,
+  }
+}
@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { Task } from '@/types/task'
+import { HISTORY_LIMIT, HistoryEffect, HistoryState, replayChanges } from '@/utils/history'
+
+/**
+ * Message offering to undo a destructive action
+ */
+export interface UndoToastState {
+  /** Changes on every toast so a repeated message restarts its timer */
+  id: number
+  message: string
+}
+
+export interface ApplyOptions {
+  /** Offer an Undo toast for this change (deletes, clearing completed tasks) */
+  destructive?: boolean
+  /** Set to false for changes that can't be undone safely (e.g. deleting a list) */
+  record?: boolean
+  /** Outside state changed along with the tasks, undone and redone with them */
+  effect?: HistoryEffect
+}
+
+/**
+ * Custom hook adding undo/redo to a task collection
+ * Every mutation goes through `apply`, which records the collection before and after
+ * the change. Undo and redo replay only the tasks a change touched.
+ */
+export function useTaskHistory(tasks: Task[], setTasks: (tasks: Task[]) => void) {
+  const [history, setHistory] = useState<HistoryState>({ past: [], future: [] })
+  const [toast, setToast] = useState<UndoToastState | null>(null)
+  // Latest collection, including changes applied since the last render
+  const latest = useRef(tasks)
+
+  useEffect(() => {
+    latest.current = tasks
+  }, [tasks])
+
+  /**
+   * Run a mutation and record it
+   * Returns the new collection
+   */
+  const apply = useCallback(
+    (
+      label: string,
+      update: (tasks: Task[]) => Task[],
+      { destructive = false, record = true, effect }: ApplyOptions = {}
+    ) => {
+      const before = latest.current
+      const after = update(before)
+      if (after === before) return after
+
+      latest.current = after
+      setTasks(after)
+      if (!record) return after
+
+      setHistory(prev => ({
+        past: [...prev.past, { label, before, after, effect }].slice(-HISTORY_LIMIT),
+        future: [],
+      }))
+      setToast(destructive ? { id: Date.now(), message: label } : null)
+      return after
+    },
+    [setTasks]
+  )
+
+  /**
+   * Revert the most recent change
+   */
+  const undo = useCallback(() => {
+    const entry = history.past[history.past.length - 1]
+    if (!entry) return
+
+    latest.current = replayChanges(latest.current, entry.after, entry.before)
+    setTasks(latest.current)
+    entry.effect?.undo()
+    setHistory(prev => ({ past: prev.past.slice(0, -1), future: [entry, ...prev.future] }))
+    setToast(null)
+  }, [history, setTasks])
+
+  /**
+   * Re-apply the most recently undone change
+   */
+  const redo = useCallback(() => {
+    const entry = history.future[0]
+    if (!entry) return
+
+    latest.current = replayChanges(latest.current, entry.before, entry.after)
+    setTasks(latest.current)
+    entry.effect?.redo()
+    setHistory(prev => ({ past: [...prev.past, entry], future: prev.future.slice(1) }))
+  }, [history, setTasks])
+
+  const dismissToast = useCallback(() => setToast(null), [])
+
+  return {
+    apply,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past[history.past.length - 1]?.label,
+    redoLabel: history.future[0]?.label,
+    toast,
+    dismissToast,
+  }
+}
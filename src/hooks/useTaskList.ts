@@ -1,74 +1,211 @@
-import { useState, useCallback } from 'react'
+import { useCallback, useContext } from 'react'
 import { Task, TaskInput, TaskStatus } from '@/types/task'
+import { createTask, isTaskDueToday, isTaskOverdue } from '@/utils/task'
+import { getNextOccurrence } from '@/utils/recurrence'
+import { TaskOrderChange } from '@/utils/order'
+import { HistoryEffect } from '@/utils/history'
+import { TaskStoreContext } from '@/store/taskStoreContext'
+import { TaskBatchEdit } from '@/store/taskReducer'
+
+interface StatusChangeOptions {
+  /** Mark every subtask done as well */
+  completeSubtasks?: boolean
+}
+
+/**
+ * Get the undo label of a batch edit, e.g. "Completed 3 tasks"
+ */
+function describeBatchEdit(edit: TaskBatchEdit, count: number): string {
+  const tasks = `${count} task${count === 1 ? '' : 's'}`
+  if (edit.status === 'completed') return `Completed ${tasks}`
+  if (edit.status === 'archived') return `Archived ${tasks}`
+  return `Updated ${tasks}`
+}
 
 /**
- * Custom hook for managing a list of tasks
- * Provides CRUD operations and state management for tasks
+ * Custom hook for managing the task list
+ * Provides CRUD operations on the shared task store (see TaskStoreProvider).
+ * Every operation goes through the store's reducer and can be undone and redone.
  */
-export function useTaskList(initialTasks: Task[] = []) {
-  const [tasks, setTasks] = useState<Task[]>(initialTasks)
+export function useTaskList() {
+  const store = useContext(TaskStoreContext)
+  if (!store) {
+    throw new Error('useTaskList must be used within a TaskStoreProvider')
+  }
+  const { tasks, dispatch } = store
 
   /**
    * Add a new task
    */
-  const addTask = useCallback((input: TaskInput) => {
-    const newTask: Task = {
-      id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      title: input.title,
-      description: input.description,
-      dueDate: input.dueDate,
-      priority: input.priority,
-      status: input.status || 'pending',
-      tags: input.tags,
-      listId: input.listId,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    }
-    setTasks(prev => [newTask, ...prev])
-    return newTask
-  }, [])
+  const addTask = useCallback(
+    (input: TaskInput) => {
+      const newTask = createTask(input)
+      dispatch({ type: 'add', tasks: [newTask] }, { label: `Added “${newTask.title}”` })
+      return newTask
+    },
+    [dispatch]
+  )
+
+  /**
+   * Add several ready-made tasks at once (e.g. from an import)
+   */
+  const addTasks = useCallback(
+    (newTasks: Task[]) => {
+      dispatch(
+        { type: 'add', tasks: newTasks },
+        { label: `Added ${newTasks.length} task${newTasks.length === 1 ? '' : 's'}` }
+      )
+    },
+    [dispatch]
+  )
 
   /**
    * Update an existing task
+   * Returns the updated task
    */
-  const updateTask = useCallback((id: string, updates: Partial<Task>) => {
-    setTasks(prev =>
-      prev.map(task =>
-        task.id === id
-          ? {
-              ...task,
-              ...updates,
-              updatedAt: new Date(),
-            }
-          : task
+  const updateTask = useCallback(
+    (id: string, updates: Partial<Task>) => {
+      const task = tasks.find(t => t.id === id)
+      const next = dispatch(
+        { type: 'update', id, changes: updates, now: new Date() },
+        { label: task ? `Updated “${task.title}”` : 'Task updated' }
       )
-    )
-  }, [])
+      return next.find(t => t.id === id)
+    },
+    [dispatch, tasks]
+  )
 
   /**
    * Delete a task
    */
-  const deleteTask = useCallback((id: string) => {
-    setTasks(prev => prev.filter(task => task.id !== id))
-  }, [])
+  const deleteTask = useCallback(
+    (id: string) => {
+      const task = tasks.find(t => t.id === id)
+      if (!task) return
+
+      dispatch(
+        { type: 'delete', ids: [id] },
+        { label: `Deleted “${task.title}”`, destructive: true }
+      )
+    },
+    [dispatch, tasks]
+  )
+
+  /**
+   * Delete several tasks in one undoable step
+   */
+  const deleteTasks = useCallback(
+    (ids: string[]) => {
+      const count = tasks.filter(t => ids.includes(t.id)).length
+      if (count === 0) return
+
+      dispatch(
+        { type: 'delete', ids },
+        { label: `Deleted ${count} task${count === 1 ? '' : 's'}`, destructive: true }
+      )
+    },
+    [dispatch, tasks]
+  )
+
+  /**
+   * Apply the same changes to several tasks in one undoable step
+   * Completing recurring tasks creates their next occurrences, as for a single task
+   */
+  const updateTasks = useCallback(
+    (ids: string[], edit: TaskBatchEdit) => {
+      const selected = tasks.filter(t => ids.includes(t.id))
+      if (selected.length === 0) return
+
+      const now = new Date()
+      const nextOccurrences: Record<string, Task> = {}
+      if (edit.status === 'completed') {
+        selected.forEach(task => {
+          const next = task.status !== 'completed' ? getNextOccurrence(task, now) : null
+          if (next) nextOccurrences[task.id] = next
+        })
+      }
+      dispatch(
+        { type: 'batchUpdate', ids, edit, now, nextOccurrences },
+        { label: describeBatchEdit(edit, selected.length), destructive: true }
+      )
+    },
+    [dispatch, tasks]
+  )
 
   /**
    * Update task status
+   * Completing a recurring task also creates its next occurrence. Returns the updated task.
    */
-  const updateTaskStatus = useCallback((id: string, status: TaskStatus) => {
-    setTasks(prev =>
-      prev.map(task =>
-        task.id === id
-          ? {
-              ...task,
-              status,
-              completedAt: status === 'completed' ? new Date() : null,
-              updatedAt: new Date(),
-            }
-          : task
+  const updateTaskStatus = useCallback(
+    (id: string, status: TaskStatus, { completeSubtasks = false }: StatusChangeOptions = {}) => {
+      const task = tasks.find(t => t.id === id)
+      if (!task) return
+
+      const now = new Date()
+      const nextOccurrence =
+        status === 'completed' && task.status !== 'completed' ? getNextOccurrence(task, now) : null
+      const next = dispatch(
+        { type: 'setStatus', id, status, now, completeSubtasks, nextOccurrence },
+        { label: status === 'completed' ? `Completed “${task.title}”` : `Updated “${task.title}”` }
       )
-    )
-  }, [])
+      return next.find(t => t.id === id)
+    },
+    [dispatch, tasks]
+  )
+
+  /**
+   * Apply manual order changes (see utils/order)
+   */
+  const reorderTasks = useCallback(
+    (orders: TaskOrderChange[]) => {
+      if (orders.length === 0) return
+      dispatch({ type: 'reorder', orders, now: new Date() }, { label: 'Reordered tasks' })
+    },
+    [dispatch]
+  )
+
+  /**
+   * Rename tags on every task, merging them when several are given or `to` already exists
+   * `to` null removes the tags from every task; `effect` undoes the matching registry change
+   */
+  const replaceTags = useCallback(
+    (from: string[], to: string | null, effect?: HistoryEffect) => {
+      const count = tasks.filter(task => task.tags?.some(tag => from.includes(tag))).length
+      if (count === 0) return
+
+      const tags = from.map(tag => `#${tag}`).join(', ')
+      const label =
+        to === null
+          ? `Removed ${tags} from ${count} task${count === 1 ? '' : 's'}`
+          : `${from.length > 1 ? 'Merged' : 'Renamed'} ${tags} to #${to}`
+      // Like batch edits, these change many tasks at once so they can be undone from a toast
+      dispatch(
+        { type: 'replaceTags', from, to, now: new Date() },
+        {
+          label,
+          destructive: true,
+          effect,
+        }
+      )
+    },
+    [dispatch, tasks]
+  )
+
+  /**
+   * Move the tasks of a list to another list, or delete them
+   * Used when a list is deleted; not recorded for undo since the list itself is gone
+   */
+  const removeList = useCallback(
+    (listId: string, moveToListId: string | null) => {
+      dispatch(
+        moveToListId
+          ? { type: 'moveToList', fromListId: listId, toListId: moveToListId, now: new Date() }
+          : { type: 'deleteInList', listId },
+        { label: 'List deleted', record: false }
+      )
+    },
+    [dispatch]
+  )
 
   /**
    * Get tasks filtered by status
@@ -98,52 +235,52 @@ export function useTaskList(initialTasks: Task[] = []) {
    */
   const getOverdueTasks = useCallback(() => {
     const now = new Date()
-    return tasks.filter(
-      t =>
-        t.dueDate &&
-        new Date(t.dueDate) < now &&
-        t.status !== 'completed' &&
-        t.status !== 'archived'
-    )
+    return tasks.filter(t => isTaskOverdue(t, now))
   }, [tasks])
 
   /**
    * Get tasks due today
    */
   const getDueToday = useCallback(() => {
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    const tomorrow = new Date(today)
-    tomorrow.setDate(tomorrow.getDate() + 1)
-
-    return tasks.filter(t => {
-      if (!t.dueDate) return false
-      const dueDate = new Date(t.dueDate)
-      dueDate.setHours(0, 0, 0, 0)
-      return dueDate.getTime() === today.getTime() && t.status !== 'completed'
-    })
+    const now = new Date()
+    return tasks.filter(t => isTaskDueToday(t, now) && t.status !== 'completed')
   }, [tasks])
 
   /**
    * Clear completed tasks (archive them)
    */
   const clearCompleted = useCallback(() => {
-    setTasks(prev =>
-      prev.map(task => (task.status === 'completed' ? { ...task, status: 'archived' } : task))
+    dispatch(
+      { type: 'clearCompleted', now: new Date() },
+      { label: 'Cleared completed tasks', destructive: true }
     )
-  }, [])
+  }, [dispatch])
 
   return {
     tasks,
-    setTasks,
+    storage: store.storage,
     addTask,
+    addTasks,
     updateTask,
     deleteTask,
+    deleteTasks,
+    updateTasks,
     updateTaskStatus,
+    reorderTasks,
+    replaceTags,
+    removeList,
     getTasksByStatus,
     getTasksByPriority,
     getOverdueTasks,
     getDueToday,
     clearCompleted,
+    undo: store.undo,
+    redo: store.redo,
+    canUndo: store.canUndo,
+    canRedo: store.canRedo,
+    undoLabel: store.undoLabel,
+    redoLabel: store.redoLabel,
+    undoToast: store.undoToast,
+    dismissUndoToast: store.dismissUndoToast,
   }
 }
@@ -0,0 +1,71 @@
+import { useCallback, useMemo } from 'react'
+import { TaskList, TaskListInput } from '@/types/list'
+import { INBOX_LIST_ID, createInboxList, createTaskList, sortLists } from '@/utils/list'
+import { StorageBackend, listsSchema } from '@/storage'
+import { useStoredState } from './useStoredState'
+
+/**
+ * Make sure the Inbox list is always present
+ */
+function withInbox(lists: TaskList[]): TaskList[] {
+  if (lists.some(list => list.id === INBOX_LIST_ID)) {
+    return lists
+  }
+  return [createInboxList(), ...lists]
+}
+
+/**
+ * Custom hook for managing the persisted collection of task lists
+ * The Inbox list always exists and cannot be deleted
+ */
+export function useTaskLists(backend?: StorageBackend) {
+  const [storedLists, setLists, storage] = useStoredState(
+    listsSchema,
+    () => [createInboxList()],
+    backend
+  )
+  const lists = useMemo(() => withInbox(storedLists), [storedLists])
+
+  /**
+   * Add a new list
+   */
+  const addList = useCallback(
+    (input: TaskListInput) => {
+      const newList = createTaskList(input, lists)
+      setLists(prev => [...prev, newList])
+      return newList
+    },
+    [lists, setLists]
+  )
+
+  /**
+   * Update an existing list
+   */
+  const updateList = useCallback(
+    (id: string, updates: Partial<Omit<TaskList, 'id'>>) => {
+      setLists(prev => prev.map(list => (list.id === id ? { ...list, ...updates } : list)))
+    },
+    [setLists]
+  )
+
+  /**
+   * Delete a list (the Inbox is never removed)
+   */
+  const deleteList = useCallback(
+    (id: string) => {
+      if (id === INBOX_LIST_ID) return
+      setLists(prev => prev.filter(list => list.id !== id))
+    },
+    [setLists]
+  )
+
+  const sortedLists = useMemo(() => sortLists(lists), [lists])
+
+  return {
+    lists: sortedLists,
+    addList,
+    updateList,
+    deleteList,
+    storage,
+  }
+}
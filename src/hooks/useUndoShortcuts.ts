@@ -0,0 +1,26 @@
+import { useEffect } from 'react'
+import { isEditingText } from '@/utils/keyboard'
+
+/**
+ * Bind Ctrl+Z (undo) and Ctrl+Shift+Z / Ctrl+Y (redo), or ⌘ on macOS
+ * Ignored while typing in a text field, which has its own undo
+ */
+export function useUndoShortcuts(undo: () => void, redo: () => void) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditingText(e.target)) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+}
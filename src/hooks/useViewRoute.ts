@@ -0,0 +1,107 @@
+import { useCallback, useMemo } from 'react'
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import { SavedView, ViewSettings } from '@/types/view'
+import { INBOX_LIST_ID } from '@/utils/list'
+import {
+  DEFAULT_VIEW_SETTINGS,
+  getViewPath,
+  getViewSettings,
+  readViewParams,
+  writeViewParams,
+} from '@/utils/view'
+
+interface UpdateSettingsOptions {
+  /** Replace the history entry instead of adding one (e.g. while typing a search) */
+  replace?: boolean
+}
+
+/**
+ * Get the settings a list starts with before any query params
+ */
+function getListSettings(listId: string): ViewSettings {
+  return { ...DEFAULT_VIEW_SETTINGS, listId }
+}
+
+/**
+ * Custom hook for the view state kept in the URL
+ * The list, view and open task come from the route (/list/:listId, /view/:viewId,
+ * .../task/:taskId) and filters, sorting, grouping and search from query params,
+ * so refreshes, bookmarks and the back button restore them.
+ */
+export function useViewRoute(views: SavedView[]) {
+  const { listId, viewId, taskId } = useParams()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const navigate = useNavigate()
+
+  const activeView = viewId ? views.find(view => view.id === viewId) : undefined
+  const base = useMemo(
+    () => (activeView ? getViewSettings(activeView) : getListSettings(listId || INBOX_LIST_ID)),
+    [activeView, listId]
+  )
+  const settings = useMemo(() => readViewParams(searchParams, base), [searchParams, base])
+
+  /**
+   * Change filters, sorting, grouping or search
+   */
+  const updateSettings = useCallback(
+    (changes: Partial<ViewSettings>, { replace = false }: UpdateSettingsOptions = {}) => {
+      setSearchParams(writeViewParams({ ...settings, ...changes }, base), { replace })
+    },
+    [settings, base, setSearchParams]
+  )
+
+  /**
+   * Show a list, keeping the current filters
+   */
+  const selectList = useCallback(
+    (nextListId: string) => {
+      const listSettings = getListSettings(nextListId)
+      navigate({
+        pathname: getViewPath({ listId: nextListId }),
+        search: writeViewParams({ ...settings, listId: nextListId }, listSettings).toString(),
+      })
+    },
+    [settings, navigate]
+  )
+
+  /**
+   * Show a view with its saved settings
+   */
+  const selectView = useCallback(
+    (nextViewId: string) => navigate(getViewPath({ viewId: nextViewId })),
+    [navigate]
+  )
+
+  /**
+   * Open the detail modal of a task over the current list or view
+   */
+  const openTask = useCallback(
+    (nextTaskId: string) => {
+      navigate({
+        pathname: getViewPath({ listId, viewId, taskId: nextTaskId }),
+        search: searchParams.toString(),
+      })
+    },
+    [listId, viewId, searchParams, navigate]
+  )
+
+  /**
+   * Close the task detail modal
+   */
+  const closeTask = useCallback(() => {
+    navigate({ pathname: getViewPath({ listId, viewId }), search: searchParams.toString() })
+  }, [listId, viewId, searchParams, navigate])
+
+  return {
+    settings,
+    /** Id of the view in the URL, even while saved views are still loading */
+    activeViewId: viewId ?? null,
+    activeView,
+    taskId: taskId ?? null,
+    updateSettings,
+    selectList,
+    selectView,
+    openTask,
+    closeTask,
+  }
+}
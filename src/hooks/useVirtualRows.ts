@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
+import { findRowAt, getRowOffsets, getVisibleRange } from '@/utils/virtual'
+
+interface VirtualRowsOptions {
+  /** Stable key of every row, in order */
+  keys: string[]
+  /** Height of a row until it has been measured (keep it stable with useCallback) */
+  estimateSize: (index: number) => number
+  /** Rows that stay rendered while off screen, e.g. one being dragged */
+  pinnedKeys?: string[]
+  /** Pixels rendered above and below the visible area */
+  overscan?: number
+  /** Render every row when false */
+  enabled?: boolean
+}
+
+/**
+ * A row to render and where it sits in the scroll container
+ */
+export interface VirtualRow {
+  index: number
+  key: string
+  offset: number
+}
+
+/**
+ * The row at the top of the visible area and how far it is scrolled past
+ */
+interface ScrollAnchor {
+  key: string
+  delta: number
+}
+
+/**
+ * Custom hook for windowed rendering of a long list of rows with varying heights
+ * Only rows near the visible part of the scroll container are rendered; rendered rows are
+ * measured as they resize. The row at the top stays in place when rows above it change,
+ * and the focused row stays rendered so keyboard focus isn't lost while scrolling.
+ */
+export function useVirtualRows({
+  keys,
+  estimateSize,
+  pinnedKeys = [],
+  overscan = 400,
+  enabled = true,
+}: VirtualRowsOptions) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [viewport, setViewport] = useState(() => ({
+    scrollTop: 0,
+    height: typeof window === 'undefined' ? 0 : window.innerHeight,
+  }))
+  // Measured heights by row key
+  const [sizes, setSizes] = useState<Map<string, number>>(() => new Map())
+  const [focusedKey, setFocusedKey] = useState<string | null>(null)
+  const anchor = useRef<ScrollAnchor | null>(null)
+  const rowObserver = useRef<ResizeObserver | null>(null)
+
+  const keyIndex = useMemo(() => new Map(keys.map((key, index) => [key, index])), [keys])
+  const offsets = useMemo(
+    () => getRowOffsets(keys.map((key, index) => sizes.get(key) ?? estimateSize(index))),
+    [keys, sizes, estimateSize]
+  )
+  // Read by the scroll handler, which runs between renders
+  const latest = useRef({ keys, offsets })
+
+  useLayoutEffect(() => {
+    latest.current = { keys, offsets }
+
+    // Keep the anchor row where it was after rows above it changed or were measured
+    const container = containerRef.current
+    if (!enabled || !container || !anchor.current) return
+    const index = keyIndex.get(anchor.current.key)
+    if (index === undefined) {
+      anchor.current = null
+      return
+    }
+    const target = offsets[index] + anchor.current.delta
+    if (Math.abs(container.scrollTop - target) >= 1) {
+      container.scrollTop = target
+    }
+  })
+
+  // Follow the height of the visible area
+  useEffect(() => {
+    const container = containerRef.current
+    if (!enabled || !container) return
+
+    const observer = new ResizeObserver(() => {
+      setViewport({ scrollTop: container.scrollTop, height: container.clientHeight })
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [enabled])
+
+  useEffect(() => () => rowObserver.current?.disconnect(), [])
+
+  /**
+   * Ref callback for rendered rows, which need a `data-virtual-key` attribute
+   */
+  const measureRow = useCallback((element: HTMLElement | null) => {
+    if (!element) return
+
+    rowObserver.current ??= new ResizeObserver(entries => {
+      setSizes(current => {
+        let next = current
+        entries.forEach(entry => {
+          const key = (entry.target as HTMLElement).dataset.virtualKey
+          const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height
+          if (!key || current.get(key) === height) return
+          if (next === current) next = new Map(current)
+          next.set(key, height)
+        })
+        return next
+      })
+    })
+    const observer = rowObserver.current
+    observer.observe(element)
+    return () => observer.unobserve(element)
+  }, [])
+
+  const handleScroll = (e: React.UIEvent<HTMLElement>) => {
+    const { scrollTop, clientHeight } = e.currentTarget
+    setViewport({ scrollTop, height: clientHeight })
+
+    // At the very top new rows above should show up, so nothing is anchored
+    const { keys: currentKeys, offsets: currentOffsets } = latest.current
+    if (scrollTop <= 0 || currentKeys.length === 0) {
+      anchor.current = null
+      return
+    }
+    const index = findRowAt(currentOffsets, scrollTop)
+    anchor.current = { key: currentKeys[index], delta: scrollTop - currentOffsets[index] }
+  }
+
+  const handleFocus = (e: React.FocusEvent<HTMLElement>) => {
+    const row = (e.target as HTMLElement).closest<HTMLElement>('[data-virtual-key]')
+    setFocusedKey(row?.dataset.virtualKey ?? null)
+  }
+
+  const handleBlur = (e: React.FocusEvent<HTMLElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setFocusedKey(null)
+  }
+
+  const range = enabled
+    ? getVisibleRange(
+        offsets,
+        viewport.scrollTop - overscan,
+        viewport.scrollTop + viewport.height + overscan
+      )
+    : { start: 0, end: keys.length }
+  const indices = new Set<number>()
+  for (let index = range.start; index < range.end; index++) indices.add(index)
+  ;[...pinnedKeys, focusedKey].forEach(key => {
+    const index = key === null ? undefined : keyIndex.get(key)
+    if (index !== undefined) indices.add(index)
+  })
+
+  const rows: VirtualRow[] = [...indices]
+    .sort((a, b) => a - b)
+    .map(index => ({ index, key: keys[index], offset: offsets[index] }))
+
+  return {
+    containerRef,
+    containerProps: { onScroll: handleScroll, onFocus: handleFocus, onBlur: handleBlur },
+    totalHeight: offsets[offsets.length - 1],
+    rows,
+    measureRow,
+  }
+}
@@ -1,259 +1,812 @@
-import { useState } from 'react'
-import { Task, TaskStatus } from '@/types/task'
-import { TaskListDisplay, TaskDetailModal } from '@/components'
-import { useLocalStorage } from '@/hooks/useLocalStorage'
-
-/**
- * Sample tasks for demonstration
- * These are used as initial values only if localStorage is empty
- */
-function generateSampleTasks(): Task[] {
-  const now = new Date()
-  const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000)
-  const nextWeek = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)
-  const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000)
-
-  return [
-    {
-      id: '1',
-      title: 'Complete project proposal',
-      description: 'Write and submit the Q1 product proposal to stakeholders',
-      priority: 'urgent',
-      status: 'pending',
-      dueDate: tomorrow,
-      createdAt: new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000),
-      updatedAt: new Date(now.getTime() - 24 * 60 * 60 * 1000),
-      tags: ['work', 'urgent'],
-    },
-    {
-      id: '2',
-      title: 'Review pull requests',
-      description: 'Check and approve pending PRs from the team',
-      priority: 'high',
-      status: 'pending',
-      dueDate: now,
-      createdAt: new Date(now.getTime() - 3 * 60 * 60 * 1000),
-      updatedAt: new Date(now.getTime() - 3 * 60 * 60 * 1000),
-      tags: ['code-review'],
-    },
-    {
-      id: '3',
-      title: 'Update documentation',
-      priority: 'medium',
-      status: 'pending',
-      dueDate: nextWeek,
-      createdAt: new Date(now.getTime() - 5 * 24 * 60 * 60 * 1000),
-      updatedAt: new Date(now.getTime() - 24 * 60 * 60 * 1000),
-      tags: ['documentation'],
-    },
-    {
-      id: '4',
-      title: 'Schedule team standup',
-      priority: 'low',
-      status: 'completed',
-      completedAt: new Date(now.getTime() - 2 * 60 * 60 * 1000),
-      createdAt: new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000),
-      updatedAt: new Date(now.getTime() - 2 * 60 * 60 * 1000),
-    },
-    {
-      id: '5',
-      title: 'Fix critical bug',
-      description: 'Address the authentication issue in production',
-      priority: 'urgent',
-      status: 'pending',
-      dueDate: yesterday,
-      createdAt: new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000),
-      updatedAt: new Date(now.getTime() - 1 * 60 * 60 * 1000),
-      tags: ['bug', 'critical'],
-    },
-    {
-      id: '6',
-      title: 'Prepare presentation slides',
-      priority: 'high',
-      status: 'pending',
-      dueDate: new Date(now.getTime() + 3 * 24 * 60 * 60 * 1000),
-      createdAt: new Date(now.getTime() - 1 * 24 * 60 * 60 * 1000),
-      updatedAt: new Date(now.getTime() - 1 * 24 * 60 * 60 * 1000),
-      tags: ['presentation', 'work'],
-    },
-    {
-      id: '7',
-      title: 'Buy groceries',
-      priority: 'low',
-      status: 'pending',
-      dueDate: tomorrow,
-      createdAt: new Date(now.getTime() - 1 * 60 * 60 * 1000),
-      updatedAt: new Date(now.getTime() - 1 * 60 * 60 * 1000),
-      tags: ['personal'],
-    },
-  ]
-}
+import { useState, useMemo, useRef } from 'react'
+import { Task, TaskInput, TaskStatus } from '@/types/task'
+import { TaskFilterStatus, TaskGroupBy, TaskLayout } from '@/types/view'
+import {
+  TaskListDisplay,
+  TaskDetailModal,
+  TaskForm,
+  QuickAddBar,
+  ListSidebar,
+  DeleteListMode,
+  StorageErrorBanner,
+  ExportDialog,
+  ImportDialog,
+  UndoToast,
+  SavedViewsSidebar,
+  TaskBoard,
+  TaskCalendar,
+  BatchActionBar,
+  CommandPalette,
+  PaletteCommand,
+  ShortcutHelp,
+  TagManager,
+  SortControls,
+} from '@/components'
+import { useTaskList } from '@/hooks/useTaskList'
+import { useTaskLists } from '@/hooks/useTaskLists'
+import { useReminders } from '@/hooks/useReminders'
+import { useUndoShortcuts } from '@/hooks/useUndoShortcuts'
+import { useSavedViews } from '@/hooks/useSavedViews'
+import { useViewRoute } from '@/hooks/useViewRoute'
+import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts'
+import { useTags } from '@/hooks/useTags'
+import { useCollapsedGroups } from '@/hooks/useCollapsedGroups'
+import { countOpenSubtasks } from '@/utils/subtask'
+import { INBOX_LIST_ID, getTaskListId } from '@/utils/list'
+import { buildSearchIndex, getHighlightTerms } from '@/utils/search'
+import { TaskGroupChanges, getGroupId, groupTasksBy } from '@/utils/grouping'
+import { sortTasks } from '@/utils/sort'
+import { PRIORITY_ALIASES } from '@/utils/parseQuickEntry'
+import { resolveTagName } from '@/utils/tag'
+import { TaskBatchEdit } from '@/store'
+import { applyViewFilters, getAllTags, matchesStatusFilter } from '@/utils/view'
 
 /**
  * Home Page
  * Demonstrates the TaskListDisplay component with various configurations
- * Tasks are persisted to localStorage and will be restored on page refresh
+ * Tasks come from the shared task store and are restored on page refresh
+ * The list or view, filters and open task are kept in the URL (see useViewRoute)
  */
 export default function Home() {
-  const [tasks, setTasks] = useLocalStorage('nimbustodo_tasks', generateSampleTasks())
-  const [filterStatus, setFilterStatus] = useState<Task['status'] | 'all'>('all')
-  const [sortBy, setSortBy] = useState<'priority' | 'dueDate' | 'createdAt'>('priority')
-  const [groupBy, setGroupBy] = useState<'status' | 'priority' | 'none'>('status')
-  const [selectedTask, setSelectedTask] = useState<Task | null>(null)
-  const [isModalOpen, setIsModalOpen] = useState(false)
+  const {
+    tasks,
+    storage: tasksStorage,
+    addTask,
+    addTasks,
+    updateTask,
+    deleteTask,
+    deleteTasks,
+    updateTasks,
+    updateTaskStatus,
+    reorderTasks,
+    replaceTags,
+    removeList,
+    ...history
+  } = useTaskList()
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  // Ids of the tasks selected for batch actions, or null outside checkbox mode
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null)
+  // Task highlighted with j/k, which x, e and # act on
+  const [activeTaskId, setActiveTaskId] = useState<string | null>(null)
+  // Task whose priority the next 1–4 key sets, after "#"
+  const [priorityTaskId, setPriorityTaskId] = useState<string | null>(null)
+  // Commands offered by the open command palette, or null when it's closed
+  const [paletteCommands, setPaletteCommands] = useState<PaletteCommand[] | null>(null)
+  const [isHelpOpen, setIsHelpOpen] = useState(false)
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false)
+  const quickAddRef = useRef<HTMLInputElement>(null)
+  const searchRef = useRef<HTMLInputElement>(null)
+  const { lists, addList, deleteList, storage: listsStorage } = useTaskLists()
+  const { views, addView, deleteView, storage: viewsStorage } = useSavedViews()
+  const {
+    tags: tagSummaries,
+    tagNames,
+    tagColors,
+    setTagColor,
+    renameTags,
+    deleteTag,
+    storage: tagsStorage,
+  } = useTags(tasks)
+  const { collapsedGroups, toggleGroup, storage: collapsedStorage } = useCollapsedGroups()
+  const {
+    settings,
+    activeViewId,
+    activeView,
+    taskId: selectedTaskId,
+    updateSettings,
+    selectList,
+    selectView,
+    openTask,
+    closeTask,
+  } = useViewRoute(views)
+  const reminders = useReminders(tasks)
+  useUndoShortcuts(history.undo, history.redo)
+
+  const { filterStatus, sort, groupBy, query: searchQuery, layout = 'list' } = settings
+  const selectedTask = tasks.find(task => task.id === selectedTaskId) || null
+  const selectedList = settings.listId ? lists.find(list => list.id === settings.listId) : undefined
+  const searchIndex = useMemo(() => buildSearchIndex(tasks), [tasks])
+  const visibleTasks = useMemo(
+    () => applyViewFilters(tasks, settings, { index: searchIndex, lists }),
+    [tasks, settings, searchIndex, lists]
+  )
+  const highlightTerms = useMemo(() => getHighlightTerms(searchQuery), [searchQuery])
+  const allTags = useMemo(() => getAllTags(tasks), [tasks])
+  // The tasks currently on screen, offered as an export option
+  const viewTasks = useMemo(
+    () => visibleTasks.filter(task => matchesStatusFilter(task, filterStatus)),
+    [visibleTasks, filterStatus]
+  )
+  // Tasks in the order the list shows them, for j/k (collapsed groups are skipped)
+  const orderedTasks = useMemo(
+    () => [
+      ...new Set(
+        groupTasksBy(sortTasks(viewTasks, sort), groupBy, { lists })
+          .filter(g => groupBy === 'none' || !collapsedGroups.has(getGroupId(groupBy, g.key)))
+          .flatMap(g => g.tasks)
+      ),
+    ],
+    [viewTasks, sort, groupBy, lists, collapsedGroups]
+  )
+  const activeTask =
+    layout === 'list' ? orderedTasks.find(task => task.id === activeTaskId) : undefined
+  // Picking ends when its task leaves the list (filtered out, deleted or another layout)
+  const isPickingPriority = !!activeTask && priorityTaskId === activeTask.id
+  // Only selected tasks still on screen are affected by batch actions
+  const selectedTasks = selectedIds ? viewTasks.filter(task => selectedIds.has(task.id)) : []
+
+  // Count matching tasks per view for the sidebar
+  const viewCounts = useMemo(() => {
+    const counts: Record<string, number> = {}
+    views.forEach(view => {
+      counts[view.id] = applyViewFilters(tasks, view, { index: searchIndex, lists }).filter(task =>
+        matchesStatusFilter(task, view.filterStatus)
+      ).length
+    })
+    return counts
+  }, [views, tasks, searchIndex, lists])
+
+  // Count open tasks per list for the sidebar
+  const taskCounts = useMemo(() => {
+    const counts: Record<string, number> = {}
+    tasks.forEach(task => {
+      if (task.status === 'pending') {
+        const listId = getTaskListId(task)
+        counts[listId] = (counts[listId] || 0) + 1
+      }
+    })
+    return counts
+  }, [tasks])
+
+  const toggleTagFilter = (tag: string) => {
+    updateSettings({
+      tags: settings.tags.includes(tag)
+        ? settings.tags.filter(t => t !== tag)
+        : [...settings.tags, tag],
+    })
+  }
+
+  const handleSaveView = (name: string) => {
+    const view = addView(name, settings)
+    selectView(view.id)
+  }
+
+  const handleDeleteView = (viewId: string) => {
+    deleteView(viewId)
+    if (activeViewId === viewId) {
+      selectList(INBOX_LIST_ID)
+    }
+  }
+
+  const handleAddTask = (input: TaskInput) => {
+    // Quick-add tags take the spelling of existing tags that only differ in case
+    const tags = input.tags && [...new Set(input.tags.map(tag => resolveTagName(tag, tagNames)))]
+    addTask({ ...input, tags, listId: input.listId || settings.listId || INBOX_LIST_ID })
+  }
+
+  const handleRenameTags = (from: string[], to: string) => {
+    replaceTags(from, to, renameTags(from, to))
+    if (settings.tags.some(tag => from.includes(tag))) {
+      updateSettings({
+        tags: [...new Set(settings.tags.map(tag => (from.includes(tag) ? to : tag)))],
+      })
+    }
+  }
+
+  const handleDeleteTag = (name: string) => {
+    replaceTags([name], null, deleteTag(name))
+    if (settings.tags.includes(name)) {
+      updateSettings({ tags: settings.tags.filter(tag => tag !== name) })
+    }
+  }
+
+  const handleDeleteList = (listId: string, mode: DeleteListMode) => {
+    removeList(listId, mode === 'move' ? INBOX_LIST_ID : null)
+    deleteList(listId)
+    if (settings.listId === listId) {
+      selectList(INBOX_LIST_ID)
+    }
+  }
+
+  const handleFormSubmit = (input: TaskInput) => {
+    handleAddTask(input)
+    setIsFormOpen(false)
+  }
 
   const handleStatusChange = (taskId: string, newStatus: TaskStatus) => {
-    setTasks(prevTasks =>
-      prevTasks.map(task =>
-        task.id === taskId
-          ? {
-              ...task,
-              status: newStatus,
-              completedAt: newStatus === 'completed' ? new Date() : null,
-            }
-          : task
+    const task = tasks.find(t => t.id === taskId)
+    if (!task) return
+
+    const openSubtasks = countOpenSubtasks(task)
+    const shouldCompleteSubtasks =
+      newStatus === 'completed' &&
+      openSubtasks > 0 &&
+      confirm(
+        `This task has ${openSubtasks} open subtask${openSubtasks === 1 ? '' : 's'}. Complete ${openSubtasks === 1 ? 'it' : 'them'} too?`
       )
+
+    updateTaskStatus(taskId, newStatus, { completeSubtasks: shouldCompleteSubtasks })
+  }
+
+  // Status changes go through handleStatusChange so subtasks and repeats are handled
+  const handleMoveTask = (taskId: string, { status, ...changes }: TaskGroupChanges) => {
+    if (status) {
+      handleStatusChange(taskId, status)
+    } else {
+      updateTask(taskId, changes)
+    }
+  }
+
+  const handleBatchApply = (edit: TaskBatchEdit) => {
+    updateTasks(
+      selectedTasks.map(task => task.id),
+      edit
     )
   }
 
-  const handleDelete = (taskId: string) => {
-    setTasks(prevTasks => prevTasks.filter(task => task.id !== taskId))
+  const handleBatchDelete = () => {
+    deleteTasks(selectedTasks.map(task => task.id))
+    setSelectedIds(new Set())
   }
 
-  const handleTaskClick = (task: Task) => {
-    setSelectedTask(task)
-    setIsModalOpen(true)
+  const handleDelete = (taskId: string) => {
+    deleteTask(taskId)
   }
 
-  const handleModalClose = () => {
-    setIsModalOpen(false)
-    setSelectedTask(null)
+  const handleTaskClick = (task: Task) => {
+    setActiveTaskId(task.id)
+    setPriorityTaskId(null)
+    openTask(task.id)
   }
 
+  // The open task comes from the URL, so saved changes show up without extra state
   const handleModalSave = (updatedTask: Task) => {
-    setTasks(prevTasks =>
-      prevTasks.map(task => (task.id === updatedTask.id ? updatedTask : task))
-    )
-    setSelectedTask(updatedTask)
+    updateTask(updatedTask.id, updatedTask)
   }
 
   const handleModalDelete = (taskId: string) => {
     handleDelete(taskId)
-    handleModalClose()
+    closeTask()
+  }
+
+  const focusQuickAdd = () => quickAddRef.current?.focus()
+  const focusSearch = () => searchRef.current?.focus()
+
+  /**
+   * Move the keyboard highlight through the list; starts at either end
+   */
+  const moveActiveTask = (step: number) => {
+    if (layout !== 'list' || orderedTasks.length === 0) return
+    const index = activeTask ? orderedTasks.indexOf(activeTask) : -1
+    const next =
+      index === -1
+        ? step > 0
+          ? 0
+          : orderedTasks.length - 1
+        : Math.max(0, Math.min(index + step, orderedTasks.length - 1))
+    setActiveTaskId(orderedTasks[next].id)
+    setPriorityTaskId(null)
   }
 
-  const handleModalStatusChange = (taskId: string, newStatus: TaskStatus) => {
-    handleStatusChange(taskId, newStatus)
-    // Update selected task if it's the one being modified
-    if (selectedTask?.id === taskId) {
-      setSelectedTask(prev => (prev ? { ...prev, status: newStatus } : null))
+  const setActivePriority = (key: string) => {
+    setPriorityTaskId(null)
+    if (activeTask) updateTask(activeTask.id, { priority: PRIORITY_ALIASES[key] })
+  }
+
+  /**
+   * Everything the command palette can do: actions, then views, lists and tasks
+   * Built when the palette opens; the page can't change underneath it while it's open
+   */
+  const getPaletteCommands = (): PaletteCommand[] => {
+    const actions: [string, () => void][] = [
+      ['New task', focusQuickAdd],
+      ['Search tasks', focusSearch],
+      ['Show as list', () => updateSettings({ layout: 'list' })],
+      ['Show as board', () => updateSettings({ layout: 'board' })],
+      ['Show month calendar', () => updateSettings({ layout: 'month' })],
+      ['Show week calendar', () => updateSettings({ layout: 'week' })],
+      [
+        'Select tasks',
+        () => {
+          updateSettings({ layout: 'list' })
+          setSelectedIds(new Set())
+        },
+      ],
+      ['Import tasks', () => setIsImportOpen(true)],
+      ['Export tasks', () => setIsExportOpen(true)],
+      ['Manage tags', () => setIsTagManagerOpen(true)],
+      ['Keyboard shortcuts', () => setIsHelpOpen(true)],
+    ]
+    if (history.canUndo) {
+      actions.push([history.undoLabel ? `Undo: ${history.undoLabel}` : 'Undo', history.undo])
+    }
+    if (history.canRedo) {
+      actions.push([history.redoLabel ? `Redo: ${history.redoLabel}` : 'Redo', history.redo])
     }
+
+    return [
+      ...actions.map(([label, run]) => ({ id: `action-${label}`, label, group: 'Action', run })),
+      ...views.map(view => ({
+        id: `view-${view.id}`,
+        label: `${view.icon} ${view.name}`,
+        group: 'View',
+        run: () => selectView(view.id),
+      })),
+      ...lists.map(list => ({
+        id: `list-${list.id}`,
+        label: `${list.icon} ${list.name}`,
+        group: 'List',
+        run: () => selectList(list.id),
+      })),
+      ...tagNames.map(tag => ({
+        id: `tag-${tag}`,
+        label: `#${tag}`,
+        group: settings.tags.includes(tag) ? 'Remove tag filter' : 'Filter by tag',
+        run: () => toggleTagFilter(tag),
+      })),
+      ...tasks
+        .filter(task => task.status !== 'archived')
+        .map(task => ({
+          id: `task-${task.id}`,
+          label: task.title,
+          group: 'Task',
+          run: () => openTask(task.id),
+        })),
+    ]
   }
 
+  const isDialogOpen =
+    !!selectedTask ||
+    isImportOpen ||
+    isExportOpen ||
+    !!paletteCommands ||
+    isHelpOpen ||
+    isTagManagerOpen
+
+  useKeyboardShortcuts(
+    {
+      j: () => moveActiveTask(1),
+      k: () => moveActiveTask(-1),
+      x: () => {
+        if (!activeTask) return
+        handleStatusChange(
+          activeTask.id,
+          activeTask.status === 'completed' ? 'pending' : 'completed'
+        )
+      },
+      e: () => activeTask && openTask(activeTask.id),
+      n: focusQuickAdd,
+      '/': focusSearch,
+      '#': () => activeTask && setPriorityTaskId(activeTask.id),
+      ...(isPickingPriority && {
+        '1': () => setActivePriority('1'),
+        '2': () => setActivePriority('2'),
+        '3': () => setActivePriority('3'),
+        '4': () => setActivePriority('4'),
+        Escape: () => setPriorityTaskId(null),
+        // Any other key cancels rather than waiting for a priority
+        '*': () => setPriorityTaskId(null),
+      }),
+      '?': () => setIsHelpOpen(true),
+      'mod+k': () => setPaletteCommands(getPaletteCommands()),
+    },
+    !isDialogOpen
+  )
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-950 dark:to-gray-900 px-4 py-8 sm:px-6 lg:px-8">
-      <div className="mx-auto max-w-4xl">
+      <div className="mx-auto max-w-6xl">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-4xl font-bold text-gray-900 dark:text-white">NimbusTodo</h1>
-          <p className="mt-2 text-lg text-gray-600 dark:text-gray-400">Your tasks at a glance</p>
-        </div>
-
-        {/* Controls */}
-        <div className="mb-8 grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-          {/* Filter Control */}
+        <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-              Filter by Status
-            </label>
-            <select
-              value={filterStatus}
-              onChange={e => setFilterStatus(e.target.value as Task['status'] | 'all')}
-              className="mt-2 block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white"
-            >
-              <option value="all">All Active</option>
-              <option value="pending">Pending</option>
-              <option value="completed">Completed</option>
-              <option value="archived">Archived</option>
-            </select>
+            <h1 className="text-4xl font-bold text-gray-900 dark:text-white">NimbusTodo</h1>
+            <p className="mt-2 text-lg text-gray-600 dark:text-gray-400">
+              {activeView
+                ? `${activeView.icon} ${activeView.name}`
+                : selectedList
+                  ? `${selectedList.icon} ${selectedList.name}`
+                  : 'All lists'}
+            </p>
           </div>
-
-          {/* Sort Control */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-              Sort by
-            </label>
-            <select
-              value={sortBy}
-              onChange={e => setSortBy(e.target.value as 'priority' | 'dueDate' | 'createdAt')}
-              className="mt-2 block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+          <div className="flex flex-wrap gap-2">
+            {reminders.isSupported && reminders.permission === 'default' && (
+              <button
+                onClick={reminders.requestPermission}
+                className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+              >
+                Enable reminders
+              </button>
+            )}
+            <button
+              onClick={history.undo}
+              disabled={!history.canUndo}
+              title={history.undoLabel ? `Undo: ${history.undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
             >
-              <option value="priority">Priority</option>
-              <option value="dueDate">Due Date</option>
-              <option value="createdAt">Recently Created</option>
-            </select>
-          </div>
-
-          {/* Group Control */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-              Group by
-            </label>
-            <select
-              value={groupBy}
-              onChange={e => setGroupBy(e.target.value as 'status' | 'priority' | 'none')}
-              className="mt-2 block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+              Undo
+            </button>
+            <button
+              onClick={history.redo}
+              disabled={!history.canRedo}
+              title={
+                history.redoLabel
+                  ? `Redo: ${history.redoLabel} (Ctrl+Shift+Z)`
+                  : 'Redo (Ctrl+Shift+Z)'
+              }
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+            >
+              Redo
+            </button>
+            <button
+              onClick={() => setIsImportOpen(true)}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+            >
+              Import
+            </button>
+            <button
+              onClick={() => setIsExportOpen(true)}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+            >
+              Export
+            </button>
+            <button
+              onClick={() => setIsTagManagerOpen(true)}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
             >
-              <option value="status">Status</option>
-              <option value="priority">Priority</option>
-              <option value="none">None</option>
-            </select>
+              Tags
+            </button>
+            <button
+              onClick={() => setIsHelpOpen(true)}
+              title="Keyboard shortcuts (?)"
+              aria-label="Keyboard shortcuts"
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+            >
+              ?
+            </button>
           </div>
         </div>
 
-        {/* Task Statistics */}
-        <div className="mb-8 grid gap-4 sm:grid-cols-3">
-          <div className="rounded-lg bg-white p-4 shadow-sm dark:bg-gray-800">
-            <p className="text-sm text-gray-600 dark:text-gray-400">Total Tasks</p>
-            <p className="mt-1 text-2xl font-bold text-gray-900 dark:text-white">{tasks.length}</p>
-          </div>
-          <div className="rounded-lg bg-white p-4 shadow-sm dark:bg-gray-800">
-            <p className="text-sm text-gray-600 dark:text-gray-400">Pending</p>
-            <p className="mt-1 text-2xl font-bold text-blue-600 dark:text-blue-400">
-              {tasks.filter(t => t.status === 'pending').length}
-            </p>
-          </div>
-          <div className="rounded-lg bg-white p-4 shadow-sm dark:bg-gray-800">
-            <p className="text-sm text-gray-600 dark:text-gray-400">Completed</p>
-            <p className="mt-1 text-2xl font-bold text-green-600 dark:text-green-400">
-              {tasks.filter(t => t.status === 'completed').length}
-            </p>
-          </div>
-        </div>
+        <StorageErrorBanner error={tasksStorage.error} onDismiss={tasksStorage.dismissError} />
+        <StorageErrorBanner error={listsStorage.error} onDismiss={listsStorage.dismissError} />
+        <StorageErrorBanner
+          error={reminders.storage.error}
+          onDismiss={reminders.storage.dismissError}
+        />
+        <StorageErrorBanner error={viewsStorage.error} onDismiss={viewsStorage.dismissError} />
+        <StorageErrorBanner error={tagsStorage.error} onDismiss={tagsStorage.dismissError} />
+        <StorageErrorBanner
+          error={collapsedStorage.error}
+          onDismiss={collapsedStorage.dismissError}
+        />
 
-        {/* Task List Display */}
-        <div className="rounded-lg bg-white p-6 shadow-lg dark:bg-gray-800">
-          <TaskListDisplay
-            tasks={tasks}
-            filterStatus={filterStatus}
-            sortBy={sortBy}
-            groupBy={groupBy}
-            onTaskClick={handleTaskClick}
-            onStatusChange={handleStatusChange}
-            onDelete={handleDelete}
-            emptyMessage="No tasks to display. Create one to get started!"
-          />
+        <div className="grid gap-8 lg:grid-cols-[16rem_minmax(0,1fr)]">
+          {/* Lists and Views */}
+          <aside className="space-y-4">
+            <ListSidebar
+              lists={lists}
+              selectedListId={activeViewId ? '' : settings.listId || ''}
+              taskCounts={taskCounts}
+              onSelectList={selectList}
+              onAddList={addList}
+              onDeleteList={handleDeleteList}
+            />
+            <SavedViewsSidebar
+              views={views}
+              activeViewId={activeViewId}
+              viewCounts={viewCounts}
+              onSelectView={view => selectView(view.id)}
+              onSaveView={handleSaveView}
+              onDeleteView={handleDeleteView}
+            />
+          </aside>
+
+          <main>
+            {/* Create Task */}
+            <div className="mb-8 space-y-4">
+              <QuickAddBar
+                onAdd={handleAddTask}
+                lists={lists}
+                isExpanded={isFormOpen}
+                onToggleExpand={() => setIsFormOpen(open => !open)}
+                inputRef={quickAddRef}
+              />
+              {isFormOpen && (
+                <TaskForm
+                  onSubmit={handleFormSubmit}
+                  onCancel={() => setIsFormOpen(false)}
+                  knownTags={tagNames}
+                  tagColors={tagColors}
+                />
+              )}
+            </div>
+
+            {/* Search */}
+            <div className="mb-4">
+              <input
+                ref={searchRef}
+                type="search"
+                value={searchQuery}
+                onChange={e => updateSettings({ query: e.target.value }, { replace: true })}
+                placeholder='Search, e.g. report tag:work -status:completed due:<2026-11-01 "weekly sync"'
+                aria-label="Search tasks"
+                aria-describedby="search-help"
+                className="block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+              />
+              <p id="search-help" className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Filters: tag:, priority:, status:, due: (today, overdue, none, &lt;YYYY-MM-DD),
+                list:. Use "quotes" for phrases and - to exclude.
+              </p>
+            </div>
+
+            {/* Controls */}
+            <div className="mb-8 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {/* Filter Control */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Filter by Status
+                </label>
+                <select
+                  value={filterStatus}
+                  onChange={e =>
+                    updateSettings({ filterStatus: e.target.value as TaskFilterStatus })
+                  }
+                  className="mt-2 block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+                >
+                  <option value="all">All Active</option>
+                  <option value="pending">Pending</option>
+                  <option value="completed">Completed</option>
+                  <option value="archived">Archived</option>
+                </select>
+              </div>
+
+              {/* Sort Control */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Sort by
+                </label>
+                <SortControls sort={sort} onChange={next => updateSettings({ sort: next })} />
+              </div>
+
+              {/* Group Control */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Group by
+                </label>
+                <select
+                  value={groupBy}
+                  onChange={e => updateSettings({ groupBy: e.target.value as TaskGroupBy })}
+                  className="mt-2 block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+                >
+                  <option value="status">Status</option>
+                  <option value="priority">Priority</option>
+                  <option value="list">List</option>
+                  <option value="tag">Tag</option>
+                  <option value="due">Due date</option>
+                  <option value="none">None</option>
+                </select>
+              </div>
+
+              {/* Layout Control */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Layout
+                </label>
+                <select
+                  value={layout}
+                  onChange={e => updateSettings({ layout: e.target.value as TaskLayout })}
+                  className="mt-2 block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+                >
+                  <option value="list">List</option>
+                  <option value="board">Board</option>
+                  <option value="month">Calendar (month)</option>
+                  <option value="week">Calendar (week)</option>
+                </select>
+              </div>
+            </div>
+
+            {/* Tag Filter */}
+            {allTags.length > 0 && (
+              <div
+                className="-mt-4 mb-8 flex flex-wrap items-center gap-2"
+                role="group"
+                aria-label="Filter by tag"
+              >
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Tags</span>
+                {allTags.map(tag => {
+                  const isSelected = settings.tags.includes(tag)
+                  return (
+                    <button
+                      key={tag}
+                      type="button"
+                      onClick={() => toggleTagFilter(tag)}
+                      aria-pressed={isSelected}
+                      className={`rounded-full px-3 py-1 text-sm font-medium transition-colors ${
+                        isSelected
+                          ? 'bg-blue-600 text-white dark:bg-blue-700'
+                          : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      #{tag}
+                    </button>
+                  )
+                })}
+              </div>
+            )}
+
+            {/* Task Statistics */}
+            <div className="mb-8 grid gap-4 sm:grid-cols-3">
+              <div className="rounded-lg bg-white p-4 shadow-sm dark:bg-gray-800">
+                <p className="text-sm text-gray-600 dark:text-gray-400">Total Tasks</p>
+                <p className="mt-1 text-2xl font-bold text-gray-900 dark:text-white">
+                  {visibleTasks.length}
+                </p>
+              </div>
+              <div className="rounded-lg bg-white p-4 shadow-sm dark:bg-gray-800">
+                <p className="text-sm text-gray-600 dark:text-gray-400">Pending</p>
+                <p className="mt-1 text-2xl font-bold text-blue-600 dark:text-blue-400">
+                  {visibleTasks.filter(t => t.status === 'pending').length}
+                </p>
+              </div>
+              <div className="rounded-lg bg-white p-4 shadow-sm dark:bg-gray-800">
+                <p className="text-sm text-gray-600 dark:text-gray-400">Completed</p>
+                <p className="mt-1 text-2xl font-bold text-green-600 dark:text-green-400">
+                  {visibleTasks.filter(t => t.status === 'completed').length}
+                </p>
+              </div>
+            </div>
+
+            {/* Task List Display */}
+            <div className="rounded-lg bg-white p-6 shadow-lg dark:bg-gray-800">
+              {layout === 'list' && tasksStorage.status !== 'loading' && (
+                <>
+                  <div className="mb-4 flex justify-end">
+                    <button
+                      onClick={() => setSelectedIds(selectedIds ? null : new Set())}
+                      aria-pressed={!!selectedIds}
+                      className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+                    >
+                      {selectedIds ? 'Done selecting' : 'Select tasks'}
+                    </button>
+                  </div>
+                  {selectedIds && (
+                    <BatchActionBar
+                      count={selectedTasks.length}
+                      total={viewTasks.length}
+                      lists={lists}
+                      tags={getAllTags(selectedTasks)}
+                      onApply={handleBatchApply}
+                      onDelete={handleBatchDelete}
+                      onSelectAll={() => setSelectedIds(new Set(viewTasks.map(task => task.id)))}
+                      onClearSelection={() => setSelectedIds(new Set())}
+                    />
+                  )}
+                </>
+              )}
+              {tasksStorage.status === 'loading' ? (
+                <p className="py-12 text-center text-sm text-gray-600 dark:text-gray-400">
+                  Loading tasks...
+                </p>
+              ) : layout === 'month' || layout === 'week' ? (
+                <TaskCalendar
+                  tasks={visibleTasks}
+                  mode={layout}
+                  onModeChange={mode => updateSettings({ layout: mode })}
+                  filterStatus={filterStatus}
+                  onTaskClick={handleTaskClick}
+                  onReschedule={(taskId, dueDate) => updateTask(taskId, { dueDate })}
+                />
+              ) : layout === 'board' ? (
+                <TaskBoard
+                  tasks={visibleTasks}
+                  filterStatus={filterStatus}
+                  sort={sort}
+                  groupBy={groupBy}
+                  lists={lists}
+                  tags={allTags}
+                  onTaskClick={handleTaskClick}
+                  onStatusChange={handleStatusChange}
+                  onDelete={handleDelete}
+                  onMoveTask={handleMoveTask}
+                  highlightTerms={highlightTerms}
+                  tagColors={tagColors}
+                  onTagClick={toggleTagFilter}
+                />
+              ) : (
+                <TaskListDisplay
+                  tasks={visibleTasks}
+                  filterStatus={filterStatus}
+                  sort={sort}
+                  groupBy={groupBy}
+                  lists={lists}
+                  onTaskClick={handleTaskClick}
+                  onStatusChange={handleStatusChange}
+                  onDelete={handleDelete}
+                  emptyMessage={
+                    searchQuery.trim() || settings.tags.length > 0 || settings.smartFilter
+                      ? 'No tasks match this view.'
+                      : 'No tasks to display. Create one to get started!'
+                  }
+                  highlightTerms={highlightTerms}
+                  onReorder={reorderTasks}
+                  selectedIds={selectedIds || undefined}
+                  onSelectionChange={selectedIds ? setSelectedIds : undefined}
+                  activeTaskId={activeTaskId}
+                  tagColors={tagColors}
+                  onTagClick={toggleTagFilter}
+                  collapsedGroups={collapsedGroups}
+                  onToggleCollapse={toggleGroup}
+                />
+              )}
+            </div>
+          </main>
         </div>
 
         {/* Task Detail Modal */}
         <TaskDetailModal
           task={selectedTask}
-          isOpen={isModalOpen}
-          onClose={handleModalClose}
+          isOpen={!!selectedTask}
+          onClose={closeTask}
           onSave={handleModalSave}
           onDelete={handleModalDelete}
-          onStatusChange={handleModalStatusChange}
+          onStatusChange={handleStatusChange}
+          lists={lists}
+          knownTags={tagNames}
+          tagColors={tagColors}
         />
+
+        {history.undoToast && (
+          <UndoToast
+            key={history.undoToast.id}
+            message={history.undoToast.message}
+            onUndo={history.undo}
+            onDismiss={history.dismissUndoToast}
+          />
+        )}
+
+        {isImportOpen && (
+          <ImportDialog
+            existingTasks={tasks}
+            lists={lists}
+            onImport={addTasks}
+            onClose={() => setIsImportOpen(false)}
+          />
+        )}
+        {isExportOpen && (
+          <ExportDialog
+            tasks={tasks}
+            viewTasks={viewTasks}
+            onClose={() => setIsExportOpen(false)}
+          />
+        )}
+        {paletteCommands && (
+          <CommandPalette commands={paletteCommands} onClose={() => setPaletteCommands(null)} />
+        )}
+        {isHelpOpen && <ShortcutHelp onClose={() => setIsHelpOpen(false)} />}
+        {isTagManagerOpen && (
+          <TagManager
+            tags={tagSummaries}
+            onColorChange={setTagColor}
+            onRename={handleRenameTags}
+            onDelete={handleDeleteTag}
+            onClose={() => setIsTagManagerOpen(false)}
+          />
+        )}
+
+        <div aria-live="polite" className="sr-only">
+          {isPickingPriority && activeTask
+            ? `Set priority of “${activeTask.title}”: press 1 for urgent, 2 high, 3 medium or 4 low.`
+            : ''}
+        </div>
+        {isPickingPriority && activeTask && (
+          <div
+            className="fixed bottom-6 left-6 z-50 rounded-lg bg-gray-900 px-4 py-3 text-sm text-white shadow-lg dark:bg-gray-700"
+            aria-hidden="true"
+          >
+            Priority: 1 urgent · 2 high · 3 medium · 4 low · Esc to cancel
+          </div>
+        )}
       </div>
     </div>
   )
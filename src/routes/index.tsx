@@ -52,8 +52,17 @@ export const router = createBrowserRouter(
       element: <App />,
       children: [
         {
-          index: true,
+          // Home reads the list, view and task from these child routes, so it stays
+          // mounted while navigating between them
           element: <Home />,
+          children: [
+            { index: true },
+            { path: 'task/:taskId' },
+            { path: 'list/:listId' },
+            { path: 'list/:listId/task/:taskId' },
+            { path: 'view/:viewId' },
+            { path: 'view/:viewId/task/:taskId' },
+          ],
         },
       ],
     },
@@ -0,0 +1,46 @@
+import { StorageBackend } from '../types'
+import { toStorageError } from '../errors'
+import { KEY_VALUE_STORE, openDatabase, promisifyRequest, promisifyTransaction } from '../indexedDb'
+
+/**
+ * Create a key-value backend on top of IndexedDB
+ * Offers far more space than localStorage for large collections
+ */
+export function createIndexedDbBackend(): StorageBackend {
+  return {
+    name: 'IndexedDB',
+
+    async getItem(key) {
+      try {
+        const db = await openDatabase()
+        const store = db.transaction(KEY_VALUE_STORE, 'readonly').objectStore(KEY_VALUE_STORE)
+        const value = await promisifyRequest(store.get(key))
+        return typeof value === 'string' ? value : null
+      } catch (error) {
+        throw toStorageError(error, key)
+      }
+    },
+
+    async setItem(key, value) {
+      try {
+        const db = await openDatabase()
+        const transaction = db.transaction(KEY_VALUE_STORE, 'readwrite')
+        transaction.objectStore(KEY_VALUE_STORE).put(value, key)
+        await promisifyTransaction(transaction)
+      } catch (error) {
+        throw toStorageError(error, key)
+      }
+    },
+
+    async removeItem(key) {
+      try {
+        const db = await openDatabase()
+        const transaction = db.transaction(KEY_VALUE_STORE, 'readwrite')
+        transaction.objectStore(KEY_VALUE_STORE).delete(key)
+        await promisifyTransaction(transaction)
+      } catch (error) {
+        throw toStorageError(error, key)
+      }
+    },
+  }
+}
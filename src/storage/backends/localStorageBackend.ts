@@ -0,0 +1,44 @@
+import { StorageBackend } from '../types'
+import { StorageError, toStorageError } from '../errors'
+
+/**
+ * Create a backend on top of window.localStorage
+ * Changes from other tabs are delivered through the window "storage" event
+ */
+export function createLocalStorageBackend(storage: Storage = window.localStorage): StorageBackend {
+  return {
+    name: 'localStorage',
+
+    async getItem(key) {
+      try {
+        return storage.getItem(key)
+      } catch (error) {
+        throw new StorageError('unavailable', key, 'Browser storage is not available.', {
+          cause: error,
+        })
+      }
+    },
+
+    async setItem(key, value) {
+      try {
+        storage.setItem(key, value)
+      } catch (error) {
+        throw toStorageError(error, key)
+      }
+    },
+
+    async removeItem(key) {
+      storage.removeItem(key)
+    },
+
+    subscribe(key, listener) {
+      const handleStorageChange = (e: StorageEvent) => {
+        if (e.storageArea === storage && e.key === key) {
+          listener(e.newValue)
+        }
+      }
+      window.addEventListener('storage', handleStorageChange)
+      return () => window.removeEventListener('storage', handleStorageChange)
+    },
+  }
+}
@@ -0,0 +1,25 @@
+import { StorageBackend } from '../types'
+
+/**
+ * Create an in-memory backend
+ * Useful for tests and environments without browser storage; nothing is persisted
+ */
+export function createMemoryBackend(initial: Record<string, string> = {}): StorageBackend {
+  const items = new Map(Object.entries(initial))
+
+  return {
+    name: 'memory',
+
+    async getItem(key) {
+      return items.has(key) ? (items.get(key) as string) : null
+    },
+
+    async setItem(key, value) {
+      items.set(key, value)
+    },
+
+    async removeItem(key) {
+      items.delete(key)
+    },
+  }
+}
@@ -0,0 +1,117 @@
+import { CollectionSchema, StorageBackend, StoredEnvelope } from './types'
+import { StorageError, toStorageError } from './errors'
+
+/**
+ * Result of decoding a stored collection
+ */
+export interface DecodedCollection<T> {
+  value: T
+  /** Whether the stored data was upgraded and should be written back */
+  migrated: boolean
+}
+
+/**
+ * Check whether parsed JSON is a versioned envelope
+ */
+function isEnvelope(parsed: unknown): parsed is StoredEnvelope {
+  return (
+    !!parsed &&
+    typeof parsed === 'object' &&
+    !Array.isArray(parsed) &&
+    typeof (parsed as StoredEnvelope).version === 'number' &&
+    'data' in parsed
+  )
+}
+
+/**
+ * Decode a raw stored string, running migrations up to the current version
+ */
+export function decodeCollection<T>(
+  schema: CollectionSchema<T>,
+  raw: string
+): DecodedCollection<T> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch (error) {
+    throw new StorageError('parse', schema.key, 'Saved data is corrupted and could not be read.', {
+      cause: error,
+    })
+  }
+
+  // Data written before the storage layer existed has no envelope
+  const envelope: StoredEnvelope = isEnvelope(parsed) ? parsed : { version: 0, data: parsed }
+  if (envelope.version > schema.version) {
+    throw new StorageError(
+      'migration',
+      schema.key,
+      'Saved data was written by a newer version of NimbusTodo. Reload to update.'
+    )
+  }
+
+  let data = envelope.data
+  for (let version = envelope.version; version < schema.version; version++) {
+    const migrate = schema.migrations[version]
+    if (!migrate) {
+      throw new StorageError(
+        'migration',
+        schema.key,
+        `No migration from version ${version} of saved data.`
+      )
+    }
+    try {
+      data = migrate(data)
+    } catch (error) {
+      throw new StorageError('migration', schema.key, 'Saved data could not be upgraded.', {
+        cause: error,
+      })
+    }
+  }
+
+  try {
+    return { value: schema.revive(data), migrated: envelope.version !== schema.version }
+  } catch (error) {
+    throw new StorageError('parse', schema.key, 'Saved data is invalid and could not be read.', {
+      cause: error,
+    })
+  }
+}
+
+/**
+ * Encode a value into a versioned envelope string
+ */
+export function encodeCollection<T>(schema: CollectionSchema<T>, value: T): string {
+  const envelope: StoredEnvelope = { version: schema.version, data: schema.serialize(value) }
+  return JSON.stringify(envelope)
+}
+
+/**
+ * Read and decode a collection, returning null when nothing is stored yet
+ */
+export async function readCollection<T>(
+  backend: StorageBackend,
+  schema: CollectionSchema<T>
+): Promise<DecodedCollection<T> | null> {
+  let raw: string | null
+  try {
+    raw = await backend.getItem(schema.key)
+  } catch (error) {
+    throw toStorageError(error, schema.key)
+  }
+  return raw === null ? null : decodeCollection(schema, raw)
+}
+
+/**
+ * Encode and write a collection
+ */
+export async function writeCollection<T>(
+  backend: StorageBackend,
+  schema: CollectionSchema<T>,
+  value: T
+): Promise<void> {
+  try {
+    await backend.setItem(schema.key, encodeCollection(schema, value))
+  } catch (error) {
+    throw toStorageError(error, schema.key)
+  }
+}
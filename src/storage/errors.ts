@@ -0,0 +1,50 @@
+/**
+ * Kinds of storage failures surfaced to the UI
+ */
+export type StorageErrorKind = 'quota' | 'parse' | 'migration' | 'unavailable' | 'unknown'
+
+/**
+ * Error raised by the storage layer
+ * Carries the storage key and a kind so the UI can explain what went wrong
+ */
+export class StorageError extends Error {
+  readonly kind: StorageErrorKind
+  readonly key: string
+
+  constructor(kind: StorageErrorKind, key: string, message: string, options?: { cause?: unknown }) {
+    super(message)
+    this.name = 'StorageError'
+    this.kind = kind
+    this.key = key
+    if (options?.cause !== undefined) {
+      ;(this as { cause?: unknown }).cause = options.cause
+    }
+  }
+}
+
+/**
+ * Check whether an error thrown by a storage API means the quota was exceeded
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' ||
+      error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+      error.code === 22 ||
+      error.code === 1014)
+  )
+}
+
+/**
+ * Wrap any error in a StorageError, keeping existing StorageErrors as they are
+ */
+export function toStorageError(error: unknown, key: string): StorageError {
+  if (error instanceof StorageError) return error
+  if (isQuotaExceededError(error)) {
+    return new StorageError('quota', key, 'Storage is full. Delete or archive some tasks.', {
+      cause: error,
+    })
+  }
+  const message = error instanceof Error ? error.message : String(error)
+  return new StorageError('unknown', key, message, { cause: error })
+}
@@ -0,0 +1,75 @@
+/**
+ * NimbusTodo Storage Layer
+ *
+ * Persists collections (tasks, lists) through a pluggable async backend:
+ * - localStorage (default in the browser)
+ * - IndexedDB (for large collections)
+ * - in-memory (tests and environments without browser storage)
+ *
+ * Tasks have their own TaskStore: in the browser an IndexedDB object store with one
+ * record per task and indexes on status, priority, dueDate and listId, so saving a
+ * change only writes the tasks that changed.
+ *
+ * Every collection is written as a versioned envelope `{ version, data }` and upgraded
+ * through its schema's migrations when read. Failures are raised as StorageError so the
+ * UI can show them instead of losing changes silently.
+ */
+
+import { StorageBackend } from './types'
+import { createLocalStorageBackend } from './backends/localStorageBackend'
+import { createMemoryBackend } from './backends/memoryBackend'
+import { TaskStore, createCollectionTaskStore } from './taskStore'
+import { createIndexedDbTaskStore } from './indexedDbTaskStore'
+
+export type { StorageBackend, CollectionSchema, Migration, StoredEnvelope } from './types'
+export { StorageError, isQuotaExceededError, toStorageError } from './errors'
+export type { StorageErrorKind } from './errors'
+export { createLocalStorageBackend } from './backends/localStorageBackend'
+export { createIndexedDbBackend } from './backends/indexedDbBackend'
+export { createMemoryBackend } from './backends/memoryBackend'
+export { decodeCollection, encodeCollection, readCollection, writeCollection } from './collection'
+export type { DecodedCollection } from './collection'
+export { serializeTask, serializeTasks, reviveTask, reviveTasks } from './serializer'
+export type { SerializedTask, SerializedRecurrenceRule } from './serializer'
+export {
+  tasksSchema,
+  listsSchema,
+  viewsSchema,
+  tagsSchema,
+  collapsedGroupsSchema,
+  firedRemindersSchema,
+} from './schemas'
+export { diffTasks, rebaseTasks, createCollectionTaskStore, migrateLegacyTasks } from './taskStore'
+export type { TaskStore, TaskChanges, TaskIndex } from './taskStore'
+export { createIndexedDbTaskStore } from './indexedDbTaskStore'
+
+let defaultBackend: StorageBackend | null = null
+let defaultTaskStore: TaskStore | null = null
+
+/**
+ * Get the backend used when none is passed explicitly
+ * localStorage in the browser, in-memory everywhere else
+ */
+export function getDefaultBackend(): StorageBackend {
+  if (!defaultBackend) {
+    defaultBackend =
+      typeof window !== 'undefined' && window.localStorage
+        ? createLocalStorageBackend()
+        : createMemoryBackend()
+  }
+  return defaultBackend
+}
+
+/**
+ * Get the task store used when none is passed explicitly
+ * IndexedDB where available, otherwise the whole collection on the default backend
+ */
+export function getDefaultTaskStore(): TaskStore {
+  if (!defaultTaskStore) {
+    defaultTaskStore =
+      typeof indexedDB !== 'undefined'
+        ? createIndexedDbTaskStore()
+        : createCollectionTaskStore(getDefaultBackend())
+  }
+  return defaultTaskStore
+}
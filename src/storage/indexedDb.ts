@@ -0,0 +1,94 @@
+import { StorageError } from './errors'
+
+/**
+ * Name of the IndexedDB database used by NimbusTodo
+ */
+export const DATABASE_NAME = 'nimbustodo'
+
+/**
+ * Current IndexedDB schema version
+ */
+export const DATABASE_VERSION = 2
+
+/**
+ * Object store holding plain key-value items
+ */
+export const KEY_VALUE_STORE = 'kv'
+
+/**
+ * Object store holding one record per task, keyed by task id
+ */
+export const TASKS_STORE = 'tasks'
+
+/**
+ * Indexes on the tasks object store
+ */
+export const TASK_INDEXES = ['status', 'priority', 'dueDate', 'listId'] as const
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Create or upgrade object stores
+ * Each step upgrades from one version to the next, so databases at any older version
+ * end up with the same layout
+ */
+function upgradeDatabase(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    db.createObjectStore(KEY_VALUE_STORE)
+  }
+  if (oldVersion < 2) {
+    const tasks = db.createObjectStore(TASKS_STORE, { keyPath: 'id' })
+    TASK_INDEXES.forEach(index => tasks.createIndex(index, index))
+  }
+}
+
+/**
+ * Open the shared database connection (opened once and reused)
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) return databasePromise
+
+  databasePromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new StorageError('unavailable', DATABASE_NAME, 'IndexedDB is not available.'))
+      return
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+    request.onupgradeneeded = event => upgradeDatabase(request.result, event.oldVersion)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () =>
+      reject(
+        new StorageError('unavailable', DATABASE_NAME, 'Could not open the task database.', {
+          cause: request.error,
+        })
+      )
+  })
+
+  // Allow a later retry if opening failed
+  databasePromise.catch(() => {
+    databasePromise = null
+  })
+  return databasePromise
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Resolve when a transaction completes
+ */
+export function promisifyTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
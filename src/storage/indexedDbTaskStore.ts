@@ -0,0 +1,92 @@
+import { TaskStore } from './taskStore'
+import { toStorageError } from './errors'
+import { reviveTask, serializeTask } from './serializer'
+import {
+  KEY_VALUE_STORE,
+  TASKS_STORE,
+  openDatabase,
+  promisifyRequest,
+  promisifyTransaction,
+} from './indexedDb'
+
+/**
+ * Key-value entry marking that the tasks store has been written at least once
+ * Distinguishes "no tasks yet" from "the user deleted every task"
+ */
+const INITIALIZED_KEY = 'tasks_initialized'
+
+/**
+ * Channel used to tell other tabs that tasks changed
+ */
+const CHANNEL_NAME = 'nimbustodo_tasks'
+
+/**
+ * Create a task store backed by an IndexedDB object store with one record per task
+ * Only changed tasks are written, and tasks are indexed by status, priority, dueDate
+ * and listId
+ */
+export function createIndexedDbTaskStore(): TaskStore {
+  const channel =
+    typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null
+  // Identifies this store's own messages, which other stores in the same tab also receive
+  const sourceId = Math.random().toString(36).slice(2)
+
+  return {
+    name: 'IndexedDB',
+
+    async loadAll() {
+      try {
+        const db = await openDatabase()
+        const transaction = db.transaction([TASKS_STORE, KEY_VALUE_STORE], 'readonly')
+        const [records, initialized] = await Promise.all([
+          promisifyRequest(transaction.objectStore(TASKS_STORE).getAll()),
+          promisifyRequest(transaction.objectStore(KEY_VALUE_STORE).get(INITIALIZED_KEY)),
+        ])
+        if (!initialized && records.length === 0) return null
+        return records.map(reviveTask)
+      } catch (error) {
+        throw toStorageError(error, TASKS_STORE)
+      }
+    },
+
+    async applyChanges(changes) {
+      if (changes.put.length === 0 && changes.delete.length === 0) return
+
+      try {
+        const db = await openDatabase()
+        const transaction = db.transaction([TASKS_STORE, KEY_VALUE_STORE], 'readwrite')
+        const store = transaction.objectStore(TASKS_STORE)
+        changes.delete.forEach(id => store.delete(id))
+        changes.put.forEach(task => store.put(serializeTask(task)))
+        transaction.objectStore(KEY_VALUE_STORE).put(true, INITIALIZED_KEY)
+        await promisifyTransaction(transaction)
+      } catch (error) {
+        throw toStorageError(error, TASKS_STORE)
+      }
+
+      channel?.postMessage(sourceId)
+    },
+
+    async query(index, value) {
+      try {
+        const db = await openDatabase()
+        const store = db.transaction(TASKS_STORE, 'readonly').objectStore(TASKS_STORE)
+        const records = await promisifyRequest(store.index(index).getAll(value))
+        return records.map(reviveTask)
+      } catch (error) {
+        throw toStorageError(error, TASKS_STORE)
+      }
+    },
+
+    subscribe(listener) {
+      if (typeof BroadcastChannel === 'undefined') return () => {}
+
+      // A separate channel instance is needed to receive messages from other tabs
+      const receiver = new BroadcastChannel(CHANNEL_NAME)
+      receiver.onmessage = event => {
+        if (event.data !== sourceId) listener()
+      }
+      return () => receiver.close()
+    },
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Schema migrations for stored collections
+ * Each migration upgrades data from one version to the next and must never be edited
+ * once released; add a new version instead.
+ */
+
+/**
+ * Tasks v0 -> v1
+ * Before v1, date-only due dates were created with `new Date('YYYY-MM-DD')`, which is
+ * UTC midnight and shows as the previous day west of UTC. From v1 on, date-only due
+ * dates are stored as local midnight.
+ */
+export function migrateTasksV0ToV1(data: unknown): unknown {
+  if (!Array.isArray(data)) {
+    throw new TypeError('Stored tasks are not a list')
+  }
+
+  return data.map(task => {
+    if (!task || typeof task !== 'object' || task.hasDueTime || !task.dueDate) {
+      return task
+    }
+
+    const dueDate = new Date(task.dueDate)
+    if (isNaN(dueDate.getTime())) return task
+
+    const isUtcMidnight =
+      dueDate.getUTCHours() === 0 && dueDate.getUTCMinutes() === 0 && dueDate.getUTCSeconds() === 0
+    const localMidnight = isUtcMidnight
+      ? new Date(dueDate.getUTCFullYear(), dueDate.getUTCMonth(), dueDate.getUTCDate())
+      : new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate())
+
+    return { ...task, dueDate: localMidnight.toISOString() }
+  })
+}
+
+/**
+ * Lists v0 -> v1
+ * Lists were already stored as a plain array; v1 only adds the version envelope.
+ */
+export function migrateListsV0ToV1(data: unknown): unknown {
+  if (!Array.isArray(data)) {
+    throw new TypeError('Stored lists are not a list')
+  }
+  return data
+}
+
+/**
+ * Fired reminders v0 -> v1
+ * Fired reminders were already stored as a plain array of entries; v1 only adds the
+ * version envelope.
+ */
+export function migrateFiredRemindersV0ToV1(data: unknown): unknown {
+  if (!Array.isArray(data)) {
+    throw new TypeError('Stored fired reminders are not a list')
+  }
+  return data
+}
+
+/**
+ * Saved views v1 -> v2
+ * Views had a single `sortBy` key with a fixed direction; v2 stores a `sort` list of keys
+ * with directions. The old keys keep the direction they always sorted in.
+ */
+export function migrateViewsV1ToV2(data: unknown): unknown {
+  if (!Array.isArray(data)) {
+    throw new TypeError('Stored views are not a list')
+  }
+
+  const directions: Record<string, string> = {
+    priority: 'desc',
+    dueDate: 'asc',
+    createdAt: 'desc',
+    manual: 'asc',
+  }
+  return data.map(view => {
+    if (!view || typeof view !== 'object' || !('sortBy' in view)) return view
+    const { sortBy, ...rest } = view
+    const key = sortBy in directions ? sortBy : 'priority'
+    return { ...rest, sort: [{ key, direction: directions[key] }] }
+  })
+}
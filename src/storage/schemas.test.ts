@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend } from './backends/memoryBackend'
+import { readCollection } from './collection'
+import { StorageError } from './errors'
+import { firedRemindersSchema } from './schemas'
+
+describe('firedRemindersSchema', () => {
+  it('reads the unversioned list written before the storage layer', async () => {
+    const entries = [
+      { taskId: 'task-1', minutes: 15, at: 1000 },
+      { taskId: 'urn:uuid:42', minutes: 0, at: 2000 },
+    ]
+    const backend = createMemoryBackend({ nimbustodo_fired_reminders: JSON.stringify(entries) })
+
+    const stored = await readCollection(backend, firedRemindersSchema)
+
+    expect(stored?.value).toEqual(entries)
+  })
+
+  it('reports unreadable data as a storage error', async () => {
+    const backend = createMemoryBackend({ nimbustodo_fired_reminders: '{not json' })
+    await expect(readCollection(backend, firedRemindersSchema)).rejects.toBeInstanceOf(StorageError)
+  })
+})
@@ -0,0 +1,117 @@
+import { FiredReminder, Task } from '@/types/task'
+import { TaskList } from '@/types/list'
+import { SavedView } from '@/types/view'
+import { TaskTag } from '@/types/tag'
+import { CollectionSchema } from './types'
+import { reviveTasks, serializeTasks } from './serializer'
+import {
+  migrateFiredRemindersV0ToV1,
+  migrateListsV0ToV1,
+  migrateTasksV0ToV1,
+  migrateViewsV1ToV2,
+} from './migrations'
+
+/**
+ * Stored tasks
+ */
+export const tasksSchema: CollectionSchema<Task[]> = {
+  key: 'nimbustodo_tasks',
+  version: 1,
+  migrations: {
+    0: migrateTasksV0ToV1,
+  },
+  serialize: serializeTasks,
+  revive: reviveTasks,
+}
+
+/**
+ * Stored task lists
+ */
+export const listsSchema: CollectionSchema<TaskList[]> = {
+  key: 'nimbustodo_lists',
+  version: 1,
+  migrations: {
+    0: migrateListsV0ToV1,
+  },
+  serialize: lists => lists,
+  revive: data => {
+    if (!Array.isArray(data)) {
+      throw new TypeError('Stored lists are not a list')
+    }
+    return data as TaskList[]
+  },
+}
+
+/**
+ * Stored reminders that already fired, so reloading the page does not repeat them
+ */
+export const firedRemindersSchema: CollectionSchema<FiredReminder[]> = {
+  key: 'nimbustodo_fired_reminders',
+  version: 1,
+  migrations: {
+    0: migrateFiredRemindersV0ToV1,
+  },
+  serialize: fired => fired,
+  revive: data => {
+    if (!Array.isArray(data)) {
+      throw new TypeError('Stored fired reminders are not a list')
+    }
+    return data.filter(
+      (entry): entry is FiredReminder =>
+        !!entry &&
+        typeof entry.taskId === 'string' &&
+        typeof entry.minutes === 'number' &&
+        typeof entry.at === 'number'
+    )
+  },
+}
+
+/**
+ * Stored saved views (built-in views are not stored)
+ */
+export const viewsSchema: CollectionSchema<SavedView[]> = {
+  key: 'nimbustodo_views',
+  version: 2,
+  migrations: {
+    1: migrateViewsV1ToV2,
+  },
+  serialize: views => views,
+  revive: data => {
+    if (!Array.isArray(data)) {
+      throw new TypeError('Stored views are not a list')
+    }
+    return data as SavedView[]
+  },
+}
+
+/**
+ * Stored tag registry (colors of tags)
+ */
+export const tagsSchema: CollectionSchema<TaskTag[]> = {
+  key: 'nimbustodo_tags',
+  version: 1,
+  migrations: {},
+  serialize: tags => tags,
+  revive: data => {
+    if (!Array.isArray(data)) {
+      throw new TypeError('Stored tags are not a list')
+    }
+    return data as TaskTag[]
+  },
+}
+
+/**
+ * Stored ids of the collapsed task list groups
+ */
+export const collapsedGroupsSchema: CollectionSchema<string[]> = {
+  key: 'nimbustodo_collapsed_groups',
+  version: 1,
+  migrations: {},
+  serialize: ids => ids,
+  revive: data => {
+    if (!Array.isArray(data)) {
+      throw new TypeError('Stored collapsed groups are not a list')
+    }
+    return data.filter((id): id is string => typeof id === 'string')
+  },
+}
@@ -0,0 +1,99 @@
+import { RecurrenceRule, Task } from '@/types/task'
+
+/**
+ * JSON shape of a recurrence rule
+ */
+export type SerializedRecurrenceRule = Omit<RecurrenceRule, 'until'> & {
+  until?: string | null
+}
+
+/**
+ * JSON shape of a task, with dates as ISO strings
+ */
+export type SerializedTask = Omit<
+  Task,
+  'dueDate' | 'createdAt' | 'updatedAt' | 'completedAt' | 'recurrence'
+> & {
+  dueDate?: string | null
+  createdAt: string
+  updatedAt: string
+  completedAt?: string | null
+  recurrence?: SerializedRecurrenceRule | null
+}
+
+/**
+ * Convert an optional date to an ISO string
+ */
+function toIso(date: Date | null | undefined): string | null {
+  return date ? new Date(date).toISOString() : null
+}
+
+/**
+ * Parse an optional ISO string, rejecting invalid dates
+ */
+function reviveDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === '') return null
+  const date = new Date(value as string)
+  if (isNaN(date.getTime())) {
+    throw new TypeError(`Invalid date: ${String(value)}`)
+  }
+  return date
+}
+
+/**
+ * Serialize a task for storage
+ */
+export function serializeTask(task: Task): SerializedTask {
+  return {
+    ...task,
+    dueDate: toIso(task.dueDate),
+    createdAt: toIso(task.createdAt) as string,
+    updatedAt: toIso(task.updatedAt) as string,
+    completedAt: toIso(task.completedAt),
+    recurrence: task.recurrence
+      ? { ...task.recurrence, until: toIso(task.recurrence.until) }
+      : task.recurrence,
+  }
+}
+
+/**
+ * Rebuild a task from its stored JSON, restoring Date objects
+ * Throws a TypeError when required fields are missing or malformed
+ */
+export function reviveTask(raw: unknown): Task {
+  if (!raw || typeof raw !== 'object') {
+    throw new TypeError('Task is not an object')
+  }
+  const task = raw as SerializedTask
+  if (typeof task.id !== 'string' || typeof task.title !== 'string') {
+    throw new TypeError('Task is missing an id or title')
+  }
+
+  return {
+    ...task,
+    dueDate: reviveDate(task.dueDate),
+    createdAt: reviveDate(task.createdAt) || new Date(),
+    updatedAt: reviveDate(task.updatedAt) || new Date(),
+    completedAt: reviveDate(task.completedAt),
+    recurrence: task.recurrence
+      ? { ...task.recurrence, until: reviveDate(task.recurrence.until) }
+      : task.recurrence,
+  }
+}
+
+/**
+ * Serialize a list of tasks for storage
+ */
+export function serializeTasks(tasks: Task[]): SerializedTask[] {
+  return tasks.map(serializeTask)
+}
+
+/**
+ * Rebuild a list of tasks from stored JSON
+ */
+export function reviveTasks(data: unknown): Task[] {
+  if (!Array.isArray(data)) {
+    throw new TypeError('Stored tasks are not a list')
+  }
+  return data.map(reviveTask)
+}
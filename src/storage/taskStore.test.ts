@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { Task } from '@/types/task'
+import { createTask } from '@/utils/task'
+import { createMemoryBackend } from './backends/memoryBackend'
+import { createCollectionTaskStore, diffTasks, rebaseTasks } from './taskStore'
+
+const task = (title: string): Task => createTask({ title, priority: 'medium' })
+
+/**
+ * A memory store holding `stored`, and the tasks shown before it finished loading
+ */
+async function setup() {
+  const store = createCollectionTaskStore(createMemoryBackend())
+  const stored = [task('Stored one'), task('Stored two')]
+  await store.applyChanges({ put: stored, delete: [] })
+  const initial = [task('Sample')]
+  return { store, stored, initial }
+}
+
+/**
+ * Load the store while `local` holds changes made to `initial`, then write like
+ * usePersistedTasks does: only the difference to what was loaded
+ */
+async function loadWithLocalChanges(
+  store: ReturnType<typeof createCollectionTaskStore>,
+  initial: Task[],
+  local: Task[]
+) {
+  const loaded = (await store.loadAll()) || []
+  const tasks = rebaseTasks(initial, local, loaded)
+  await store.applyChanges(diffTasks(loaded, tasks))
+  return tasks
+}
+
+describe('rebaseTasks', () => {
+  it('add during load keeps stored tasks', async () => {
+    const { store, stored, initial } = await setup()
+    const added = task('Added while loading')
+
+    const tasks = await loadWithLocalChanges(store, initial, [added, ...initial])
+
+    expect(tasks.map(t => t.title)).toEqual(['Added while loading', 'Stored one', 'Stored two'])
+    const reloaded = (await store.loadAll()) || []
+    expect(reloaded.map(t => t.id).sort()).toEqual([added.id, ...stored.map(t => t.id)].sort())
+  })
+
+  it('replays edits and deletes of loaded tasks made while loading', async () => {
+    const { store, stored } = await setup()
+    // A task list that already held the stored tasks, e.g. after an earlier load
+    const edited = { ...stored[0], title: 'Edited' }
+
+    const tasks = await loadWithLocalChanges(store, stored, [edited])
+
+    expect(tasks.map(t => t.title)).toEqual(['Edited'])
+    expect(((await store.loadAll()) || []).map(t => t.title)).toEqual(['Edited'])
+  })
+
+  it('keeps the loaded tasks when nothing changed', () => {
+    const loaded = [task('Stored')]
+    const initial = [task('Sample')]
+    expect(rebaseTasks(initial, initial, loaded)).toEqual(loaded)
+  })
+})
@@ -0,0 +1,131 @@
+import { Task } from '@/types/task'
+import { StorageBackend } from './types'
+import { StorageError, toStorageError } from './errors'
+import { readCollection, writeCollection } from './collection'
+import { tasksSchema } from './schemas'
+
+/**
+ * Fields the task store can be queried by
+ */
+export type TaskIndex = 'status' | 'priority' | 'dueDate' | 'listId'
+
+/**
+ * Tasks written and removed in one batch
+ */
+export interface TaskChanges {
+  put: Task[]
+  delete: string[]
+}
+
+/**
+ * Persistent store for the task collection with per-task writes
+ */
+export interface TaskStore {
+  /** Human-readable store name used in error messages */
+  readonly name: string
+  /** Load all tasks, or null when the store has never been written */
+  loadAll(): Promise<Task[] | null>
+  /** Write changed tasks and remove deleted ones in a single transaction */
+  applyChanges(changes: TaskChanges): Promise<void>
+  /** Load the tasks whose indexed field equals a value */
+  query(index: TaskIndex, value: string): Promise<Task[]>
+  /**
+   * Listen for changes made by other tabs
+   * Returns an unsubscribe function
+   */
+  subscribe?(listener: () => void): () => void
+}
+
+/**
+ * Work out which tasks changed between two versions of the collection
+ * Tasks are immutable, so a new object reference means the task changed
+ */
+export function diffTasks(prev: Task[], next: Task[]): TaskChanges {
+  const prevById = new Map(prev.map(task => [task.id, task]))
+  const nextIds = new Set<string>()
+  const put: Task[] = []
+
+  next.forEach(task => {
+    nextIds.add(task.id)
+    if (prevById.get(task.id) !== task) {
+      put.push(task)
+    }
+  })
+
+  return {
+    put,
+    delete: prev.filter(task => !nextIds.has(task.id)).map(task => task.id),
+  }
+}
+
+/**
+ * Replay the changes made to `base` on top of another version of the collection
+ * Used for changes made while the store was loading: tasks added, edited or deleted
+ * since `base` are applied to `loaded`, and every other loaded task is kept
+ */
+export function rebaseTasks(base: Task[], local: Task[], loaded: Task[]): Task[] {
+  const changes = diffTasks(base, local)
+  const changed = new Map(changes.put.map(task => [task.id, task]))
+  const deleted = new Set(changes.delete)
+  const loadedIds = new Set(loaded.map(task => task.id))
+
+  // New tasks go first, as added tasks do
+  return [
+    ...changes.put.filter(task => !loadedIds.has(task.id)),
+    ...loaded.filter(task => !deleted.has(task.id)).map(task => changed.get(task.id) ?? task),
+  ]
+}
+
+/**
+ * Create a task store that keeps the whole collection under one key of a key-value backend
+ * Used where IndexedDB is unavailable, and with the in-memory backend in tests
+ */
+export function createCollectionTaskStore(backend: StorageBackend): TaskStore {
+  const load = async () => (await readCollection(backend, tasksSchema))?.value ?? null
+  const subscribe = backend.subscribe?.bind(backend)
+
+  return {
+    name: backend.name,
+
+    loadAll: load,
+
+    async applyChanges(changes) {
+      const current = (await load()) || []
+      const byId = new Map(current.map(task => [task.id, task]))
+      changes.delete.forEach(id => byId.delete(id))
+      changes.put.forEach(task => byId.set(task.id, task))
+      await writeCollection(backend, tasksSchema, [...byId.values()])
+    },
+
+    async query(index, value) {
+      const tasks = (await load()) || []
+      return tasks.filter(task => String(task[index] ?? '') === value)
+    },
+
+    subscribe: subscribe ? listener => subscribe(tasksSchema.key, () => listener()) : undefined,
+  }
+}
+
+/**
+ * One-time migration of tasks saved under the old localStorage key into a task store
+ * Only runs while the target store has never been written, then removes the old key
+ */
+export async function migrateLegacyTasks(store: TaskStore, legacy: StorageBackend): Promise<void> {
+  if ((await store.loadAll()) !== null) return
+
+  const stored = await readCollection(legacy, tasksSchema)
+  if (!stored) return
+
+  try {
+    await store.applyChanges({ put: stored.value, delete: [] })
+  } catch (error) {
+    const storageError = toStorageError(error, tasksSchema.key)
+    throw new StorageError(
+      storageError.kind,
+      tasksSchema.key,
+      `Could not move saved tasks to ${store.name}: ${storageError.message}`,
+      { cause: error }
+    )
+  }
+  await legacy.removeItem(tasksSchema.key)
+}
@@ -0,0 +1,50 @@
+/**
+ * Storage layer type definitions
+ */
+
+/**
+ * Pluggable key-value backend the storage layer persists through
+ * All operations are async so slow backends like IndexedDB fit the same interface
+ */
+export interface StorageBackend {
+  /** Human-readable backend name used in error messages */
+  readonly name: string
+  getItem(key: string): Promise<string | null>
+  setItem(key: string, value: string): Promise<void>
+  removeItem(key: string): Promise<void>
+  /**
+   * Listen for changes made outside this page (e.g. another tab)
+   * Returns an unsubscribe function
+   */
+  subscribe?(key: string, listener: (value: string | null) => void): () => void
+}
+
+/**
+ * Migration from one schema version to the next
+ * Receives the data of version N and returns the data of version N + 1
+ */
+export type Migration = (data: unknown) => unknown
+
+/**
+ * Versioned wrapper written to the backend
+ */
+export interface StoredEnvelope {
+  version: number
+  data: unknown
+}
+
+/**
+ * Definition of a persisted, versioned collection
+ */
+export interface CollectionSchema<T> {
+  key: string
+  /** Current schema version */
+  version: number
+  /**
+   * Migrations keyed by the version they upgrade from
+   * Version 0 is raw, unversioned JSON written before the storage layer existed
+   */
+  migrations: Record<number, Migration>
+  serialize: (value: T) => unknown
+  revive: (data: unknown) => T
+}
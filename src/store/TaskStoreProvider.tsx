@@ -0,0 +1,48 @@
+import { ReactNode, useCallback } from 'react'
+import { Task } from '@/types/task'
+import { TaskStore } from '@/storage'
+import { usePersistedTasks } from '@/hooks/usePersistedTasks'
+import { useTaskHistory } from '@/hooks/useTaskHistory'
+import { TaskAction, taskReducer } from './taskReducer'
+import { DispatchOptions, TaskStoreContext, TaskStoreValue } from './taskStoreContext'
+
+interface TaskStoreProviderProps {
+  children: ReactNode
+  /** Tasks used when nothing has been stored yet */
+  initialTasks?: Task[] | (() => Task[])
+  /** Where tasks are persisted (defaults to IndexedDB where available) */
+  store?: TaskStore
+}
+
+/**
+ * TaskStoreProvider Component
+ * Owns the task collection for the whole app: persists it through the storage layer,
+ * applies every change through taskReducer and keeps the undo/redo history
+ */
+export function TaskStoreProvider({ children, initialTasks = [], store }: TaskStoreProviderProps) {
+  const [tasks, setTasks, storage] = usePersistedTasks(initialTasks, store)
+  const history = useTaskHistory(tasks, setTasks)
+  const { apply } = history
+
+  const dispatch = useCallback(
+    (action: TaskAction, { label, ...options }: DispatchOptions) =>
+      apply(label, current => taskReducer(current, action), options),
+    [apply]
+  )
+
+  const value: TaskStoreValue = {
+    tasks,
+    storage,
+    dispatch,
+    undo: history.undo,
+    redo: history.redo,
+    canUndo: history.canUndo,
+    canRedo: history.canRedo,
+    undoLabel: history.undoLabel,
+    redoLabel: history.redoLabel,
+    undoToast: history.toast,
+    dismissUndoToast: history.dismissToast,
+  }
+
+  return <TaskStoreContext.Provider value={value}>{children}</TaskStoreContext.Provider>
+}
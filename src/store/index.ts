@@ -0,0 +1,12 @@
+/**
+ * NimbusTodo Task Store
+ *
+ * One store for the task collection, shared by every page through TaskStoreProvider.
+ * Changes are typed actions applied by taskReducer; useTaskList is the hook pages use.
+ */
+
+export { TaskStoreProvider } from './TaskStoreProvider'
+export { TaskStoreContext } from './taskStoreContext'
+export type { TaskStoreValue, DispatchOptions } from './taskStoreContext'
+export { taskReducer } from './taskReducer'
+export type { TaskAction, TaskBatchEdit } from './taskReducer'
@@ -0,0 +1,162 @@
+import { Task, TaskPriority, TaskStatus } from '@/types/task'
+import { TaskOrderChange } from '@/utils/order'
+import { completeAllSubtasks } from '@/utils/subtask'
+import { getTaskListId } from '@/utils/list'
+import { replaceTags } from '@/utils/tag'
+
+/**
+ * Changes applied to every selected task by a batch action
+ */
+export interface TaskBatchEdit {
+  status?: TaskStatus
+  priority?: TaskPriority
+  /** Date-only due date, or null to clear it */
+  dueDate?: Date | null
+  listId?: string
+  addTags?: string[]
+  removeTags?: string[]
+}
+
+/**
+ * Every change that can be made to the task collection
+ * Actions carry the time (and any generated tasks) so the reducer stays pure
+ */
+export type TaskAction =
+  | { type: 'add'; tasks: Task[] }
+  | { type: 'update'; id: string; changes: Partial<Task>; now: Date }
+  | {
+      type: 'setStatus'
+      id: string
+      status: TaskStatus
+      now: Date
+      /** Mark every subtask done as well */
+      completeSubtasks?: boolean
+      /** Next instance of a recurring task, inserted after the completed one */
+      nextOccurrence?: Task | null
+    }
+  | {
+      type: 'batchUpdate'
+      ids: string[]
+      edit: TaskBatchEdit
+      now: Date
+      /** Next instances of completed recurring tasks, by the id of the completed task */
+      nextOccurrences?: Record<string, Task>
+    }
+  | { type: 'delete'; ids: string[] }
+  | { type: 'reorder'; orders: TaskOrderChange[]; now: Date }
+  /** Rename or merge tags into `to` on every task, or remove them when `to` is null */
+  | { type: 'replaceTags'; from: string[]; to: string | null; now: Date }
+  | { type: 'clearCompleted'; now: Date }
+  | { type: 'moveToList'; fromListId: string; toListId: string; now: Date }
+  | { type: 'deleteInList'; listId: string }
+
+/**
+ * Apply a status change, keeping completedAt in step with the status
+ */
+function withStatus(task: Task, status: TaskStatus, now: Date): Task {
+  if (status === task.status) return task
+  return {
+    ...task,
+    status,
+    completedAt: status === 'completed' ? now : status === 'pending' ? null : task.completedAt,
+  }
+}
+
+/**
+ * Apply a batch edit to one task
+ */
+function withBatchEdit(task: Task, edit: TaskBatchEdit, now: Date): Task {
+  const { status, dueDate, addTags = [], removeTags = [], ...fields } = edit
+  let tags = task.tags?.filter(tag => !removeTags.includes(tag))
+  const newTags = addTags.filter(tag => !tags?.includes(tag))
+  if (newTags.length > 0) tags = [...(tags || []), ...newTags]
+
+  const updated: Task = {
+    ...task,
+    ...fields,
+    ...(dueDate !== undefined && { dueDate, hasDueTime: false }),
+    tags,
+    updatedAt: now,
+  }
+  return status ? withStatus(updated, status, now) : updated
+}
+
+/**
+ * Task store reducer
+ * The single place where tasks are created, changed and removed, so timestamps and
+ * completedAt behave the same on every page
+ */
+export function taskReducer(tasks: Task[], action: TaskAction): Task[] {
+  switch (action.type) {
+    case 'add':
+      return action.tasks.length > 0 ? [...action.tasks, ...tasks] : tasks
+
+    case 'update':
+      return tasks.map(task => {
+        if (task.id !== action.id) return task
+        const { status, ...changes } = action.changes
+        const updated = { ...task, ...changes, id: task.id, updatedAt: action.now }
+        return status ? withStatus(updated, status, action.now) : updated
+      })
+
+    case 'setStatus':
+      return tasks.flatMap(task => {
+        if (task.id !== action.id) return [task]
+        const updated: Task = {
+          ...withStatus(task, action.status, action.now),
+          subtasks: action.completeSubtasks ? completeAllSubtasks(task.subtasks) : task.subtasks,
+          updatedAt: action.now,
+        }
+        // Completing a recurring task hands its rule over to the next occurrence
+        return action.nextOccurrence
+          ? [{ ...updated, recurrence: null }, action.nextOccurrence]
+          : [updated]
+      })
+
+    case 'batchUpdate': {
+      const ids = new Set(action.ids)
+      return tasks.flatMap(task => {
+        if (!ids.has(task.id)) return [task]
+        const updated = withBatchEdit(task, action.edit, action.now)
+        const next = action.nextOccurrences?.[task.id]
+        return next ? [{ ...updated, recurrence: null }, next] : [updated]
+      })
+    }
+
+    case 'delete': {
+      const ids = new Set(action.ids)
+      return tasks.some(task => ids.has(task.id)) ? tasks.filter(task => !ids.has(task.id)) : tasks
+    }
+
+    case 'reorder': {
+      const orders = new Map(action.orders.map(change => [change.id, change.order]))
+      if (orders.size === 0) return tasks
+      return tasks.map(task => {
+        const order = orders.get(task.id)
+        return order === undefined ? task : { ...task, order, updatedAt: action.now }
+      })
+    }
+
+    case 'replaceTags':
+      return tasks.map(task => {
+        const tags = replaceTags(task.tags, action.from, action.to)
+        return tags === task.tags ? task : { ...task, tags, updatedAt: action.now }
+      })
+
+    case 'clearCompleted':
+      if (!tasks.some(task => task.status === 'completed')) return tasks
+      return tasks.map(task =>
+        task.status === 'completed' ? { ...task, status: 'archived', updatedAt: action.now } : task
+      )
+
+    case 'moveToList':
+      return tasks.map(task =>
+        getTaskListId(task) === action.fromListId
+          ? { ...task, listId: action.toListId, updatedAt: action.now }
+          : task
+      )
+
+    case 'deleteInList':
+      return tasks.filter(task => getTaskListId(task) !== action.listId)
+  }
+}
@@ -0,0 +1,34 @@
+import { createContext } from 'react'
+import { Task } from '@/types/task'
+import { StoredStateInfo } from '@/hooks/useStoredState'
+import { ApplyOptions, UndoToastState } from '@/hooks/useTaskHistory'
+import { TaskAction } from './taskReducer'
+
+/**
+ * Options for a dispatched action
+ */
+export interface DispatchOptions extends ApplyOptions {
+  /** Description used for undo/redo and the Undo toast */
+  label: string
+}
+
+/**
+ * Value shared by TaskStoreProvider
+ */
+export interface TaskStoreValue {
+  tasks: Task[]
+  /** Load state and errors of the persisted collection */
+  storage: StoredStateInfo
+  /** Run an action through the reducer and record it for undo; returns the new tasks */
+  dispatch: (action: TaskAction, options: DispatchOptions) => Task[]
+  undo: () => void
+  redo: () => void
+  canUndo: boolean
+  canRedo: boolean
+  undoLabel?: string
+  redoLabel?: string
+  undoToast: UndoToastState | null
+  dismissUndoToast: () => void
+}
+
+export const TaskStoreContext = createContext<TaskStoreValue | null>(null)
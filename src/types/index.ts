@@ -2,4 +2,27 @@
  * Central export point for all TypeScript type definitions
  */
 
-export type { Task, TaskInput, TaskPriority, TaskStatus } from './task'
+export type {
+  FiredReminder,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  Subtask,
+  Task,
+  TaskInput,
+  TaskPriority,
+  TaskStatus,
+} from './task'
+export type { TaskList, TaskListColor, TaskListInput } from './list'
+export type { TagColor, TagSummary, TaskTag } from './tag'
+export type {
+  CalendarMode,
+  SavedView,
+  SmartFilter,
+  SortDirection,
+  TaskFilterStatus,
+  TaskGroupBy,
+  TaskLayout,
+  TaskSortKey,
+  TaskSortRule,
+  ViewSettings,
+} from './view'
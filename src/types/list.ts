@@ -0,0 +1,29 @@
+/**
+ * Task list type definitions for the NimbusTodo application
+ */
+
+/**
+ * Accent colors available for task lists
+ */
+export type TaskListColor = 'blue' | 'green' | 'red' | 'orange' | 'purple' | 'pink' | 'gray'
+
+/**
+ * Named task list
+ * Tasks reference a list through Task.listId
+ */
+export interface TaskList {
+  id: string
+  name: string
+  color: TaskListColor
+  icon: string
+  sortOrder: number
+}
+
+/**
+ * Task list creation payload (without auto-generated fields)
+ */
+export interface TaskListInput {
+  name: string
+  color?: TaskListColor
+  icon?: string
+}
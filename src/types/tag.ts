@@ -0,0 +1,26 @@
+/**
+ * Tag type definitions for the NimbusTodo application
+ */
+
+import { TaskListColor } from './list'
+
+/**
+ * Colors available for tags (the same palette as lists)
+ */
+export type TagColor = TaskListColor
+
+/**
+ * Registry entry of a tag
+ * Tasks carry tags as plain strings; the registry only adds settings such as a color
+ */
+export interface TaskTag {
+  name: string
+  color: TagColor
+}
+
+/**
+ * A tag in use or in the registry, with the number of tasks that have it
+ */
+export interface TagSummary extends TaskTag {
+  count: number
+}
@@ -12,6 +12,38 @@ export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent'
  */
 export type TaskStatus = 'pending' | 'completed' | 'archived'
 
+/**
+ * How often a recurring task repeats
+ */
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly'
+
+/**
+ * RRULE-style repeat rule for recurring tasks
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  /** Repeat every N days/weeks/months/years */
+  interval: number
+  /** Weekdays for weekly rules (0 = Sunday ... 6 = Saturday) */
+  byWeekday?: number[]
+  /** Day of the month for monthly rules */
+  byMonthDay?: number
+  /** End after this many occurrences */
+  count?: number
+  /** End after this date */
+  until?: Date | null
+}
+
+/**
+ * Checklist item nested inside a task
+ */
+export interface Subtask {
+  id: string
+  title: string
+  done: boolean
+  order: number
+}
+
 /**
  * Core Task interface
  * Represents a single todo task with all necessary metadata
@@ -21,6 +53,12 @@ export interface Task {
   title: string
   description?: string
   dueDate?: Date | null
+  /** Whether dueDate carries a time of day (otherwise it is a local date) */
+  hasDueTime?: boolean
+  /** IANA time zone the due time was entered in */
+  timeZone?: string
+  /** Reminder offsets in minutes before the due time */
+  reminders?: number[]
   priority: TaskPriority
   status: TaskStatus
   createdAt: Date
@@ -28,6 +66,23 @@ export interface Task {
   completedAt?: Date | null
   tags?: string[]
   listId?: string
+  subtasks?: Subtask[]
+  recurrence?: RecurrenceRule | null
+  /** Position of this task in its recurring series (starts at 1) */
+  occurrence?: number
+  /** Position in the manual sort order (fractional index, see utils/order) */
+  order?: string
+}
+
+/**
+ * A reminder that has fired, remembered so it does not fire again
+ */
+export interface FiredReminder {
+  taskId: string
+  /** Offset of the reminder in minutes before the due time */
+  minutes: number
+  /** Due time (ms) the reminder was for, so a rescheduled task reminds again */
+  at: number
 }
 
 /**
@@ -37,8 +92,13 @@ export interface TaskInput {
   title: string
   description?: string
   dueDate?: Date | null
+  hasDueTime?: boolean
+  timeZone?: string
+  reminders?: number[]
   priority: TaskPriority
   status?: TaskStatus
   tags?: string[]
   listId?: string
+  subtasks?: Subtask[]
+  recurrence?: RecurrenceRule | null
 }
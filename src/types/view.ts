@@ -0,0 +1,85 @@
+/**
+ * Saved view type definitions for the NimbusTodo application
+ */
+
+import { TaskStatus } from './task'
+
+/**
+ * Status filter of the task list ('all' shows every task that isn't archived)
+ */
+export type TaskFilterStatus = TaskStatus | 'all'
+
+/**
+ * Field the task list can be sorted by ('manual' is the order set by dragging tasks)
+ */
+export type TaskSortKey =
+  | 'priority'
+  | 'dueDate'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'completedAt'
+  | 'title'
+  | 'manual'
+
+/**
+ * Direction of a sort key
+ */
+export type SortDirection = 'asc' | 'desc'
+
+/**
+ * One key of the task list sort order
+ */
+export interface TaskSortRule {
+  key: TaskSortKey
+  direction: SortDirection
+}
+
+/**
+ * Grouping of the task list
+ */
+export type TaskGroupBy = 'status' | 'priority' | 'list' | 'tag' | 'due' | 'none'
+
+/**
+ * Period shown by the calendar layouts
+ */
+export type CalendarMode = 'month' | 'week'
+
+/**
+ * How the tasks of a view are laid out
+ */
+export type TaskLayout = 'list' | 'board' | CalendarMode
+
+/**
+ * Date-based filters used by the built-in views
+ */
+export type SmartFilter = 'today' | 'upcoming' | 'overdue'
+
+/**
+ * The filter, sort and grouping settings of the task list
+ */
+export interface ViewSettings {
+  filterStatus: TaskFilterStatus
+  /** Sort keys by precedence; each key orders the tasks the keys before it leave tied */
+  sort: TaskSortRule[]
+  groupBy: TaskGroupBy
+  /** Tasks must have every one of these tags */
+  tags: string[]
+  /** List to show, or null for tasks from every list */
+  listId: string | null
+  /** Search query (see utils/search) */
+  query: string
+  smartFilter?: SmartFilter
+  /** Defaults to 'list' */
+  layout?: TaskLayout
+}
+
+/**
+ * Named combination of view settings shown in the sidebar
+ */
+export interface SavedView extends ViewSettings {
+  id: string
+  name: string
+  icon: string
+  /** Built-in views are not stored and cannot be deleted */
+  builtIn?: boolean
+}
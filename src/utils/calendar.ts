@@ -0,0 +1,82 @@
+import { Task } from '@/types/task'
+import { CalendarMode } from '@/types/view'
+import { addDays, differenceInDays, startOfWeek, toDateInputValue } from './date'
+
+/**
+ * Get the days shown by a month or week calendar around a date
+ * Months are padded with the days of the first and last weeks that fall outside them
+ */
+export function getCalendarDays(anchor: Date, mode: CalendarMode): Date[] {
+  const start = startOfWeek(
+    mode === 'month' ? new Date(anchor.getFullYear(), anchor.getMonth(), 1) : anchor
+  )
+  const end =
+    mode === 'month'
+      ? addDays(startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0)), 7)
+      : addDays(start, 7)
+
+  const days: Date[] = []
+  for (let day = start; day < end; day = addDays(day, 1)) {
+    days.push(day)
+  }
+  return days
+}
+
+/**
+ * Move a calendar by a number of months or weeks
+ */
+export function shiftCalendar(anchor: Date, mode: CalendarMode, amount: number): Date {
+  return mode === 'month'
+    ? new Date(anchor.getFullYear(), anchor.getMonth() + amount, 1)
+    : addDays(anchor, amount * 7)
+}
+
+/**
+ * Get the heading of a calendar, e.g. "October 2026" or "Oct 18 – 24, 2026"
+ */
+export function getCalendarTitle(anchor: Date, mode: CalendarMode): string {
+  if (mode === 'month') {
+    return anchor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+  }
+
+  const start = startOfWeek(anchor)
+  const end = addDays(start, 6)
+  const startLabel = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+  const endLabel =
+    end.getMonth() === start.getMonth()
+      ? String(end.getDate())
+      : end.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+  return `${startLabel} – ${endLabel}, ${end.getFullYear()}`
+}
+
+/**
+ * Get the calendar day key (YYYY-MM-DD, local time) a task is due on
+ */
+export function getTaskDayKey(task: Task): string | null {
+  return task.dueDate ? toDateInputValue(new Date(task.dueDate)) : null
+}
+
+/**
+ * Index tasks by the calendar day they are due on
+ */
+export function getTasksByDay(tasks: Task[]): Map<string, Task[]> {
+  const byDay = new Map<string, Task[]>()
+  tasks.forEach(task => {
+    const key = getTaskDayKey(task)
+    if (!key) return
+    const day = byDay.get(key)
+    if (day) {
+      day.push(task)
+    } else {
+      byDay.set(key, [task])
+    }
+  })
+  return byDay
+}
+
+/**
+ * Get the due date of a task moved to another day, keeping its time of day
+ */
+export function rescheduleDueDate(dueDate: Date, day: Date): Date {
+  return addDays(dueDate, differenceInDays(day, dueDate))
+}
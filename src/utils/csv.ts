@@ -0,0 +1,62 @@
+/**
+ * Quote a CSV field when it contains a separator, quote or line break
+ */
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Build CSV text from rows of fields (RFC 4180, CRLF line endings)
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n')
+}
+
+/**
+ * Parse CSV text into rows of fields
+ * Handles quoted fields with embedded commas, quotes and line breaks; blank lines are skipped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0] !== '') rows.push(row)
+    row = []
+    field = ''
+  }
+
+  // Strip a byte order mark left by spreadsheet exports
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow()
+  return rows
+}
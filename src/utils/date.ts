@@ -0,0 +1,172 @@
+/**
+ * Pad a number to two digits
+ */
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+/**
+ * Format a date as the YYYY-MM-DD value of an <input type="date"> in local time
+ */
+export function toDateInputValue(date: Date | null | undefined): string {
+  if (!date) return ''
+  const d = date instanceof Date ? date : new Date(date)
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`
+}
+
+/**
+ * Parse the YYYY-MM-DD value of an <input type="date"> as local midnight
+ */
+export function parseDateInputValue(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (!match) return null
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+}
+
+/**
+ * Get the number of days in a month (month is 0-based)
+ */
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate()
+}
+
+/**
+ * Get the last moment of the day a date falls on
+ */
+export function endOfDay(date: Date): Date {
+  const end = new Date(date)
+  end.setHours(23, 59, 59, 999)
+  return end
+}
+
+/**
+ * Get the first moment of the day a date falls on
+ */
+export function startOfDay(date: Date): Date {
+  const start = new Date(date)
+  start.setHours(0, 0, 0, 0)
+  return start
+}
+
+/**
+ * Add a number of calendar days to a date
+ */
+export function addDays(date: Date, days: number): Date {
+  const next = new Date(date)
+  next.setDate(next.getDate() + days)
+  return next
+}
+
+/**
+ * Get the start of the week a date falls in (weekStartsOn: 0 = Sunday)
+ */
+export function startOfWeek(date: Date, weekStartsOn = 0): Date {
+  const start = startOfDay(date)
+  return addDays(start, -((start.getDay() - weekStartsOn + 7) % 7))
+}
+
+/**
+ * Get the number of calendar days from one date to another, ignoring time of day
+ */
+export function differenceInDays(to: Date, from: Date): number {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / 86_400_000)
+}
+
+/**
+ * Check whether two dates fall on the same local calendar day
+ */
+export function isSameDay(a: Date, b: Date): boolean {
+  return (
+    a.getDate() === b.getDate() &&
+    a.getMonth() === b.getMonth() &&
+    a.getFullYear() === b.getFullYear()
+  )
+}
+
+/**
+ * Time zones offered in due time pickers besides the user's own
+ */
+export const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Moscow',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+]
+
+/**
+ * Get the user's IANA time zone
+ */
+export function getUserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+/**
+ * Get the wall-clock date and time of an instant in a time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find(part => part.type === type)?.value || '00'
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}`,
+  }
+}
+
+/**
+ * Get the offset of a time zone from UTC at a given instant, in milliseconds
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { date: day, time } = getZonedParts(date, timeZone)
+  const [year, month, dayOfMonth] = day.split('-').map(Number)
+  const [hours, minutes] = time.split(':').map(Number)
+  const wallTime = Date.UTC(year, month - 1, dayOfMonth, hours, minutes)
+  const instant = Math.floor(date.getTime() / 60000) * 60000
+  return wallTime - instant
+}
+
+/**
+ * Convert a wall-clock date (YYYY-MM-DD) and time (HH:MM) in a time zone to an instant
+ */
+export function zonedTimeToDate(date: string, time: string, timeZone: string): Date | null {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date)
+  const timeMatch = /^(\d{2}):(\d{2})$/.exec(time)
+  if (!dateMatch || !timeMatch) return null
+
+  const wallTime = Date.UTC(
+    Number(dateMatch[1]),
+    Number(dateMatch[2]) - 1,
+    Number(dateMatch[3]),
+    Number(timeMatch[1]),
+    Number(timeMatch[2])
+  )
+  // Re-check the offset at the result so DST transitions resolve correctly
+  const guess = wallTime - getTimeZoneOffset(new Date(wallTime), timeZone)
+  return new Date(wallTime - getTimeZoneOffset(new Date(guess), timeZone))
+}
+
+/**
+ * Format the time of day of an instant, e.g. "3:00 PM"
+ */
+export function formatTime(date: Date, timeZone?: string): string {
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone })
+}
@@ -0,0 +1,63 @@
+/**
+ * Result of fuzzy-matching a query against a text
+ */
+export interface FuzzyMatch {
+  /** Higher is better */
+  score: number
+  /** Positions of the matched characters in the text */
+  indices: number[]
+}
+
+/**
+ * Match the characters of a query, in order, anywhere in a text (case-insensitive)
+ * Consecutive characters and characters at the start of words score higher.
+ * Returns null when the text doesn't contain every query character in order.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '')
+  const haystack = text.toLowerCase()
+  if (!needle) return { score: 0, indices: [] }
+
+  const indices: number[] = []
+  let score = 0
+  let from = 0
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from)
+    if (index === -1) return null
+
+    const previous = indices[indices.length - 1]
+    if (previous !== undefined && index === previous + 1) {
+      score += 3
+    } else if (index === 0 || /[\s\-_/.#@]/.test(haystack[index - 1])) {
+      score += 2
+    } else {
+      score += 1
+    }
+    indices.push(index)
+    from = index + 1
+  }
+
+  // Prefer matches that start early and texts that are short
+  score -= indices[0] * 0.1 + haystack.length * 0.01
+  return { score, indices }
+}
+
+/**
+ * Fuzzy-match items by their text, best matches first
+ * Items with equal scores keep their original order
+ */
+export function fuzzyFilter<T>(
+  items: T[],
+  query: string,
+  getText: (item: T) => string
+): { item: T; match: FuzzyMatch }[] {
+  if (!query.trim()) {
+    return items.map(item => ({ item, match: { score: 0, indices: [] } }))
+  }
+  return items
+    .flatMap(item => {
+      const match = fuzzyMatch(query, getText(item))
+      return match ? [{ item, match }] : []
+    })
+    .sort((a, b) => b.match.score - a.match.score)
+}
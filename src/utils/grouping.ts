@@ -0,0 +1,245 @@
+import { Task, TaskPriority, TaskStatus } from '@/types/task'
+import { TaskList } from '@/types/list'
+import { TaskGroupBy } from '@/types/view'
+import { addDays, differenceInDays, startOfDay, startOfWeek } from './date'
+import { rescheduleDueDate } from './calendar'
+import { getTaskListId, sortLists } from './list'
+import { isTaskOverdue } from './task'
+
+/**
+ * Group key of untagged tasks when grouping by tag (no tag can be empty)
+ */
+export const NO_TAG_GROUP = ''
+
+/**
+ * Group key of every task when not grouping
+ */
+export const UNGROUPED = 'ungrouped'
+
+/**
+ * Due date buckets when grouping by due date, in display order
+ */
+export type DueBucket = 'overdue' | 'today' | 'tomorrow' | 'thisWeek' | 'later' | 'none'
+
+const DUE_BUCKETS: DueBucket[] = ['overdue', 'today', 'tomorrow', 'thisWeek', 'later', 'none']
+
+/**
+ * A group of tasks (a section of the list or a column of the board)
+ */
+export interface TaskGroup {
+  key: string
+  label: string
+  tasks: Task[]
+}
+
+/**
+ * Fields changed by moving a task to another group
+ */
+export type TaskGroupChanges = Partial<
+  Pick<Task, 'status' | 'priority' | 'listId' | 'tags' | 'dueDate' | 'hasDueTime'>
+>
+
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  pending: 'To Do',
+  completed: 'Completed',
+  archived: 'Archived',
+}
+
+const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  urgent: '🔴 Urgent',
+  high: '🟠 High',
+  medium: '🟡 Medium',
+  low: '🔵 Low',
+}
+
+const DUE_LABELS: Record<DueBucket, string> = {
+  overdue: 'Overdue',
+  today: 'Today',
+  tomorrow: 'Tomorrow',
+  thisWeek: 'This week',
+  later: 'Later',
+  none: 'No date',
+}
+
+/**
+ * Get the due date bucket of a task
+ * Done tasks with a past due date stay with the overdue ones rather than under Today
+ */
+export function getDueBucket(task: Task, now: Date = new Date()): DueBucket {
+  if (!task.dueDate) return 'none'
+  if (isTaskOverdue(task, now)) return 'overdue'
+
+  const dueDate = new Date(task.dueDate)
+  const days = differenceInDays(dueDate, now)
+  if (days < 0) return 'overdue'
+  if (days === 0) return 'today'
+  if (days === 1) return 'tomorrow'
+  return dueDate < addDays(startOfWeek(now), 7) ? 'thisWeek' : 'later'
+}
+
+/**
+ * Get the keys of the groups a task belongs to
+ * A task with several tags is in the group of each tag
+ */
+export function getTaskGroupKeys(
+  task: Task,
+  groupBy: TaskGroupBy,
+  now: Date = new Date()
+): string[] {
+  switch (groupBy) {
+    case 'status':
+      return [task.status]
+    case 'priority':
+      return [task.priority]
+    case 'list':
+      return [getTaskListId(task)]
+    case 'tag':
+      return task.tags && task.tags.length > 0 ? task.tags : [NO_TAG_GROUP]
+    case 'due':
+      return [getDueBucket(task, now)]
+    case 'none':
+      return [UNGROUPED]
+  }
+}
+
+/**
+ * Get the id a group is remembered by (e.g. when collapsed), unique across groupings
+ */
+export function getGroupId(groupBy: TaskGroupBy, key: string): string {
+  return `${groupBy}:${key}`
+}
+
+/**
+ * Get the display label of a group
+ */
+export function getGroupLabel(groupBy: TaskGroupBy, key: string, lists: TaskList[] = []): string {
+  switch (groupBy) {
+    case 'status':
+      return STATUS_LABELS[key as TaskStatus] || key
+    case 'priority':
+      return PRIORITY_LABELS[key as TaskPriority] || key
+    case 'list': {
+      const list = lists.find(l => l.id === key)
+      return list ? `${list.icon} ${list.name}` : key
+    }
+    case 'tag':
+      return key === NO_TAG_GROUP ? 'No tag' : `#${key}`
+    case 'due':
+      return DUE_LABELS[key as DueBucket] || key
+    case 'none':
+      return key
+  }
+}
+
+/**
+ * Get the keys of the groups in display order
+ * Archived only appears when some of the tasks are archived
+ */
+function getGroupOrder(
+  groupBy: TaskGroupBy,
+  presentKeys: string[],
+  lists: TaskList[],
+  tags: string[]
+): string[] {
+  switch (groupBy) {
+    case 'status':
+      return presentKeys.includes('archived')
+        ? ['pending', 'completed', 'archived']
+        : ['pending', 'completed']
+    case 'priority':
+      return ['urgent', 'high', 'medium', 'low']
+    case 'list': {
+      const listIds = sortLists(lists).map(list => list.id)
+      return [...listIds, ...presentKeys.filter(key => !listIds.includes(key))]
+    }
+    case 'tag': {
+      const tagKeys = new Set([...tags, ...presentKeys])
+      tagKeys.delete(NO_TAG_GROUP)
+      return [...[...tagKeys].sort((a, b) => a.localeCompare(b)), NO_TAG_GROUP]
+    }
+    case 'due':
+      return DUE_BUCKETS
+    case 'none':
+      return [UNGROUPED]
+  }
+}
+
+interface GroupTasksOptions {
+  /** Lists used for list group order and labels */
+  lists?: TaskList[]
+  /** Tags that get a group even when no task has them */
+  tags?: string[]
+  /** Keep groups without tasks (e.g. as drop targets on the board) */
+  includeEmpty?: boolean
+  /** Current time for due date buckets */
+  now?: Date
+}
+
+/**
+ * Split tasks into ordered groups, keeping the order of the tasks within each group
+ */
+export function groupTasksBy(
+  tasks: Task[],
+  groupBy: TaskGroupBy,
+  { lists = [], tags = [], includeEmpty = false, now = new Date() }: GroupTasksOptions = {}
+): TaskGroup[] {
+  const tasksByKey = new Map<string, Task[]>()
+  tasks.forEach(task => {
+    getTaskGroupKeys(task, groupBy, now).forEach(key => {
+      const group = tasksByKey.get(key)
+      if (group) {
+        group.push(task)
+      } else {
+        tasksByKey.set(key, [task])
+      }
+    })
+  })
+
+  return getGroupOrder(groupBy, [...tasksByKey.keys()], lists, tags)
+    .map(key => ({
+      key,
+      label: getGroupLabel(groupBy, key, lists),
+      tasks: tasksByKey.get(key) || [],
+    }))
+    .filter(group => includeEmpty || group.tasks.length > 0)
+}
+
+/**
+ * Get the changes that move a task from one group to another
+ * Moving between tag groups swaps the tag. Due date groups only take tasks for Today,
+ * Tomorrow and No date, the others span too many days. Returns null when nothing changes.
+ */
+export function getGroupMoveChanges(
+  task: Task,
+  groupBy: TaskGroupBy,
+  fromKey: string,
+  toKey: string,
+  now: Date = new Date()
+): TaskGroupChanges | null {
+  if (fromKey === toKey) return null
+
+  switch (groupBy) {
+    case 'status':
+      return { status: toKey as TaskStatus }
+    case 'priority':
+      return { priority: toKey as TaskPriority }
+    case 'list':
+      return { listId: toKey }
+    case 'tag': {
+      const tags = (task.tags || []).filter(tag => tag !== fromKey)
+      if (toKey !== NO_TAG_GROUP && !tags.includes(toKey)) tags.push(toKey)
+      return { tags }
+    }
+    case 'due': {
+      if (toKey === 'none') return { dueDate: null, hasDueTime: false }
+      if (toKey !== 'today' && toKey !== 'tomorrow') return null
+      const day = addDays(startOfDay(now), toKey === 'today' ? 0 : 1)
+      // Keep the time of day of a timed task
+      return task.dueDate
+        ? { dueDate: rescheduleDueDate(new Date(task.dueDate), day) }
+        : { dueDate: day, hasDueTime: false }
+    }
+    case 'none':
+      return null
+  }
+}
@@ -0,0 +1,65 @@
+import { Task } from '@/types/task'
+import { diffTasks } from '@/storage'
+
+/**
+ * State kept outside the task collection that changed together with it
+ * (e.g. tag colors when tags are renamed), restored on undo and redo
+ */
+export interface HistoryEffect {
+  undo: () => void
+  redo: () => void
+}
+
+/**
+ * One undoable change to the task collection
+ */
+export interface HistoryEntry {
+  /** Short description shown in the Undo toast, e.g. "Deleted “Buy milk”" */
+  label: string
+  before: Task[]
+  after: Task[]
+  effect?: HistoryEffect
+}
+
+/**
+ * Past and undone entries, most recent last in `past` and first in `future`
+ */
+export interface HistoryState {
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+}
+
+/**
+ * Maximum number of entries kept for undo
+ */
+export const HISTORY_LIMIT = 100
+
+/**
+ * Apply the change between two versions of the collection to the current tasks
+ *
+ * Only tasks that differ between `from` and `to` are touched, so edits made since
+ * (for example in another tab) survive an undo or redo. Re-added tasks go back to
+ * their position in `to`.
+ */
+export function replayChanges(current: Task[], from: Task[], to: Task[]): Task[] {
+  const changes = diffTasks(from, to)
+  if (changes.put.length === 0 && changes.delete.length === 0) return current
+
+  const removed = new Set(changes.delete)
+  const updates = new Map(changes.put.map(task => [task.id, task]))
+  const result = current
+    .filter(task => !removed.has(task.id))
+    .map(task => {
+      const updated = updates.get(task.id)
+      if (!updated) return task
+      updates.delete(task.id)
+      return updated
+    })
+
+  // Tasks missing from the current collection are inserted where they sit in `to`
+  updates.forEach(task => {
+    const index = to.findIndex(t => t.id === task.id)
+    result.splice(Math.min(index, result.length), 0, task)
+  })
+  return result
+}
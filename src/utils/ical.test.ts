@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { Task, TaskStatus } from '@/types/task'
+import { exportTasksToIcs, parseIcsImport } from './ical'
+
+const now = new Date(Date.UTC(2026, 9, 19, 12))
+
+const makeTask = (status: TaskStatus): Task => ({
+  id: status,
+  title: `A ${status} task`,
+  priority: 'medium',
+  status,
+  dueDate: new Date(2026, 9, 20),
+  completedAt: status === 'completed' ? now : null,
+  createdAt: now,
+  updatedAt: now,
+})
+
+describe('iCalendar export', () => {
+  it.each([
+    ['pending', 'NEEDS-ACTION'],
+    ['completed', 'COMPLETED'],
+    ['archived', 'CANCELLED'],
+  ] as const)('writes %s tasks as STATUS:%s and reads them back', (status, icsStatus) => {
+    const ics = exportTasksToIcs([makeTask(status)], 'VTODO', now)
+
+    expect(ics).toContain(`STATUS:${icsStatus}\r\n`)
+    expect(parseIcsImport(ics, now)[0].task?.status).toBe(status)
+  })
+
+  it('only writes COMPLETED dates for completed tasks', () => {
+    const archived = { ...makeTask('archived'), completedAt: now }
+
+    expect(exportTasksToIcs([archived], 'VTODO', now)).not.toContain('\r\nCOMPLETED:')
+  })
+})
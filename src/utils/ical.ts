@@ -0,0 +1,299 @@
+import { Task, TaskPriority, TaskStatus } from '@/types/task'
+import { ImportRow, validateImportedTask } from './taskImport'
+import { addDays, parseDateInputValue, toDateInputValue, zonedTimeToDate } from './date'
+import { generateTaskId } from './task'
+
+/**
+ * Calendar component used for exported tasks
+ * VTODO keeps completion state; VEVENT shows up in calendars that ignore to-dos
+ */
+export type IcsComponent = 'VTODO' | 'VEVENT'
+
+/**
+ * iCalendar PRIORITY values (1 = highest, 9 = lowest)
+ */
+const ICS_PRIORITIES: Record<TaskPriority, number> = {
+  urgent: 1,
+  high: 3,
+  medium: 5,
+  low: 9,
+}
+
+/**
+ * VTODO STATUS values; archived tasks were dropped rather than done
+ */
+const ICS_STATUSES: Record<TaskStatus, string> = {
+  pending: 'NEEDS-ACTION',
+  completed: 'COMPLETED',
+  archived: 'CANCELLED',
+}
+
+/**
+ * A parsed content line, e.g. DUE;VALUE=DATE:20240501
+ */
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+/**
+ * Escape a TEXT value
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Undo TEXT escaping
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  )
+}
+
+/**
+ * Fold a content line to at most 75 characters per physical line
+ */
+function foldLine(line: string): string {
+  const parts: string[] = []
+  let rest = line
+  while (rest.length > 75) {
+    parts.push(rest.slice(0, 75))
+    rest = ' ' + rest.slice(75)
+  }
+  parts.push(rest)
+  return parts.join('\r\n')
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME, e.g. 20240501T153000Z
+ */
+function formatUtcDateTime(date: Date): string {
+  return new Date(date)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
+
+/**
+ * Format a local calendar date as a DATE, e.g. 20240501
+ */
+function formatDate(date: Date): string {
+  return toDateInputValue(date).replace(/-/g, '')
+}
+
+/**
+ * Build the due date property (DUE or DTSTART) of a task
+ */
+function formatDueProperty(name: string, task: Task): string {
+  const dueDate = task.dueDate as Date
+  return task.hasDueTime
+    ? `${name}:${formatUtcDateTime(dueDate)}`
+    : `${name};VALUE=DATE:${formatDate(dueDate)}`
+}
+
+/**
+ * Build the content lines of one task
+ */
+function taskToComponent(task: Task, component: IcsComponent, now: Date): string[] {
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${escapeText(task.id)}`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    `CREATED:${formatUtcDateTime(task.createdAt)}`,
+    `LAST-MODIFIED:${formatUtcDateTime(task.updatedAt)}`,
+    `SUMMARY:${escapeText(task.title)}`,
+  ]
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`)
+  lines.push(`PRIORITY:${ICS_PRIORITIES[task.priority]}`)
+  if (task.tags && task.tags.length > 0) {
+    lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`)
+  }
+
+  if (component === 'VTODO') {
+    lines.push(formatDueProperty('DUE', task))
+    lines.push(`STATUS:${ICS_STATUSES[task.status]}`)
+    if (task.status === 'completed' && task.completedAt) {
+      lines.push(`COMPLETED:${formatUtcDateTime(task.completedAt)}`)
+    }
+  } else {
+    lines.push(formatDueProperty('DTSTART', task))
+    // All-day events end the following day; timed tasks are instants
+    if (!task.hasDueTime) {
+      lines.push(`DTEND;VALUE=DATE:${formatDate(addDays(task.dueDate as Date, 1))}`)
+    }
+  }
+
+  lines.push(`END:${component}`)
+  return lines
+}
+
+/**
+ * Export the tasks that have a due date as an iCalendar file
+ */
+export function exportTasksToIcs(
+  tasks: Task[],
+  component: IcsComponent = 'VTODO',
+  now: Date = new Date()
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//NimbusTodo//Tasks//EN',
+    'CALSCALE:GREGORIAN',
+    ...tasks.filter(task => task.dueDate).flatMap(task => taskToComponent(task, component, now)),
+    'END:VCALENDAR',
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * Split iCalendar text into unfolded content lines
+ */
+function parseContentLines(text: string): ContentLine[] {
+  return text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .flatMap(line => {
+      const match = /^([A-Za-z0-9-]+)((?:;[^:]*)?):(.*)$/.exec(line)
+      if (!match) return []
+
+      const params: Record<string, string> = {}
+      match[2]
+        .split(';')
+        .filter(Boolean)
+        .forEach(param => {
+          const [key, ...value] = param.split('=')
+          params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '')
+        })
+      return [{ name: match[1].toUpperCase(), params, value: match[3] }]
+    })
+}
+
+/**
+ * Parse a DATE or DATE-TIME value
+ * DATE values and floating times are read in the local time zone, TZID times in that zone
+ */
+function parseIcsDate(line: ContentLine): { date: Date; hasTime: boolean } {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(line.value.trim())
+  if (!match) throw new Error(`Invalid date "${line.value}"`)
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match
+  const dateValue = `${year}-${month}-${day}`
+  if (!hours) {
+    return { date: parseDateInputValue(dateValue) as Date, hasTime: false }
+  }
+  if (utc) {
+    return {
+      date: new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds)),
+      hasTime: true,
+    }
+  }
+  if (line.params.TZID) {
+    try {
+      const zoned = zonedTimeToDate(dateValue, `${hours}:${minutes}`, line.params.TZID)
+      if (zoned) return { date: zoned, hasTime: true }
+    } catch {
+      // Unknown time zone names fall back to local time
+    }
+  }
+  return { date: new Date(+year, +month - 1, +day, +hours, +minutes, +seconds), hasTime: true }
+}
+
+/**
+ * Map an iCalendar PRIORITY (0 = undefined, 1 = highest, 9 = lowest) to a task priority
+ */
+function parseIcsPriority(value: string | undefined): TaskPriority {
+  const priority = Number(value)
+  if (!priority) return 'medium'
+  if (priority <= 2) return 'urgent'
+  if (priority <= 4) return 'high'
+  if (priority <= 5) return 'medium'
+  return 'low'
+}
+
+/**
+ * Read the VTODO items of an iCalendar file into import rows
+ * Other components (events, alarms, time zones) are ignored
+ */
+export function parseIcsImport(text: string, now: Date = new Date()): ImportRow[] {
+  const lines = parseContentLines(text)
+  if (!lines.some(line => line.name === 'BEGIN' && line.value.toUpperCase() === 'VCALENDAR')) {
+    throw new Error('The file is not an iCalendar file.')
+  }
+
+  const rows: ImportRow[] = []
+  let todo: ContentLine[] | null = null
+  let depth = 0
+
+  lines.forEach(line => {
+    const value = line.value.toUpperCase()
+    if (line.name === 'BEGIN' && value === 'VTODO' && !todo) {
+      todo = []
+      depth = 0
+    } else if (todo && line.name === 'BEGIN') {
+      depth++
+    } else if (todo && line.name === 'END' && depth > 0) {
+      depth--
+    } else if (todo && line.name === 'END' && value === 'VTODO') {
+      rows.push(parseTodo(todo, rows.length + 1, now))
+      todo = null
+    } else if (todo && depth === 0) {
+      todo.push(line)
+    }
+  })
+
+  return rows
+}
+
+/**
+ * Convert the properties of one VTODO into an import row
+ */
+function parseTodo(properties: ContentLine[], row: number, now: Date): ImportRow {
+  const errors: string[] = []
+  const get = (name: string) => properties.find(line => line.name === name)
+  const getDate = (name: string) => {
+    const line = get(name)
+    if (!line) return null
+    try {
+      return parseIcsDate(line)
+    } catch (error) {
+      errors.push(`${name}: ${(error as Error).message}`)
+      return null
+    }
+  }
+
+  const due = getDate('DUE') || getDate('DTSTART')
+  const icsStatus = get('STATUS')?.value.toUpperCase()
+  const status: TaskStatus =
+    icsStatus === 'COMPLETED' ? 'completed' : icsStatus === 'CANCELLED' ? 'archived' : 'pending'
+  const tags = properties
+    .filter(line => line.name === 'CATEGORIES')
+    .flatMap(line => line.value.split(/(?<!\\),/))
+    .map(tag => unescapeText(tag).trim())
+    .filter(Boolean)
+  const description = get('DESCRIPTION')
+
+  const task: Task = {
+    id: get('UID') ? unescapeText((get('UID') as ContentLine).value) : generateTaskId(),
+    title: unescapeText(get('SUMMARY')?.value || '').trim(),
+    description: description ? unescapeText(description.value) : undefined,
+    status,
+    priority: parseIcsPriority(get('PRIORITY')?.value),
+    dueDate: due?.date || null,
+    hasDueTime: due?.hasTime || false,
+    tags: tags.length > 0 ? tags : undefined,
+    createdAt: getDate('CREATED')?.date || now,
+    updatedAt: getDate('LAST-MODIFIED')?.date || now,
+    completedAt: status === 'completed' ? getDate('COMPLETED')?.date || now : null,
+  }
+
+  errors.push(...validateImportedTask(task))
+  return { row, task: errors.length > 0 ? null : task, errors }
+}
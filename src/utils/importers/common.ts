@@ -0,0 +1,50 @@
+import { Subtask, TaskInput } from '@/types/task'
+import { TaskList } from '@/types/list'
+
+/**
+ * Tasks converted from another tool's export
+ */
+export interface ExternalImportResult {
+  inputs: TaskInput[]
+  /** List or project names with no matching list; their tasks go to the Inbox */
+  unmatchedLists: string[]
+}
+
+export interface ExternalImportOptions {
+  /** Lists that list and project names are matched against, by name */
+  lists?: TaskList[]
+  /** Reference time for relative dates (defaults to now) */
+  now?: Date
+}
+
+/**
+ * Find the id of the list with a given name (case-insensitive)
+ * Names that match no list are added to `unmatched`
+ */
+export function resolveListId(
+  name: string | undefined,
+  lists: TaskList[],
+  unmatched: string[]
+): string | undefined {
+  const trimmed = name?.trim()
+  if (!trimmed) return undefined
+
+  const list = lists.find(l => l.name.toLowerCase() === trimmed.toLowerCase())
+  if (list) return list.id
+  if (!unmatched.includes(trimmed)) unmatched.push(trimmed)
+  return undefined
+}
+
+/**
+ * Build subtasks from checklist items
+ * Ids are derived from the position so the result stays deterministic
+ */
+export function toSubtasks(items: { title: string; done: boolean }[]): Subtask[] | undefined {
+  if (items.length === 0) return undefined
+  return items.map((item, index) => ({
+    id: `subtask-import-${index}`,
+    title: item.title,
+    done: item.done,
+    order: index,
+  }))
+}
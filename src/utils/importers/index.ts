@@ -0,0 +1,11 @@
+/**
+ * Importers for other tools' exports
+ *
+ * Each importer is a pure function from file contents to TaskInput objects, matching
+ * list and project names against existing lists.
+ */
+
+export type { ExternalImportResult, ExternalImportOptions } from './common'
+export { importTodoistCsv, isTodoistCsv } from './todoist'
+export { importTrelloBoard, isTrelloBoard } from './trello'
+export { importMarkdownChecklist } from './markdown'
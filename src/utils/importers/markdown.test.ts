@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { TaskList } from '@/types/list'
+import { importMarkdownChecklist } from './markdown'
+import markdown from './__fixtures__/checklist.md?raw'
+
+const lists: TaskList[] = [
+  { id: 'groceries', name: 'Groceries', color: 'orange', icon: '🛒', sortOrder: 0 },
+]
+
+describe('importMarkdownChecklist', () => {
+  it('turns top-level checklist items into tasks', () => {
+    const { inputs } = importMarkdownChecklist(markdown, { lists })
+    expect(inputs.map(input => [input.title, input.status])).toEqual([
+      ['Buy milk', 'pending'],
+      ['Buy bread', 'completed'],
+      ['Learn to juggle', 'pending'],
+    ])
+  })
+
+  it('reads inline tags, priorities and due dates', () => {
+    const [milk, bread, juggle] = importMarkdownChecklist(markdown, { lists }).inputs
+    expect(milk.tags).toEqual(['shopping'])
+    expect(milk.priority).toBe('high')
+    expect(milk.dueDate).toEqual(new Date(2026, 9, 21))
+    expect(bread.tags).toBeUndefined()
+    expect(bread.priority).toBe('medium')
+    expect(bread.dueDate).toBeNull()
+    expect(juggle.tags).toEqual(['fun'])
+    expect(juggle.dueDate).toEqual(new Date(2026, 11, 1))
+  })
+
+  it('turns indented items into subtasks', () => {
+    const [milk, bread] = importMarkdownChecklist(markdown, { lists }).inputs
+    expect(milk.subtasks).toBeUndefined()
+    expect(bread.subtasks?.map(subtask => [subtask.title, subtask.done])).toEqual([
+      ['Check the bakery', true],
+      ['Ask about rye', false],
+    ])
+  })
+
+  it('puts items in the list named by the heading above them', () => {
+    const result = importMarkdownChecklist(markdown, { lists })
+    expect(result.inputs.map(input => input.listId)).toEqual(['groceries', 'groceries', undefined])
+    expect(result.unmatchedLists).toEqual(['Someday'])
+  })
+})
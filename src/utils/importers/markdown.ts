@@ -0,0 +1,98 @@
+import { TaskInput, TaskPriority } from '@/types/task'
+import { PRIORITY_ALIASES } from '@/utils/parseQuickEntry'
+import { parseDateInputValue } from '@/utils/date'
+import { ExternalImportOptions, ExternalImportResult, resolveListId, toSubtasks } from './common'
+
+/**
+ * A checklist item, e.g. "  - [x] Buy milk"
+ */
+const CHECKLIST_ITEM = /^(\s*)[-*+] \[( |x|X)\] (.*)$/
+
+/**
+ * A heading, e.g. "## Groceries"
+ */
+const HEADING = /^#{1,6} (.+)$/
+
+/**
+ * Pull #tags, !priority and a due date (due:YYYY-MM-DD or 📅 YYYY-MM-DD) out of item text
+ */
+function parseItemText(text: string): Pick<TaskInput, 'title' | 'tags' | 'priority' | 'dueDate'> {
+  const tags: string[] = []
+  let priority: TaskPriority = 'medium'
+  let dueDate: Date | null = null
+
+  const title = text
+    .replace(/(?:due:|📅\s*)(\d{4}-\d{2}-\d{2})/gu, (_, date: string) => {
+      dueDate = parseDateInputValue(date)
+      return ''
+    })
+    .replace(/(^|\s)([#!])([\w-]+)/g, (token, lead: string, sigil: string, word: string) => {
+      if (sigil === '#') {
+        if (!tags.includes(word)) tags.push(word)
+        return lead
+      }
+      const alias = PRIORITY_ALIASES[word.toLowerCase()]
+      if (!alias) return token
+      priority = alias
+      return lead
+    })
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  return { title, tags: tags.length > 0 ? tags : undefined, priority, dueDate }
+}
+
+/**
+ * Convert a Markdown checklist into tasks
+ *
+ * Top-level `- [ ]` / `- [x]` items become tasks (checked items are completed), items
+ * indented below them become their subtasks, and a heading puts the items under it in
+ * the list of the same name. Inline #tags, !priority and due:YYYY-MM-DD are recognised.
+ */
+export function importMarkdownChecklist(
+  text: string,
+  { lists = [] }: ExternalImportOptions = {}
+): ExternalImportResult {
+  const inputs: TaskInput[] = []
+  const unmatchedLists: string[] = []
+  let listId: string | undefined
+  let current: {
+    input: TaskInput
+    indent: number
+    items: { title: string; done: boolean }[]
+  } | null = null
+
+  const flush = () => {
+    if (current) inputs.push({ ...current.input, subtasks: toSubtasks(current.items) })
+    current = null
+  }
+
+  text.split(/\r?\n/).forEach(line => {
+    const heading = HEADING.exec(line)
+    if (heading) {
+      flush()
+      listId = resolveListId(heading[1], lists, unmatchedLists)
+      return
+    }
+
+    const item = CHECKLIST_ITEM.exec(line)
+    if (!item) return
+
+    const indent = item[1].replace(/\t/g, '  ').length
+    const done = item[2] !== ' '
+    if (current && indent > current.indent) {
+      current.items.push({ title: item[3].trim(), done })
+      return
+    }
+
+    flush()
+    current = {
+      input: { ...parseItemText(item[3]), status: done ? 'completed' : 'pending', listId },
+      indent,
+      items: [],
+    }
+  })
+  flush()
+
+  return { inputs, unmatchedLists }
+}
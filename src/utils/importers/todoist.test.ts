@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { TaskList } from '@/types/list'
+import { importTodoistCsv, isTodoistCsv } from './todoist'
+import csv from './__fixtures__/todoist.csv?raw'
+
+const lists: TaskList[] = [{ id: 'work', name: 'Work', color: 'blue', icon: '💼', sortOrder: 0 }]
+const now = new Date(2026, 9, 19, 12)
+
+describe('importTodoistCsv', () => {
+  it('recognises the export header', () => {
+    expect(isTodoistCsv(csv.split('\n')[0].split(','))).toBe(true)
+    expect(isTodoistCsv(['title', 'priority'])).toBe(false)
+  })
+
+  it('imports task rows and skips sections and notes', () => {
+    const { inputs } = importTodoistCsv(csv, { lists, now })
+    expect(inputs.map(input => input.title)).toEqual([
+      'Write launch plan',
+      'Call the printer',
+      'Water plants',
+      'Tidy desk',
+    ])
+  })
+
+  it('turns @labels into tags and keeps the description', () => {
+    const [plan, printer] = importTodoistCsv(csv, { lists, now }).inputs
+    expect(plan.tags).toEqual(['work', 'writing'])
+    expect(plan.description).toBe('Outline, owners and dates')
+    expect(printer.tags).toEqual(['errands'])
+  })
+
+  it('maps p1–p4 onto urgent–medium', () => {
+    const { inputs } = importTodoistCsv(csv, { lists, now })
+    expect(inputs.map(input => input.priority)).toEqual(['urgent', 'high', 'medium', 'medium'])
+  })
+
+  it('reads ISO, timed and recurring due dates', () => {
+    const [plan, printer, plants, desk] = importTodoistCsv(csv, { lists, now }).inputs
+    expect(plan.dueDate).toEqual(new Date(2026, 9, 22))
+    expect(plan.hasDueTime).toBe(false)
+    expect(printer.dueDate).toEqual(new Date('2026-10-20T15:00:00Z'))
+    expect(printer.hasDueTime).toBe(true)
+    // A recurring date keeps only its next occurrence
+    expect(plants.dueDate).toEqual(new Date(2026, 9, 23))
+    expect(desk.dueDate).toBeUndefined()
+  })
+
+  it('turns indented tasks into subtasks of the task above', () => {
+    const [plan, printer] = importTodoistCsv(csv, { lists, now }).inputs
+    expect(plan.subtasks?.map(subtask => [subtask.title, subtask.done, subtask.order])).toEqual([
+      ['Collect feedback', false, 0],
+      ['Book venue', false, 1],
+    ])
+    expect(printer.subtasks).toBeUndefined()
+  })
+
+  it('puts the tasks in the list named after the project', () => {
+    const result = importTodoistCsv(csv, { lists, now, projectName: 'work' })
+    expect(result.inputs.every(input => input.listId === 'work')).toBe(true)
+    expect(result.unmatchedLists).toEqual([])
+  })
+
+  it('reports a project without a matching list', () => {
+    const result = importTodoistCsv(csv, { lists, now, projectName: 'Garden' })
+    expect(result.inputs.every(input => input.listId === undefined)).toBe(true)
+    expect(result.unmatchedLists).toEqual(['Garden'])
+  })
+})
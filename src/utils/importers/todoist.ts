@@ -0,0 +1,106 @@
+import { TaskInput, TaskPriority } from '@/types/task'
+import { parseCsv } from '@/utils/csv'
+import { parseQuickEntry } from '@/utils/parseQuickEntry'
+import { parseDateInputValue } from '@/utils/date'
+import { ExternalImportOptions, ExternalImportResult, resolveListId, toSubtasks } from './common'
+
+interface TodoistImportOptions extends ExternalImportOptions {
+  /** Project the export belongs to; Todoist names the file after it */
+  projectName?: string
+}
+
+/**
+ * Todoist priorities: 4 is p1 (highest), 1 is p4 (the default, no priority)
+ */
+const TODOIST_PRIORITIES: Record<string, TaskPriority> = {
+  '4': 'urgent',
+  '3': 'high',
+  '2': 'medium',
+  '1': 'medium',
+}
+
+/**
+ * Check whether a CSV header row looks like a Todoist export
+ */
+export function isTodoistCsv(header: string[]): boolean {
+  const columns = header.map(column => column.trim().toUpperCase())
+  return columns.includes('TYPE') && columns.includes('CONTENT') && columns.includes('PRIORITY')
+}
+
+/**
+ * Read a Todoist due date
+ * ISO dates are used as-is; natural language ("tomorrow", "Oct 20 5pm") goes through the
+ * quick entry parser. Recurring phrases such as "every day" keep only their next date.
+ */
+function parseTodoistDate(value: string, now: Date): Pick<TaskInput, 'dueDate' | 'hasDueTime'> {
+  if (!value) return {}
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return { dueDate: parseDateInputValue(value), hasDueTime: false }
+  }
+  if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? {} : { dueDate: date, hasDueTime: true }
+  }
+  const { input } = parseQuickEntry(value.replace(/^every\s+/i, ''), { now })
+  return { dueDate: input.dueDate, hasDueTime: input.hasDueTime }
+}
+
+/**
+ * Convert a Todoist project CSV export into tasks
+ *
+ * Task rows become tasks, @labels in the content become tags, PRIORITY maps p1–p4 onto
+ * urgent–medium and indented tasks (INDENT > 1) become subtasks of the task above them.
+ * Sections and notes are skipped.
+ */
+export function importTodoistCsv(
+  text: string,
+  { lists = [], now = new Date(), projectName }: TodoistImportOptions = {}
+): ExternalImportResult {
+  const [header = [], ...rows] = parseCsv(text)
+  const columns = header.map(column => column.trim().toUpperCase())
+  const unmatchedLists: string[] = []
+  const listId = resolveListId(projectName, lists, unmatchedLists)
+  const inputs: TaskInput[] = []
+  let parent: { input: TaskInput; items: { title: string; done: boolean }[] } | null = null
+
+  const flush = () => {
+    if (parent) inputs.push({ ...parent.input, subtasks: toSubtasks(parent.items) })
+    parent = null
+  }
+
+  rows.forEach(cells => {
+    const get = (column: string) => (cells[columns.indexOf(column)] || '').trim()
+    if (get('TYPE').toLowerCase() !== 'task') return
+
+    const tags: string[] = []
+    const title = get('CONTENT')
+      .replace(/(^|\s)@([\w-]+)/g, (_, lead: string, label: string) => {
+        if (!tags.includes(label)) tags.push(label)
+        return lead
+      })
+      .replace(/\s+/g, ' ')
+      .trim()
+
+    if (parent && Number(get('INDENT')) > 1) {
+      parent.items.push({ title, done: false })
+      return
+    }
+
+    flush()
+    parent = {
+      input: {
+        title,
+        description: get('DESCRIPTION') || undefined,
+        priority: TODOIST_PRIORITIES[get('PRIORITY')] || 'medium',
+        ...parseTodoistDate(get('DATE'), now),
+        timeZone: get('TIMEZONE') || undefined,
+        tags: tags.length > 0 ? tags : undefined,
+        listId,
+      },
+      items: [],
+    }
+  })
+  flush()
+
+  return { inputs, unmatchedLists }
+}
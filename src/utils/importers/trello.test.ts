@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { TaskList } from '@/types/list'
+import { importTrelloBoard, isTrelloBoard } from './trello'
+import board from './__fixtures__/trello.json'
+
+const lists: TaskList[] = [{ id: 'doing', name: 'doing', color: 'green', icon: '🚧', sortOrder: 0 }]
+
+describe('importTrelloBoard', () => {
+  it('only accepts Trello board exports', () => {
+    expect(isTrelloBoard(board)).toBe(true)
+    expect(() => importTrelloBoard({ cards: [] })).toThrow('not a Trello board export')
+  })
+
+  it('turns cards into tasks', () => {
+    const { inputs } = importTrelloBoard(board, { lists })
+    expect(inputs.map(input => input.title)).toEqual([
+      'Design landing page',
+      'Ship newsletter',
+      'Podcast',
+    ])
+    expect(inputs[0].description).toBe('Hero and pricing sections')
+  })
+
+  it('turns labels into tags and priority labels into the priority', () => {
+    const [landing, newsletter, podcast] = importTrelloBoard(board, { lists }).inputs
+    expect(landing.priority).toBe('high')
+    expect(landing.tags).toEqual(['design'])
+    // Labels without a name are named after their color
+    expect(newsletter.tags).toEqual(['green'])
+    expect(newsletter.priority).toBe('medium')
+    expect(podcast.tags).toBeUndefined()
+  })
+
+  it('reads due dates and the card state', () => {
+    const [landing, newsletter, podcast] = importTrelloBoard(board, { lists }).inputs
+    expect(landing.dueDate).toEqual(new Date('2026-10-21T09:30:00.000Z'))
+    expect(landing.hasDueTime).toBe(true)
+    expect(landing.status).toBe('pending')
+    expect(newsletter.status).toBe('completed')
+    expect(podcast.dueDate).toBeNull()
+    expect(podcast.status).toBe('archived')
+  })
+
+  it('turns checklists into subtasks in checklist order', () => {
+    const [landing, newsletter] = importTrelloBoard(board, { lists }).inputs
+    expect(landing.subtasks?.map(subtask => [subtask.title, subtask.done])).toEqual([
+      ['Hero copy', true],
+      ['Pricing table', false],
+    ])
+    expect(newsletter.subtasks).toBeUndefined()
+  })
+
+  it('matches Trello lists by name and reports the others', () => {
+    const result = importTrelloBoard(board, { lists })
+    expect(result.inputs.map(input => input.listId)).toEqual(['doing', 'doing', undefined])
+    expect(result.unmatchedLists).toEqual(['Ideas'])
+  })
+})
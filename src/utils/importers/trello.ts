@@ -0,0 +1,99 @@
+import { TaskInput, TaskPriority } from '@/types/task'
+import { PRIORITY_ALIASES } from '@/utils/parseQuickEntry'
+import { ExternalImportOptions, ExternalImportResult, resolveListId, toSubtasks } from './common'
+
+/**
+ * The parts of a Trello board export that are imported
+ */
+interface TrelloBoard {
+  lists?: { id: string; name: string }[]
+  cards?: {
+    id: string
+    name: string
+    desc?: string
+    idList?: string
+    due?: string | null
+    dueComplete?: boolean
+    closed?: boolean
+    labels?: { name?: string; color?: string | null }[]
+  }[]
+  checklists?: {
+    idCard: string
+    checkItems?: { name: string; state: 'complete' | 'incomplete'; pos?: number }[]
+  }[]
+}
+
+/**
+ * Check whether parsed JSON looks like a Trello board export
+ */
+export function isTrelloBoard(data: unknown): boolean {
+  const board = data as TrelloBoard | null
+  return !!board && Array.isArray(board.cards) && Array.isArray(board.lists)
+}
+
+/**
+ * Read a priority from a label name such as "Urgent" or "High priority"
+ */
+function getLabelPriority(name: string): TaskPriority | undefined {
+  return PRIORITY_ALIASES[name.toLowerCase().replace(/\s*priority$/, '')]
+}
+
+/**
+ * Convert a Trello board JSON export into tasks
+ *
+ * Cards become tasks in the list with the same name as their Trello list. Labels become
+ * tags, except priority labels ("Urgent", "High priority") which set the priority.
+ * Checklists become subtasks, completed due dates mark the task completed and archived
+ * cards are archived.
+ * Throws an Error when the data is not a Trello board export.
+ */
+export function importTrelloBoard(
+  data: unknown,
+  { lists = [] }: ExternalImportOptions = {}
+): ExternalImportResult {
+  if (!isTrelloBoard(data)) {
+    throw new Error('The file is not a Trello board export.')
+  }
+
+  const board = data as TrelloBoard
+  const unmatchedLists: string[] = []
+  const trelloLists = new Map((board.lists || []).map(list => [list.id, list.name]))
+
+  const inputs = (board.cards || []).map((card): TaskInput => {
+    const tags: string[] = []
+    let priority: TaskPriority = 'medium'
+    ;(card.labels || []).forEach(label => {
+      const name = label.name?.trim() || label.color || ''
+      const labelPriority = getLabelPriority(name)
+      if (labelPriority) {
+        priority = labelPriority
+      } else if (name && !tags.includes(name)) {
+        tags.push(name)
+      }
+    })
+
+    const checkItems = (board.checklists || [])
+      .filter(checklist => checklist.idCard === card.id)
+      .flatMap(checklist =>
+        [...(checklist.checkItems || [])].sort((a, b) => (a.pos || 0) - (b.pos || 0))
+      )
+      .map(item => ({ title: item.name, done: item.state === 'complete' }))
+
+    const due = card.due ? new Date(card.due) : null
+    const hasDue = !!due && !isNaN(due.getTime())
+
+    return {
+      title: card.name.trim(),
+      description: card.desc?.trim() || undefined,
+      priority,
+      status: card.closed ? 'archived' : card.dueComplete ? 'completed' : 'pending',
+      dueDate: hasDue ? due : null,
+      hasDueTime: hasDue || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      listId: resolveListId(trelloLists.get(card.idList || ''), lists, unmatchedLists),
+      subtasks: toSubtasks(checkItems),
+    }
+  })
+
+  return { inputs, unmatchedLists }
+}
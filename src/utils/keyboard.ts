@@ -0,0 +1,44 @@
+/**
+ * A keyboard shortcut listed in the help overlay
+ */
+export interface KeyboardShortcut {
+  keys: string[]
+  description: string
+}
+
+/**
+ * Global shortcuts of the task list, as shown in the help overlay
+ */
+export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
+  { keys: ['j'], description: 'Next task' },
+  { keys: ['k'], description: 'Previous task' },
+  { keys: ['x'], description: 'Complete or reopen the selected task' },
+  { keys: ['e'], description: 'Open the selected task' },
+  { keys: ['#', '1–4'], description: 'Set priority (1 urgent, 2 high, 3 medium, 4 low)' },
+  { keys: ['n'], description: 'New task' },
+  { keys: ['/'], description: 'Search' },
+  { keys: ['Ctrl', 'K'], description: 'Command palette' },
+  { keys: ['Ctrl', 'Z'], description: 'Undo' },
+  { keys: ['Ctrl', 'Shift', 'Z'], description: 'Redo' },
+  { keys: ['?'], description: 'Show keyboard shortcuts' },
+]
+
+/**
+ * Whether a key event comes from a text field, where keys type text
+ */
+export function isEditingText(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  )
+}
+
+/**
+ * Get the name a key event is bound under, e.g. "j", "?" or "mod+k" (Ctrl or ⌘)
+ */
+export function getShortcutName(e: KeyboardEvent): string {
+  return e.ctrlKey || e.metaKey ? `mod+${e.key.toLowerCase()}` : e.key
+}
@@ -0,0 +1,85 @@
+import { Task } from '@/types/task'
+import { TaskList, TaskListColor, TaskListInput } from '@/types/list'
+
+/**
+ * Id of the built-in Inbox list
+ * Tasks without a listId belong to the Inbox
+ */
+export const INBOX_LIST_ID = 'inbox'
+
+/**
+ * Colors offered when creating a list, in display order
+ */
+export const LIST_COLORS: TaskListColor[] = [
+  'blue',
+  'green',
+  'red',
+  'orange',
+  'purple',
+  'pink',
+  'gray',
+]
+
+/**
+ * Create the default Inbox list
+ */
+export function createInboxList(): TaskList {
+  return {
+    id: INBOX_LIST_ID,
+    name: 'Inbox',
+    color: 'blue',
+    icon: '📥',
+    sortOrder: 0,
+  }
+}
+
+/**
+ * Build a new list from a creation payload, placing it after the existing lists
+ */
+export function createTaskList(input: TaskListInput, existing: TaskList[]): TaskList {
+  const maxOrder = existing.reduce((max, list) => Math.max(max, list.sortOrder), 0)
+  return {
+    id: `list-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name: input.name,
+    color: input.color || 'gray',
+    icon: input.icon || '📋',
+    sortOrder: maxOrder + 1,
+  }
+}
+
+/**
+ * Get the id of the list a task belongs to (falls back to the Inbox)
+ */
+export function getTaskListId(task: Task): string {
+  return task.listId || INBOX_LIST_ID
+}
+
+/**
+ * Get all tasks that belong to a list
+ */
+export function getTasksInList(tasks: Task[], listId: string): Task[] {
+  return tasks.filter(task => getTaskListId(task) === listId)
+}
+
+/**
+ * Sort lists by their sort order
+ */
+export function sortLists(lists: TaskList[]): TaskList[] {
+  return [...lists].sort((a, b) => a.sortOrder - b.sortOrder)
+}
+
+/**
+ * Gets the color styling for a list's accent dot
+ */
+export function getListColorClass(color: TaskListColor): string {
+  const classes: Record<TaskListColor, string> = {
+    blue: 'bg-blue-500',
+    green: 'bg-green-500',
+    red: 'bg-red-500',
+    orange: 'bg-orange-500',
+    purple: 'bg-purple-500',
+    pink: 'bg-pink-500',
+    gray: 'bg-gray-500',
+  }
+  return classes[color]
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { Task } from '@/types/task'
+import {
+  compareManualOrder,
+  getOrderKeyBetween,
+  getOrderKeys,
+  getOrderKeysBetween,
+  getReorderChanges,
+} from './order'
+
+const isSorted = (keys: string[]) => keys.every((key, i) => i === 0 || keys[i - 1] < key)
+
+const task = (id: string, order?: string): Task => ({
+  id,
+  title: id,
+  priority: 'medium',
+  status: 'pending',
+  order,
+  createdAt: new Date(2026, 0, 1),
+  updatedAt: new Date(2026, 0, 1),
+})
+
+/**
+ * Apply order changes and return the task ids in their new manual order
+ */
+const applyChanges = (tasks: Task[], changes: { id: string; order: string }[]) =>
+  tasks
+    .map(t => ({ ...t, order: changes.find(change => change.id === t.id)?.order ?? t.order }))
+    .sort(compareManualOrder)
+    .map(t => t.id)
+
+describe('getOrderKeys', () => {
+  it.each([
+    [1, 1],
+    [35, 1],
+    [36, 2],
+    [1000, 2],
+    [5000, 3],
+  ])('gives %i items sorted keys of at most %i characters', (count, width) => {
+    const keys = getOrderKeys(count)
+    expect(keys).toHaveLength(count)
+    expect(isSorted(keys)).toBe(true)
+    expect(Math.max(...keys.map(key => key.length))).toBeLessThanOrEqual(width)
+    expect(keys.some(key => key.endsWith('0'))).toBe(false)
+  })
+
+  it('leaves room to insert between any two keys', () => {
+    const keys = getOrderKeys(100)
+    keys.slice(1).forEach((key, i) => {
+      const between = getOrderKeyBetween(keys[i], key)
+      expect(keys[i] < between && between < key).toBe(true)
+    })
+  })
+})
+
+describe('getOrderKeysBetween', () => {
+  it('spreads keys between two keys', () => {
+    const keys = getOrderKeysBetween('a', 'b', 50)
+    expect(isSorted(['a', ...keys, 'b'])).toBe(true)
+    expect(Math.max(...keys.map(key => key.length))).toBe(3)
+  })
+
+  it('spreads keys between adjacent keys', () => {
+    const keys = getOrderKeysBetween('a', 'a1', 3)
+    expect(isSorted(['a', ...keys, 'a1'])).toBe(true)
+  })
+})
+
+describe('getReorderChanges', () => {
+  it('only changes the moved task when every task is ordered', () => {
+    const keys = getOrderKeys(4)
+    const tasks = ['a', 'b', 'c', 'd'].map((id, i) => task(id, keys[i]))
+    const changes = getReorderChanges(tasks, 'd', 1)
+    expect(changes.map(change => change.id)).toEqual(['d'])
+    expect(applyChanges(tasks, changes)).toEqual(['a', 'd', 'b', 'c'])
+  })
+
+  it('keys a large unordered group with short keys', () => {
+    const tasks = Array.from({ length: 5000 }, (_, i) => task(`t${i}`))
+    const changes = getReorderChanges(tasks, 't4999', 0)
+    expect(changes).toHaveLength(5000)
+    expect(Math.max(...changes.map(change => change.order.length))).toBeLessThanOrEqual(3)
+    expect(applyChanges(tasks, changes).slice(0, 3)).toEqual(['t4999', 't0', 't1'])
+  })
+
+  it('keeps the keys of ordered tasks when some are unordered', () => {
+    const keys = getOrderKeys(3)
+    const tasks = [task('a', keys[0]), task('b', keys[1]), task('c', keys[2])]
+    tasks.push(task('d'), task('e'))
+
+    const changes = getReorderChanges(tasks, 'a', 2)
+    expect(changes.map(change => change.id).sort()).toEqual(['a', 'd', 'e'])
+    expect(applyChanges(tasks, changes)).toEqual(['b', 'c', 'a', 'd', 'e'])
+  })
+
+  it('gives tasks sharing a key their own keys', () => {
+    const tasks = [task('a', 'i'), task('b', 'i'), task('c', 'r')]
+    const changes = getReorderChanges(tasks, 'c', 0)
+    expect(applyChanges(tasks, changes)).toEqual(['c', 'a', 'b'])
+  })
+})
@@ -0,0 +1,161 @@
+import { Task } from '@/types/task'
+
+/**
+ * Digits of order keys, in sort order
+ */
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz'
+
+/**
+ * A task's new position in the manual order
+ */
+export interface TaskOrderChange {
+  id: string
+  order: string
+}
+
+/**
+ * Get the key halfway between two keys (digits after an implied "0.")
+ * `after` null means no upper bound. Keys never end in "0" so there is always room.
+ */
+function midpoint(before: string, after: string | null): string {
+  if (after !== null) {
+    // Keep the shared prefix and split the remainder
+    let n = 0
+    while ((before[n] || '0') === after[n]) n++
+    if (n > 0) return after.slice(0, n) + midpoint(before.slice(n), after.slice(n))
+  }
+
+  const low = before ? DIGITS.indexOf(before[0]) : 0
+  const high = after !== null ? DIGITS.indexOf(after[0]) : DIGITS.length
+  if (high - low > 1) {
+    return DIGITS[Math.round((low + high) / 2)]
+  }
+  // Adjacent digits: a shorter key of `after` still sorts between them
+  if (after && after.length > 1) return after.slice(0, 1)
+  return DIGITS[low] + midpoint(before.slice(1), null)
+}
+
+/**
+ * Get a fractional order key that sorts between two keys
+ * Either side can be null for the start or end of the order. Keys compare as plain strings.
+ */
+export function getOrderKeyBetween(before: string | null, after: string | null): string {
+  if (before !== null && after !== null && before >= after) {
+    throw new RangeError(`Order key ${before} is not before ${after}`)
+  }
+  return midpoint(before || '', after)
+}
+
+/**
+ * Read a key as a base-36 number of `width` digits (padded with "0")
+ */
+function keyToNumber(key: string, width: number): bigint {
+  let value = 0n
+  for (let i = 0; i < width; i++) {
+    value = value * 36n + BigInt(DIGITS.indexOf(key[i] || '0'))
+  }
+  return value
+}
+
+/**
+ * Write a base-36 number as a key of `width` digits, without trailing zeros
+ */
+function numberToKey(value: bigint, width: number): string {
+  let key = ''
+  for (let i = 0; i < width; i++) {
+    key = DIGITS[Number(value % 36n)] + key
+    value /= 36n
+  }
+  return key.replace(/0+$/, '')
+}
+
+/**
+ * Get keys for a number of items that sort between two keys, spread evenly
+ * Either side can be null for the start or end of the order. The keys are only as long as
+ * needed to fit them: `count` items after nothing take ceil(log36(count + 1)) digits.
+ */
+export function getOrderKeysBetween(
+  before: string | null,
+  after: string | null,
+  count: number
+): string[] {
+  if (count <= 0) return []
+  if (before !== null && after !== null && before >= after) {
+    throw new RangeError(`Order key ${before} is not before ${after}`)
+  }
+
+  let width = Math.max(1, before?.length ?? 0, after?.length ?? 0)
+  const span = () =>
+    (after === null ? 36n ** BigInt(width) : keyToNumber(after, width)) -
+    keyToNumber(before || '', width)
+  while (span() <= BigInt(count)) width++
+
+  const start = keyToNumber(before || '', width)
+  const size = span()
+  const slots = BigInt(count + 1)
+  return Array.from({ length: count }, (_, i) =>
+    numberToKey(start + (size * BigInt(i + 1)) / slots, width)
+  )
+}
+
+/**
+ * Get evenly spread keys of a fixed length for a number of items, in order
+ */
+export function getOrderKeys(count: number): string[] {
+  return getOrderKeysBetween(null, null, count)
+}
+
+/**
+ * Compare two tasks by their manual order
+ * Tasks that were never ordered come last, oldest first
+ */
+export function compareManualOrder(a: Task, b: Task): number {
+  if (a.order && b.order) return a.order < b.order ? -1 : a.order > b.order ? 1 : 0
+  if (a.order) return -1
+  if (b.order) return 1
+  return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+}
+
+/**
+ * Get the order changes that move a task to a new index among the given tasks
+ * `tasks` are in their current manual order and `toIndex` counts them without the moved
+ * task. Tasks keep their keys while those stay in order; the moved task and tasks without
+ * a key (or sharing one) get new keys between the kept ones, so the order shown is the
+ * order stored.
+ */
+export function getReorderChanges(
+  tasks: Task[],
+  taskId: string,
+  toIndex: number
+): TaskOrderChange[] {
+  const moved = tasks.find(task => task.id === taskId)
+  if (!moved) return []
+
+  const others = tasks.filter(task => task.id !== taskId)
+  const index = Math.max(0, Math.min(toIndex, others.length))
+  const reordered = [...others.slice(0, index), moved, ...others.slice(index)]
+  if (reordered.every((task, i) => task.id === tasks[i].id)) return []
+
+  const changes: TaskOrderChange[] = []
+  let lastKey: string | null = null
+  let pending: Task[] = []
+
+  // Give the tasks waiting for a key keys between the last kept key and `nextKey`
+  const flush = (nextKey: string | null) => {
+    const keys = getOrderKeysBetween(lastKey, nextKey, pending.length)
+    pending.forEach((task, i) => changes.push({ id: task.id, order: keys[i] }))
+    pending = []
+  }
+
+  reordered.forEach(task => {
+    if (task !== moved && task.order && (lastKey === null || task.order > lastKey)) {
+      flush(task.order)
+      lastKey = task.order
+    } else {
+      pending.push(task)
+    }
+  })
+  flush(null)
+
+  return changes
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { parseQuickEntry } from './parseQuickEntry'
+
+const now = new Date(2026, 9, 19, 12)
+
+describe('parseQuickEntry', () => {
+  it.each([
+    ['Pay rent Dec 5', 'Pay rent', new Date(2026, 11, 5)],
+    ['Pay rent December 5th', 'Pay rent', new Date(2026, 11, 5)],
+    ['Review sept 3', 'Review', new Date(2027, 8, 3)],
+    ['Plan June 30', 'Plan', new Date(2027, 5, 30)],
+  ])('reads the month and day in "%s"', (text, title, dueDate) => {
+    const { input } = parseQuickEntry(text, { now })
+    expect(input.title).toBe(title)
+    expect(input.dueDate).toEqual(dueDate)
+  })
+
+  it.each(['Decide 5 options for launch', 'Marketing 2 slides', 'Junior 3 onboarding'])(
+    'keeps "%s" as the title without a due date',
+    text => {
+      const { input } = parseQuickEntry(text, { now })
+      expect(input.title).toBe(text)
+      expect(input.dueDate).toBeNull()
+    }
+  )
+})
@@ -0,0 +1,227 @@
+import { TaskInput, TaskPriority } from '@/types/task'
+import { TaskList } from '@/types/list'
+import { addDays, startOfDay } from '@/utils/date'
+
+/**
+ * Result of parsing a quick entry line
+ */
+export interface ParsedQuickEntry {
+  input: TaskInput
+  /** Name typed after @ that matched no list */
+  unknownList?: string
+}
+
+interface ParseQuickEntryOptions {
+  /** Reference time for relative dates (defaults to now) */
+  now?: Date
+  /** Lists that @list tokens are matched against by name */
+  lists?: TaskList[]
+  defaultPriority?: TaskPriority
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+const WEEKDAY_ABBREVIATIONS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+/**
+ * Priority words accepted after "!" (and Todoist-style 1–4)
+ */
+export const PRIORITY_ALIASES: Record<string, TaskPriority> = {
+  low: 'low',
+  medium: 'medium',
+  med: 'medium',
+  normal: 'medium',
+  high: 'high',
+  urgent: 'urgent',
+  '1': 'urgent',
+  '2': 'high',
+  '3': 'medium',
+  '4': 'low',
+}
+
+/**
+ * A matched date or time phrase and where it sits in the text
+ */
+interface PhraseMatch {
+  index: number
+  length: number
+}
+
+/**
+ * Get the Date.getDay() index of a full or abbreviated weekday name
+ */
+function weekdayIndex(word: string): number {
+  const lower = word.toLowerCase()
+  const full = WEEKDAYS.indexOf(lower)
+  return full !== -1 ? full : WEEKDAY_ABBREVIATIONS.indexOf(lower.slice(0, 3))
+}
+
+/**
+ * Find a relative or absolute date phrase
+ * Supports today, tonight, tomorrow, next week, (next) <weekday>, in N days/weeks/months,
+ * and <month> <day>
+ */
+function matchDate(text: string, now: Date): (PhraseMatch & { date: Date }) | null {
+  const today = startOfDay(now)
+  const weekdayPattern =
+    '(sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day|sday|nesday|rsday|urday)?'
+  const patterns: [RegExp, (m: RegExpExecArray) => Date | null][] = [
+    [/\b(today|tonight)\b/i, () => today],
+    [/\b(tomorrow|tmrw|tmr)\b/i, () => addDays(today, 1)],
+    [/\bnext week\b/i, () => addDays(today, 7)],
+    [
+      /\bin (\d+) (day|days|week|weeks|month|months)\b/i,
+      m => {
+        const amount = Number(m[1])
+        const unit = m[2].toLowerCase()
+        if (unit.startsWith('day')) return addDays(today, amount)
+        if (unit.startsWith('week')) return addDays(today, amount * 7)
+        return new Date(today.getFullYear(), today.getMonth() + amount, today.getDate())
+      },
+    ],
+    [
+      new RegExp(`\\b(next |this |on )?${weekdayPattern}\\b`, 'i'),
+      m => {
+        const target = weekdayIndex(m[2])
+        if (target === -1) return null
+        let diff = (target - today.getDay() + 7) % 7 || 7
+        // "next friday" skips a Friday that still falls in the current week
+        if (m[1]?.trim().toLowerCase() === 'next' && today.getDay() + diff <= 6) {
+          diff += 7
+        }
+        return addDays(today, diff)
+      },
+    ],
+    [
+      // Only real month names, so "Decide 5 options" or "Marketing 2 slides" stay titles
+      /\b(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?) (\d{1,2})(?:st|nd|rd|th)?\b/i,
+      m => {
+        const month = MONTHS.indexOf(m[1].toLowerCase().slice(0, 3))
+        const date = new Date(today.getFullYear(), month, Number(m[2]))
+        // Dates already past this year refer to next year
+        if (date < today) date.setFullYear(date.getFullYear() + 1)
+        return date
+      },
+    ],
+  ]
+
+  for (const [pattern, resolve] of patterns) {
+    const match = pattern.exec(text)
+    if (match) {
+      const date = resolve(match)
+      if (date) return { index: match.index, length: match[0].length, date }
+    }
+  }
+  return null
+}
+
+/**
+ * Find a time of day such as 5pm, 5:30 pm, at 17:00, noon or midnight
+ */
+function matchTime(text: string): (PhraseMatch & { hours: number; minutes: number }) | null {
+  const named = /\b(?:at )?(noon|midnight)\b/i.exec(text)
+  if (named) {
+    return {
+      index: named.index,
+      length: named[0].length,
+      hours: named[1].toLowerCase() === 'noon' ? 12 : 0,
+      minutes: 0,
+    }
+  }
+
+  const meridiem = /\b(?:at )?(\d{1,2})(?::(\d{2}))? ?(am|pm)\b/i.exec(text)
+  if (meridiem) {
+    const hours = Number(meridiem[1]) % 12
+    return {
+      index: meridiem.index,
+      length: meridiem[0].length,
+      hours: meridiem[3].toLowerCase() === 'pm' ? hours + 12 : hours,
+      minutes: Number(meridiem[2] || 0),
+    }
+  }
+
+  const clock = /\b(?:at )?([01]?\d|2[0-3]):([0-5]\d)\b/.exec(text)
+  if (clock) {
+    return {
+      index: clock.index,
+      length: clock[0].length,
+      hours: Number(clock[1]),
+      minutes: Number(clock[2]),
+    }
+  }
+  return null
+}
+
+/**
+ * Remove a matched phrase from the text
+ */
+function cut(text: string, match: PhraseMatch): string {
+  return text.slice(0, match.index) + ' ' + text.slice(match.index + match.length)
+}
+
+/**
+ * Parse a natural-language quick entry line into a task payload
+ *
+ * "Pay invoice tomorrow 5pm #finance !urgent @work" becomes a task titled
+ * "Pay invoice" due tomorrow at 17:00, tagged "finance", with urgent priority,
+ * in the list named "work". Pure: pass `now` for deterministic results.
+ */
+export function parseQuickEntry(
+  text: string,
+  { now = new Date(), lists = [], defaultPriority = 'medium' }: ParseQuickEntryOptions = {}
+): ParsedQuickEntry {
+  let rest = text
+  const tags: string[] = []
+  let priority = defaultPriority
+  let listId: string | undefined
+  let unknownList: string | undefined
+
+  // Tokens: #tag, !priority, @list
+  rest = rest.replace(
+    /(^|\s)([#!@])([\w-]+)/g,
+    (token, lead: string, sigil: string, word: string) => {
+      if (sigil === '#') {
+        if (!tags.includes(word)) tags.push(word)
+        return lead
+      }
+      if (sigil === '!') {
+        const alias = PRIORITY_ALIASES[word.toLowerCase()]
+        if (!alias) return token
+        priority = alias
+        return lead
+      }
+      const list = lists.find(l => l.name.toLowerCase() === word.toLowerCase())
+      if (list) {
+        listId = list.id
+      } else {
+        unknownList = word
+      }
+      return lead
+    }
+  )
+
+  const time = matchTime(rest)
+  if (time) rest = cut(rest, time)
+
+  const date = matchDate(rest, now)
+  if (date) rest = cut(rest, date)
+
+  let dueDate: Date | null = date ? date.date : null
+  if (time) {
+    dueDate = new Date(dueDate || startOfDay(now))
+    dueDate.setHours(time.hours, time.minutes, 0, 0)
+    // A bare time that already passed today means tomorrow
+    if (!date && dueDate < now) dueDate = addDays(dueDate, 1)
+  }
+
+  const input: TaskInput = {
+    title: rest.replace(/\s+/g, ' ').trim(),
+    priority,
+    dueDate,
+    hasDueTime: time ? true : undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    listId,
+  }
+
+  return unknownList ? { input, unknownList } : { input }
+}
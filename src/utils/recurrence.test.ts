@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { Task } from '@/types/task'
+import { getNextOccurrence } from './recurrence'
+
+const now = new Date(2026, 9, 19, 12)
+
+describe('getNextOccurrence', () => {
+  it('starts the next occurrence without the manual order key of the completed one', () => {
+    const task: Task = {
+      id: 'weekly',
+      title: 'Review',
+      priority: 'medium',
+      status: 'completed',
+      dueDate: new Date(2026, 9, 19),
+      recurrence: { frequency: 'weekly', interval: 1 },
+      order: 'i',
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    const next = getNextOccurrence(task, now)
+
+    expect(next?.dueDate).toEqual(new Date(2026, 9, 26))
+    expect(next?.order).toBeUndefined()
+  })
+})
@@ -0,0 +1,121 @@
+import { RecurrenceRule, Task } from '@/types/task'
+import { generateTaskId } from '@/utils/task'
+import { endOfDay, getDaysInMonth, startOfWeek } from '@/utils/date'
+
+/**
+ * Short weekday labels indexed by Date.getDay()
+ */
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Set the day of month, clamping to the last day when the month is shorter
+ */
+function withClampedDay(year: number, month: number, day: number, time: Date): Date {
+  const next = new Date(time)
+  next.setFullYear(year, month, Math.min(day, getDaysInMonth(year, month)))
+  return next
+}
+
+/**
+ * Compute the next due date of a rule after the given date
+ * The time of day of `from` is preserved
+ */
+export function getNextDueDate(rule: RecurrenceRule, from: Date): Date {
+  const interval = Math.max(1, Math.floor(rule.interval) || 1)
+
+  switch (rule.frequency) {
+    case 'daily': {
+      const next = new Date(from)
+      next.setDate(next.getDate() + interval)
+      return next
+    }
+
+    case 'weekly': {
+      const weekdays = rule.byWeekday || []
+      if (weekdays.length === 0) {
+        const next = new Date(from)
+        next.setDate(next.getDate() + 7 * interval)
+        return next
+      }
+
+      // Walk forward day by day until a selected weekday in an active week is found
+      const baseWeek = startOfWeek(from).getTime()
+      const next = new Date(from)
+      for (let i = 0; i < 7 * (interval + 1); i++) {
+        next.setDate(next.getDate() + 1)
+        const weeksApart = Math.round((startOfWeek(next).getTime() - baseWeek) / (7 * MS_PER_DAY))
+        if (weeksApart % interval === 0 && weekdays.includes(next.getDay())) {
+          return next
+        }
+      }
+      return next
+    }
+
+    case 'monthly': {
+      const day = rule.byMonthDay || from.getDate()
+      const target = from.getMonth() + interval
+      return withClampedDay(from.getFullYear() + Math.floor(target / 12), target % 12, day, from)
+    }
+
+    case 'yearly':
+      return withClampedDay(from.getFullYear() + interval, from.getMonth(), from.getDate(), from)
+  }
+}
+
+/**
+ * Build the next occurrence of a recurring task, or null when the series has ended
+ * Callers clear the rule on the completed instance so the series continues only
+ * from the new occurrence
+ */
+export function getNextOccurrence(task: Task, now: Date = new Date()): Task | null {
+  const rule = task.recurrence
+  if (!rule) return null
+
+  const occurrence = task.occurrence || 1
+  if (rule.count && occurrence >= rule.count) return null
+
+  const from = task.dueDate ? new Date(task.dueDate) : now
+  const dueDate = getNextDueDate(rule, from)
+  if (rule.until && dueDate > endOfDay(new Date(rule.until))) return null
+
+  return {
+    ...task,
+    id: generateTaskId(),
+    status: 'pending',
+    dueDate,
+    occurrence: occurrence + 1,
+    // A shared key would tie the two tasks in the manual order; the new one goes last
+    order: undefined,
+    subtasks: task.subtasks?.map(subtask => ({ ...subtask, done: false })),
+    completedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * Describe a repeat rule in words, e.g. "Every 2 weeks on Mon, Wed"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.interval || 1)
+  const units = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' }
+  const unit = units[rule.frequency]
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`
+
+  if (rule.frequency === 'weekly' && rule.byWeekday && rule.byWeekday.length > 0) {
+    const days = [...rule.byWeekday].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day])
+    text += ` on ${days.join(', ')}`
+  }
+  if (rule.frequency === 'monthly' && rule.byMonthDay) {
+    text += ` on day ${rule.byMonthDay}`
+  }
+  if (rule.count) {
+    text += `, ${rule.count} times`
+  } else if (rule.until) {
+    text += `, until ${new Date(rule.until).toLocaleDateString()}`
+  }
+
+  return text
+}
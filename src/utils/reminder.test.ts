@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { Task } from '@/types/task'
+import { getDueReminders, pruneFiredReminders } from './reminder'
+
+const dueDate = new Date(2026, 9, 19, 9)
+
+const task = (id: string): Task => ({
+  id,
+  title: 'Sync',
+  priority: 'medium',
+  status: 'pending',
+  dueDate,
+  hasDueTime: true,
+  reminders: [15],
+  createdAt: dueDate,
+  updatedAt: dueDate,
+})
+
+describe('reminders', () => {
+  // Task ids are opaque strings and may contain ":", e.g. urn:uuid:… from other apps
+  const tasks = [task('urn:uuid:1234')]
+  const now = new Date(2026, 9, 19, 8, 50)
+
+  it('does not fire a reminder again once fired, even for ids containing ":"', () => {
+    const [due] = getDueReminders(tasks, now, [])
+    expect(due.fired).toEqual({ taskId: 'urn:uuid:1234', minutes: 15, at: dueDate.getTime() })
+
+    const fired = pruneFiredReminders([due.fired], tasks)
+    expect(fired).toEqual([due.fired])
+    expect(getDueReminders(tasks, now, fired)).toEqual([])
+  })
+
+  it('forgets fired reminders of deleted tasks', () => {
+    const fired = [{ taskId: 'gone', minutes: 15, at: dueDate.getTime() }]
+    expect(pruneFiredReminders(fired, tasks)).toEqual([])
+  })
+})
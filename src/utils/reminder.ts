@@ -0,0 +1,90 @@
+import { FiredReminder, Task } from '@/types/task'
+import { getDueInstant } from '@/utils/task'
+
+/**
+ * Reminder offsets offered in the editors, in minutes before the due time
+ */
+export const REMINDER_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 0, label: 'At due time' },
+  { minutes: 15, label: '15 minutes before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 24 * 60, label: '1 day before' },
+]
+
+/**
+ * How late a reminder may still fire after its scheduled time (e.g. after the tab was asleep)
+ */
+export const REMINDER_GRACE_MS = 60 * 60 * 1000
+
+/**
+ * A reminder that is due to fire
+ */
+export interface DueReminder {
+  /** Unique key of the reminder, used as the notification tag */
+  key: string
+  task: Task
+  minutes: number
+  fireAt: Date
+  /** Entry to remember once the reminder has fired */
+  fired: FiredReminder
+}
+
+/**
+ * Describe a reminder offset, e.g. "15 minutes before"
+ */
+export function describeReminder(minutes: number): string {
+  const option = REMINDER_OPTIONS.find(o => o.minutes === minutes)
+  if (option) return option.label
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)} days before`
+  if (minutes % 60 === 0) return `${minutes / 60} hours before`
+  return `${minutes} minutes before`
+}
+
+/**
+ * Whether a reminder is among the fired ones
+ */
+function hasFired(fired: readonly FiredReminder[], reminder: FiredReminder): boolean {
+  return fired.some(
+    entry =>
+      entry.taskId === reminder.taskId &&
+      entry.minutes === reminder.minutes &&
+      entry.at === reminder.at
+  )
+}
+
+/**
+ * Get the reminders that should fire now and have not fired yet
+ */
+export function getDueReminders(
+  tasks: Task[],
+  now: Date,
+  fired: readonly FiredReminder[]
+): DueReminder[] {
+  const due: DueReminder[] = []
+
+  tasks.forEach(task => {
+    if (task.status !== 'pending' || !task.reminders?.length) return
+    const dueInstant = getDueInstant(task)
+    if (!dueInstant) return
+
+    task.reminders.forEach(minutes => {
+      const fireAt = new Date(dueInstant.getTime() - minutes * 60 * 1000)
+      const reminder = { taskId: task.id, minutes, at: dueInstant.getTime() }
+      const elapsed = now.getTime() - fireAt.getTime()
+      if (elapsed >= 0 && elapsed <= REMINDER_GRACE_MS && !hasFired(fired, reminder)) {
+        const key = `${task.id}:${minutes}:${reminder.at}`
+        due.push({ key, task, minutes, fireAt, fired: reminder })
+      }
+    })
+  })
+
+  return due
+}
+
+/**
+ * Forget fired reminders of tasks that no longer exist, so the list does not grow forever
+ */
+export function pruneFiredReminders(fired: FiredReminder[], tasks: Task[]): FiredReminder[] {
+  const taskIds = new Set(tasks.map(task => task.id))
+  return fired.filter(entry => taskIds.has(entry.taskId))
+}
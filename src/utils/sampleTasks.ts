@@ -0,0 +1,163 @@
+import { Task, TaskPriority } from '@/types/task'
+
+/**
+ * Sample tasks for demonstration
+ * These are used as initial values only if nothing has been stored yet
+ */
+export function generateSampleTasks(): Task[] {
+  const now = new Date()
+  const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000)
+  const nextWeek = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)
+  const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000)
+
+  return [
+    {
+      id: '1',
+      title: 'Complete project proposal',
+      description: 'Write and submit the Q1 product proposal to stakeholders',
+      priority: 'urgent',
+      status: 'pending',
+      dueDate: tomorrow,
+      createdAt: new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000),
+      updatedAt: new Date(now.getTime() - 24 * 60 * 60 * 1000),
+      tags: ['work', 'urgent'],
+    },
+    {
+      id: '2',
+      title: 'Review pull requests',
+      description: 'Check and approve pending PRs from the team',
+      priority: 'high',
+      status: 'pending',
+      dueDate: now,
+      createdAt: new Date(now.getTime() - 3 * 60 * 60 * 1000),
+      updatedAt: new Date(now.getTime() - 3 * 60 * 60 * 1000),
+      tags: ['code-review'],
+    },
+    {
+      id: '3',
+      title: 'Update documentation',
+      priority: 'medium',
+      status: 'pending',
+      dueDate: nextWeek,
+      createdAt: new Date(now.getTime() - 5 * 24 * 60 * 60 * 1000),
+      updatedAt: new Date(now.getTime() - 24 * 60 * 60 * 1000),
+      tags: ['documentation'],
+    },
+    {
+      id: '4',
+      title: 'Schedule team standup',
+      priority: 'low',
+      status: 'completed',
+      completedAt: new Date(now.getTime() - 2 * 60 * 60 * 1000),
+      createdAt: new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000),
+      updatedAt: new Date(now.getTime() - 2 * 60 * 60 * 1000),
+    },
+    {
+      id: '5',
+      title: 'Fix critical bug',
+      description: 'Address the authentication issue in production',
+      priority: 'urgent',
+      status: 'pending',
+      dueDate: yesterday,
+      createdAt: new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000),
+      updatedAt: new Date(now.getTime() - 1 * 60 * 60 * 1000),
+      tags: ['bug', 'critical'],
+    },
+    {
+      id: '6',
+      title: 'Prepare presentation slides',
+      priority: 'high',
+      status: 'pending',
+      dueDate: new Date(now.getTime() + 3 * 24 * 60 * 60 * 1000),
+      createdAt: new Date(now.getTime() - 1 * 24 * 60 * 60 * 1000),
+      updatedAt: new Date(now.getTime() - 1 * 24 * 60 * 60 * 1000),
+      tags: ['presentation', 'work'],
+    },
+    {
+      id: '7',
+      title: 'Buy groceries',
+      priority: 'low',
+      status: 'pending',
+      dueDate: tomorrow,
+      createdAt: new Date(now.getTime() - 1 * 60 * 60 * 1000),
+      updatedAt: new Date(now.getTime() - 1 * 60 * 60 * 1000),
+      tags: ['personal'],
+    },
+  ]
+}
+
+const BENCHMARK_VERBS = ['Review', 'Write', 'Fix', 'Plan', 'Call', 'Update', 'Prepare', 'Book']
+const BENCHMARK_OBJECTS = [
+  'quarterly report',
+  'release notes',
+  'login bug',
+  'team offsite',
+  'dentist',
+  'budget sheet',
+  'onboarding docs',
+  'flight to Berlin',
+]
+const BENCHMARK_TAGS = ['work', 'personal', 'finance', 'health', 'travel', 'errands', 'reading']
+const BENCHMARK_PRIORITIES: TaskPriority[] = ['low', 'medium', 'medium', 'high', 'urgent']
+
+/**
+ * Largest task set the ?benchmark= parameter loads
+ */
+const MAX_BENCHMARK_TASKS = 100_000
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32), so benchmark runs are comparable
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Generate a large, varied task set for performance checks (e.g. 5,000+ tasks)
+ * The same count, seed and `now` always give the same tasks; dates are spread around `now`.
+ */
+export function generateBenchmarkTasks(count: number, seed = 1, now = new Date()): Task[] {
+  const random = createRandom(seed)
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)]
+  const day = 24 * 60 * 60 * 1000
+
+  return Array.from({ length: count }, (_, i) => {
+    const createdAt = new Date(now.getTime() - Math.floor(random() * 90 * day))
+    const roll = random()
+    const status = roll < 0.7 ? 'pending' : roll < 0.95 ? 'completed' : 'archived'
+    const hasDueDate = random() < 0.6
+    const hasDueTime = hasDueDate && random() < 0.3
+    const dueDate = new Date(now.getTime() + Math.floor(random() * 90 - 30) * day)
+    if (!hasDueTime) dueDate.setHours(0, 0, 0, 0)
+    const tags = BENCHMARK_TAGS.filter(() => random() < 0.2)
+
+    return {
+      id: `benchmark-${i + 1}`,
+      title: `${pick(BENCHMARK_VERBS)} ${pick(BENCHMARK_OBJECTS)} #${i + 1}`,
+      description: random() < 0.4 ? 'Generated task for performance testing' : undefined,
+      priority: pick(BENCHMARK_PRIORITIES),
+      status,
+      dueDate: hasDueDate ? dueDate : undefined,
+      hasDueTime: hasDueTime || undefined,
+      createdAt,
+      updatedAt: createdAt,
+      completedAt: status === 'completed' ? createdAt : undefined,
+      tags: tags.length > 0 ? tags : undefined,
+    }
+  })
+}
+
+/**
+ * Get the number of benchmark tasks requested with a ?benchmark=5000 query param
+ */
+export function getBenchmarkTaskCount(search: string): number | null {
+  const count = Number(new URLSearchParams(search).get('benchmark'))
+  return Number.isInteger(count) && count > 0 ? Math.min(count, MAX_BENCHMARK_TASKS) : null
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { Task } from '@/types/task'
+import { buildSearchIndex, searchTasksWithQuery } from './search'
+import { isTaskOverdue } from './task'
+
+const now = new Date(2026, 9, 19, 12)
+
+const task = (id: string, dueDate: Date | null, fields: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  priority: 'medium',
+  status: 'pending',
+  dueDate,
+  createdAt: now,
+  updatedAt: now,
+  ...fields,
+})
+
+describe('due:overdue', () => {
+  const tasks = [
+    task('timed-past', new Date(2026, 9, 19, 9), { hasDueTime: true }),
+    task('timed-later', new Date(2026, 9, 19, 17), { hasDueTime: true }),
+    task('today', new Date(2026, 9, 19)),
+    task('yesterday', new Date(2026, 9, 18)),
+    task('done', new Date(2026, 9, 18), { status: 'completed' }),
+    task('no-date', null),
+  ]
+
+  it('matches the tasks isTaskOverdue considers overdue', () => {
+    const found = searchTasksWithQuery(tasks, buildSearchIndex(tasks), 'due:overdue', { now })
+    expect(found.map(t => t.id)).toEqual(['timed-past', 'yesterday'])
+    expect(found).toEqual(tasks.filter(t => isTaskOverdue(t, now)))
+  })
+})
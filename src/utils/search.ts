@@ -0,0 +1,268 @@
+import { Task, TaskPriority, TaskStatus } from '@/types/task'
+import { TaskList } from '@/types/list'
+import { getPriorityValue, isTaskOverdue } from './task'
+import { getTaskListId } from './list'
+import { addDays, parseDateInputValue, startOfDay } from './date'
+
+/**
+ * Fields that can be filtered with `field:value`
+ */
+export type SearchField = 'tag' | 'priority' | 'status' | 'due' | 'list'
+
+export type SearchOperator = '=' | '<' | '<=' | '>' | '>='
+
+/**
+ * One term of a parsed search query
+ */
+export type SearchTerm =
+  | { kind: 'text'; value: string; negated: boolean }
+  | { kind: 'field'; field: SearchField; operator: SearchOperator; value: string; negated: boolean }
+
+/**
+ * Inverted index over the searchable text of tasks
+ */
+export interface SearchIndex {
+  /** Word → ids of the tasks containing it */
+  words: Map<string, Set<string>>
+  /** Task id → all searchable text, lowercased, for phrase matching */
+  texts: Map<string, string>
+}
+
+interface SearchOptions {
+  /** Lists that `list:` filters are matched against by name */
+  lists?: TaskList[]
+  /** Reference time for `due:today` and `due:overdue` */
+  now?: Date
+}
+
+const SEARCH_FIELDS: SearchField[] = ['tag', 'priority', 'status', 'due', 'list']
+
+/**
+ * Split text into lowercase words
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+}
+
+/**
+ * Get all searchable text of a task: title, description, tags and subtasks
+ */
+function getSearchableText(task: Task): string {
+  return [
+    task.title,
+    task.description,
+    ...(task.tags || []),
+    ...(task.subtasks || []).map(subtask => subtask.title),
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * Build an inverted index for a task collection
+ */
+export function buildSearchIndex(tasks: Task[]): SearchIndex {
+  const words = new Map<string, Set<string>>()
+  const texts = new Map<string, string>()
+
+  tasks.forEach(task => {
+    const text = getSearchableText(task)
+    texts.set(task.id, text.toLowerCase())
+    tokenize(text).forEach(word => {
+      let ids = words.get(word)
+      if (!ids) {
+        ids = new Set()
+        words.set(word, ids)
+      }
+      ids.add(task.id)
+    })
+  })
+
+  return { words, texts }
+}
+
+/**
+ * Parse a search query
+ *
+ * Supports plain words, "quoted phrases", field filters (tag:work, priority:>=high,
+ * status:completed, due:<2026-11-01, due:today, due:overdue, due:none, list:Inbox) and
+ * negation with a leading minus (-tag:work, -"on hold").
+ */
+export function parseSearchQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = []
+  const pattern = /(-?)(?:(\w+):(<=|>=|<|>|=)?(?:"([^"]*)"|(\S+))|"([^"]*)"?|(\S+))/g
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(query))) {
+    const [, minus, field, operator, quotedValue, value, phrase, word] = match
+    const negated = minus === '-'
+
+    if (field && SEARCH_FIELDS.includes(field.toLowerCase() as SearchField)) {
+      const fieldValue = (quotedValue ?? value ?? '').trim()
+      if (fieldValue) {
+        terms.push({
+          kind: 'field',
+          field: field.toLowerCase() as SearchField,
+          operator: (operator as SearchOperator) || '=',
+          value: fieldValue,
+          negated,
+        })
+      }
+      continue
+    }
+
+    // Unknown fields are searched as text, e.g. "10:30"
+    const text = (field ? match[0].slice(minus.length) : (phrase ?? word)).trim().toLowerCase()
+    if (text) terms.push({ kind: 'text', value: text, negated })
+  }
+
+  return terms
+}
+
+/**
+ * Get the words and phrases of a query to highlight in results
+ */
+export function getHighlightTerms(query: string): string[] {
+  return parseSearchQuery(query)
+    .filter(term => term.kind === 'text' && !term.negated)
+    .map(term => term.value)
+}
+
+/**
+ * Compare two numbers with a search operator
+ */
+function compare(a: number, operator: SearchOperator, b: number): boolean {
+  switch (operator) {
+    case '<':
+      return a < b
+    case '<=':
+      return a <= b
+    case '>':
+      return a > b
+    case '>=':
+      return a >= b
+    default:
+      return a === b
+  }
+}
+
+/**
+ * Check a task against a `due:` filter
+ * Dates compare by calendar day, so due:<2026-11-01 means due before November 1st
+ */
+function matchesDue(task: Task, operator: SearchOperator, value: string, now: Date): boolean {
+  const keyword = value.toLowerCase()
+  if (keyword === 'none') return !task.dueDate
+  if (!task.dueDate) return false
+  if (keyword === 'overdue') return isTaskOverdue(task, now)
+
+  const target =
+    keyword === 'today'
+      ? startOfDay(now)
+      : keyword === 'tomorrow'
+        ? addDays(startOfDay(now), 1)
+        : parseDateInputValue(value)
+  if (!target) return false
+
+  return compare(startOfDay(new Date(task.dueDate)).getTime(), operator, target.getTime())
+}
+
+/**
+ * Check a task against a field filter
+ */
+function matchesField(
+  task: Task,
+  term: Extract<SearchTerm, { kind: 'field' }>,
+  { lists = [], now = new Date() }: SearchOptions
+): boolean {
+  const value = term.value.toLowerCase()
+  switch (term.field) {
+    case 'tag':
+      return (task.tags || []).some(tag => tag.toLowerCase() === value)
+    case 'priority':
+      return compare(
+        getPriorityValue(task.priority),
+        term.operator,
+        getPriorityValue(value as TaskPriority)
+      )
+    case 'status':
+      return task.status === (value as TaskStatus)
+    case 'due':
+      return matchesDue(task, term.operator, term.value, now)
+    case 'list': {
+      const list = lists.find(l => l.name.toLowerCase() === value || l.id === value)
+      return !!list && getTaskListId(task) === list.id
+    }
+  }
+}
+
+/**
+ * Get the ids of tasks containing a word or phrase
+ * The last word of each term also matches as a prefix, so results update while typing
+ */
+function findText(index: SearchIndex, text: string): Set<string> {
+  const words = tokenize(text)
+  if (words.length === 0) return new Set(index.texts.keys())
+
+  const last = words[words.length - 1]
+  const prefixMatches = new Set<string>()
+  index.words.forEach((ids, word) => {
+    if (word.startsWith(last)) ids.forEach(id => prefixMatches.add(id))
+  })
+
+  let ids = prefixMatches
+  words.slice(0, -1).forEach(word => {
+    const exact = index.words.get(word)
+    ids = new Set([...ids].filter(id => exact?.has(id)))
+  })
+
+  // Phrases must appear as written, not just contain every word
+  if (words.length > 1) {
+    ids = new Set([...ids].filter(id => index.texts.get(id)?.includes(text)))
+  }
+  return ids
+}
+
+/**
+ * Filter tasks with a search query (see parseSearchQuery for the syntax)
+ * Pass an index built with buildSearchIndex from the same tasks
+ */
+export function searchTasksWithQuery(
+  tasks: Task[],
+  index: SearchIndex,
+  query: string,
+  options: SearchOptions = {}
+): Task[] {
+  const terms = parseSearchQuery(query)
+  if (terms.length === 0) return tasks
+
+  const textMatches = terms.map(term => (term.kind === 'text' ? findText(index, term.value) : null))
+
+  return tasks.filter(task =>
+    terms.every((term, i) => {
+      const matches =
+        term.kind === 'text' ? !!textMatches[i]?.has(task.id) : matchesField(task, term, options)
+      return matches !== term.negated
+    })
+  )
+}
+
+/**
+ * Split text into parts, marking the parts that match a highlight term (case-insensitive)
+ */
+export function splitHighlights(
+  text: string,
+  terms: string[]
+): { text: string; highlighted: boolean }[] {
+  const escaped = terms
+    .filter(Boolean)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .sort((a, b) => b.length - a.length)
+  if (escaped.length === 0) return [{ text, highlighted: false }]
+
+  // Splitting on a capturing group alternates between unmatched and matched parts
+  return text
+    .split(new RegExp(`(${escaped.join('|')})`, 'gi'))
+    .map((part, i) => ({ text: part, highlighted: i % 2 === 1 }))
+    .filter(part => part.text)
+}
@@ -0,0 +1,182 @@
+import { Task } from '@/types/task'
+import { SortDirection, TaskSortKey, TaskSortRule } from '@/types/view'
+import { compareManualOrder } from './order'
+import { getPriorityValue } from './task'
+
+/**
+ * Keys the task list can be sorted by, in the order they are offered
+ */
+export const SORT_KEYS: TaskSortKey[] = [
+  'priority',
+  'dueDate',
+  'title',
+  'createdAt',
+  'updatedAt',
+  'completedAt',
+  'manual',
+]
+
+export const SORT_LABELS: Record<TaskSortKey, string> = {
+  priority: 'Priority',
+  dueDate: 'Due date',
+  title: 'Title',
+  createdAt: 'Created',
+  updatedAt: 'Updated',
+  completedAt: 'Completed',
+  manual: 'Manual',
+}
+
+/**
+ * Direction a key sorts in when first picked: most urgent, soonest due, A to Z, newest
+ */
+export const DEFAULT_SORT_DIRECTIONS: Record<TaskSortKey, SortDirection> = {
+  priority: 'desc',
+  dueDate: 'asc',
+  title: 'asc',
+  createdAt: 'desc',
+  updatedAt: 'desc',
+  completedAt: 'desc',
+  manual: 'asc',
+}
+
+/**
+ * Get a description of a key's direction, e.g. "Highest first" or "Z to A"
+ */
+export function getSortDirectionLabel({ key, direction }: TaskSortRule): string {
+  const ascending = direction === 'asc'
+  switch (key) {
+    case 'priority':
+      return ascending ? 'Lowest first' : 'Highest first'
+    case 'dueDate':
+      return ascending ? 'Soonest first' : 'Latest first'
+    case 'title':
+      return ascending ? 'A to Z' : 'Z to A'
+    case 'manual':
+      return 'As arranged'
+    default:
+      return ascending ? 'Oldest first' : 'Newest first'
+  }
+}
+
+/**
+ * Sort order used when none is set
+ */
+export const DEFAULT_SORT: TaskSortRule[] = [{ key: 'priority', direction: 'desc' }]
+
+const DUE_DATE_SORT: TaskSortRule[] = [{ key: 'dueDate', direction: 'asc' }]
+
+/**
+ * Get a sort key with its default direction
+ */
+export function createSortRule(key: TaskSortKey): TaskSortRule {
+  return { key, direction: DEFAULT_SORT_DIRECTIONS[key] }
+}
+
+/**
+ * Whether tasks are in their manual (drag and drop) order
+ */
+export function isManualSort(sort: TaskSortRule[]): boolean {
+  return sort[0]?.key === 'manual'
+}
+
+/**
+ * Get the value a task is sorted by, or null when it has none
+ */
+function getSortValue(task: Task, key: Exclude<TaskSortKey, 'manual'>): number | string | null {
+  switch (key) {
+    case 'priority':
+      return getPriorityValue(task.priority)
+    case 'title':
+      return task.title
+    case 'dueDate':
+    case 'createdAt':
+    case 'updatedAt':
+    case 'completedAt': {
+      const date = task[key]
+      return date ? new Date(date).getTime() : null
+    }
+  }
+}
+
+/**
+ * Compare two tasks by one sort key
+ * Tasks without a value (no due date, not completed) come last in either direction
+ */
+function compareBy(a: Task, b: Task, { key, direction }: TaskSortRule): number {
+  // The manual order has a single direction
+  if (key === 'manual') return compareManualOrder(a, b)
+
+  const aValue = getSortValue(a, key)
+  const bValue = getSortValue(b, key)
+  if (aValue === null || bValue === null) {
+    return aValue === bValue ? 0 : aValue === null ? 1 : -1
+  }
+  const result =
+    typeof aValue === 'string' && typeof bValue === 'string'
+      ? aValue.localeCompare(bValue, undefined, { numeric: true, sensitivity: 'base' })
+      : (aValue as number) - (bValue as number)
+  return direction === 'asc' ? result : -result
+}
+
+/**
+ * Compare two tasks by a sort order
+ * Tasks tied on every key fall back to oldest first, then id, so the order never depends
+ * on where tasks happen to be stored
+ */
+export function compareTasks(a: Task, b: Task, sort: TaskSortRule[]): number {
+  for (const rule of sort) {
+    const result = compareBy(a, b, rule)
+    if (result !== 0) return result
+  }
+  const created = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  if (created !== 0) return created
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+}
+
+/**
+ * Sort tasks by a sort order; an empty order keeps the tasks as they are
+ */
+export function sortTasks(tasks: Task[], sort: TaskSortRule[]): Task[] {
+  if (sort.length === 0) return tasks
+  return [...tasks].sort((a, b) => compareTasks(a, b, sort))
+}
+
+/**
+ * Sort tasks by due date (earliest first)
+ */
+export function sortByDueDate(tasks: Task[]): Task[] {
+  return sortTasks(tasks, DUE_DATE_SORT)
+}
+
+/**
+ * Parse a sort order from a query param, e.g. "dueDate,priority:asc,title"
+ * Keys without a direction use their default one. Returns null when the param is invalid.
+ */
+export function parseSortParam(value: string | null): TaskSortRule[] | null {
+  if (!value) return null
+
+  const sort: TaskSortRule[] = []
+  for (const part of value.split(',')) {
+    const [key, direction] = part.split(':') as [TaskSortKey, string | undefined]
+    if (!SORT_KEYS.includes(key) || sort.some(rule => rule.key === key)) return null
+    if (direction === undefined) {
+      sort.push(createSortRule(key))
+    } else if (direction === 'asc' || direction === 'desc') {
+      sort.push({ key, direction })
+    } else {
+      return null
+    }
+  }
+  return sort
+}
+
+/**
+ * Format a sort order as a query param, leaving out default directions
+ */
+export function formatSortParam(sort: TaskSortRule[]): string {
+  return sort
+    .map(({ key, direction }) =>
+      direction === DEFAULT_SORT_DIRECTIONS[key] ? key : `${key}:${direction}`
+    )
+    .join(',')
+}
@@ -0,0 +1,61 @@
+import { Subtask, Task } from '@/types/task'
+
+/**
+ * Build a new subtask placed after the existing ones
+ */
+export function createSubtask(title: string, existing: Subtask[] = []): Subtask {
+  const maxOrder = existing.reduce((max, subtask) => Math.max(max, subtask.order), -1)
+  return {
+    id: `subtask-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    title,
+    done: false,
+    order: maxOrder + 1,
+  }
+}
+
+/**
+ * Sort subtasks by their order
+ */
+export function sortSubtasks(subtasks: Subtask[] = []): Subtask[] {
+  return [...subtasks].sort((a, b) => a.order - b.order)
+}
+
+/**
+ * Get checklist progress for a task
+ */
+export function getSubtaskProgress(task: Task): { done: number; total: number } {
+  const subtasks = task.subtasks || []
+  return {
+    done: subtasks.filter(subtask => subtask.done).length,
+    total: subtasks.length,
+  }
+}
+
+/**
+ * Count the subtasks of a task that are not done yet
+ */
+export function countOpenSubtasks(task: Task): number {
+  return (task.subtasks || []).filter(subtask => !subtask.done).length
+}
+
+/**
+ * Mark every subtask as done
+ */
+export function completeAllSubtasks(subtasks: Subtask[] = []): Subtask[] {
+  return subtasks.map(subtask => (subtask.done ? subtask : { ...subtask, done: true }))
+}
+
+/**
+ * Move a subtask one position up or down, renumbering the order of all items
+ */
+export function moveSubtask(subtasks: Subtask[], id: string, direction: 'up' | 'down'): Subtask[] {
+  const sorted = sortSubtasks(subtasks)
+  const index = sorted.findIndex(subtask => subtask.id === id)
+  const target = direction === 'up' ? index - 1 : index + 1
+  if (index === -1 || target < 0 || target >= sorted.length) {
+    return subtasks
+  }
+
+  ;[sorted[index], sorted[target]] = [sorted[target], sorted[index]]
+  return sorted.map((subtask, order) => ({ ...subtask, order }))
+}
@@ -0,0 +1,122 @@
+import { Task } from '@/types/task'
+import { TagColor, TagSummary, TaskTag } from '@/types/tag'
+import { LIST_COLORS } from './list'
+
+/**
+ * Suggestions shown at most while typing a tag
+ */
+const MAX_TAG_SUGGESTIONS = 8
+
+/**
+ * Clean up a typed tag: no leading "#" and no spaces (which search and quick add split on)
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/^#+/, '').trim().replace(/\s+/g, '-')
+}
+
+/**
+ * Whether two tags are the same tag, ignoring case
+ */
+export function isSameTag(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase()
+}
+
+/**
+ * Get the spelling to store for a typed tag
+ * An existing tag that only differs in case wins, so "Work" doesn't become a second "work"
+ */
+export function resolveTagName(name: string, knownTags: string[]): string {
+  const normalized = normalizeTagName(name)
+  return knownTags.find(tag => isSameTag(tag, normalized)) || normalized
+}
+
+/**
+ * Get existing tags matching what has been typed so far (case-insensitive)
+ * Tags starting with the text come first; tags in `exclude` (already on the task) are left out
+ */
+export function getTagSuggestions(
+  text: string,
+  knownTags: string[],
+  exclude: string[] = []
+): string[] {
+  const query = normalizeTagName(text).toLowerCase()
+  const candidates = knownTags.filter(tag => !exclude.some(other => isSameTag(tag, other)))
+  if (!query) return candidates.slice(0, MAX_TAG_SUGGESTIONS)
+
+  const starting = candidates.filter(tag => tag.toLowerCase().startsWith(query))
+  const containing = candidates.filter(
+    tag => !tag.toLowerCase().startsWith(query) && tag.toLowerCase().includes(query)
+  )
+  return [...starting, ...containing].slice(0, MAX_TAG_SUGGESTIONS)
+}
+
+/**
+ * Get the color of a tag: its registry color, or a stable one picked from its name
+ */
+export function getTagColor(name: string, registry: TaskTag[]): TagColor {
+  const entry = registry.find(tag => isSameTag(tag.name, name))
+  return entry ? entry.color : getDefaultTagColor(name)
+}
+
+/**
+ * Get the color of a tag without a registry entry, picked from its name so it stays stable
+ */
+export function getDefaultTagColor(name: string): TagColor {
+  let hash = 0
+  for (const char of name.toLowerCase()) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0
+  }
+  // Gray is left for lists; every tag gets a real color
+  const colors = LIST_COLORS.filter(color => color !== 'gray')
+  return colors[hash % colors.length]
+}
+
+/**
+ * Gets the styling of a tag chip in its color
+ */
+export function getTagColorClasses(color: TagColor): string {
+  const classes: Record<TagColor, string> = {
+    blue: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200',
+    green: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200',
+    red: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200',
+    orange: 'bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-200',
+    purple: 'bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-200',
+    pink: 'bg-pink-100 text-pink-700 dark:bg-pink-900 dark:text-pink-200',
+    gray: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  }
+  return classes[color]
+}
+
+/**
+ * Get every tag used by a task or kept in the registry, with colors and task counts
+ */
+export function getTagSummaries(tasks: Task[], registry: TaskTag[]): TagSummary[] {
+  const counts = new Map<string, number>()
+  tasks.forEach(task => task.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)))
+  registry.forEach(entry => {
+    if (!counts.has(entry.name)) counts.set(entry.name, 0)
+  })
+
+  return [...counts]
+    .map(([name, count]) => ({ name, color: getTagColor(name, registry), count }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Replace tags on a task, dropping duplicates; `to` null removes them
+ * Returns the tags unchanged (same array) when the task has none of them
+ */
+export function replaceTags(
+  tags: string[] | undefined,
+  from: string[],
+  to: string | null
+): string[] | undefined {
+  if (!tags?.some(tag => from.includes(tag))) return tags
+
+  const next: string[] = []
+  tags.forEach(tag => {
+    const replaced = from.includes(tag) ? to : tag
+    if (replaced && !next.includes(replaced)) next.push(replaced)
+  })
+  return next.length > 0 ? next : undefined
+}
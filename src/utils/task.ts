@@ -1,4 +1,36 @@
-import { Task, TaskPriority } from '@/types/task'
+import { Task, TaskInput, TaskPriority } from '@/types/task'
+import { endOfDay, formatTime, isSameDay } from '@/utils/date'
+
+/**
+ * Generate a unique id for a new task
+ */
+export function generateTaskId(): string {
+  return `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * Build a new task from a creation payload, filling in id and timestamps
+ */
+export function createTask(input: TaskInput): Task {
+  const now = new Date()
+  return {
+    id: generateTaskId(),
+    title: input.title,
+    description: input.description,
+    dueDate: input.dueDate,
+    hasDueTime: input.hasDueTime,
+    timeZone: input.timeZone,
+    reminders: input.reminders,
+    priority: input.priority,
+    status: input.status || 'pending',
+    tags: input.tags,
+    listId: input.listId,
+    subtasks: input.subtasks,
+    recurrence: input.recurrence,
+    createdAt: now,
+    updatedAt: now,
+  }
+}
 
 /**
  * Get priority numeric value for sorting (higher = more urgent)
@@ -14,64 +46,73 @@ export function getPriorityValue(priority: TaskPriority): number {
 }
 
 /**
- * Sort tasks by priority (highest first)
+ * The fields needed to reason about when a task is due
  */
-export function sortByPriority(tasks: Task[]): Task[] {
-  return [...tasks].sort((a, b) => getPriorityValue(b.priority) - getPriorityValue(a.priority))
-}
+type TaskDueFields = Pick<Task, 'dueDate' | 'hasDueTime' | 'status'>
 
 /**
- * Sort tasks by due date (earliest first)
+ * Get the moment a task is due
+ * Date-only tasks are due by the end of their local day
  */
-export function sortByDueDate(tasks: Task[]): Task[] {
-  return [...tasks].sort((a, b) => {
-    const aDate = a.dueDate ? new Date(a.dueDate).getTime() : Infinity
-    const bDate = b.dueDate ? new Date(b.dueDate).getTime() : Infinity
-    return aDate - bDate
-  })
+export function getDueInstant(task: TaskDueFields): Date | null {
+  if (!task.dueDate) return null
+  const dueDate = new Date(task.dueDate)
+  return task.hasDueTime ? dueDate : endOfDay(dueDate)
 }
 
 /**
  * Check if a task is overdue
  */
-export function isTaskOverdue(task: Task): boolean {
-  if (!task.dueDate || task.status === 'completed' || task.status === 'archived') {
+export function isTaskOverdue(task: TaskDueFields, now: Date = new Date()): boolean {
+  if (task.status === 'completed' || task.status === 'archived') {
     return false
   }
-  const now = new Date()
-  now.setHours(0, 0, 0, 0)
-  const dueDate = new Date(task.dueDate)
-  dueDate.setHours(0, 0, 0, 0)
-  return dueDate < now
+  const dueInstant = getDueInstant(task)
+  return dueInstant !== null && dueInstant < now
 }
 
 /**
  * Check if a task is due today
  */
-export function isTaskDueToday(task: Task): boolean {
+export function isTaskDueToday(task: TaskDueFields, now: Date = new Date()): boolean {
   if (!task.dueDate) return false
-  const today = new Date()
-  const dueDate = new Date(task.dueDate)
-  return (
-    dueDate.getDate() === today.getDate() &&
-    dueDate.getMonth() === today.getMonth() &&
-    dueDate.getFullYear() === today.getFullYear()
-  )
+  return isSameDay(new Date(task.dueDate), now)
 }
 
 /**
  * Check if a task is due tomorrow
  */
-export function isTaskDueTomorrow(task: Task): boolean {
+export function isTaskDueTomorrow(task: TaskDueFields, now: Date = new Date()): boolean {
   if (!task.dueDate) return false
-  const tomorrow = new Date()
+  const tomorrow = new Date(now)
   tomorrow.setDate(tomorrow.getDate() + 1)
-  const dueDate = new Date(task.dueDate)
-  return (
-    dueDate.getDate() === tomorrow.getDate() &&
-    dueDate.getMonth() === tomorrow.getMonth() &&
-    dueDate.getFullYear() === tomorrow.getFullYear()
-  )
+  return isSameDay(new Date(task.dueDate), tomorrow)
+}
+
+/**
+ * Format a task's due date with relative context, e.g. "Today, 3:00 PM" or "Overdue: Oct 18"
+ */
+export function formatTaskDueDate(task: TaskDueFields, now: Date = new Date()): string | null {
+  if (!task.dueDate) return null
+
+  const date = new Date(task.dueDate)
+  let label: string
+  if (isTaskDueToday(task, now)) {
+    label = 'Today'
+  } else if (isTaskDueTomorrow(task, now)) {
+    label = 'Tomorrow'
+  } else {
+    const month = date.toLocaleDateString('en-US', { month: 'short' })
+    label =
+      date.getFullYear() === now.getFullYear()
+        ? `${month} ${date.getDate()}`
+        : `${month} ${date.getDate()}, ${date.getFullYear()}`
+  }
+
+  if (task.hasDueTime) {
+    label += `, ${formatTime(date)}`
+  }
+  return isTaskOverdue(task, now) ? `Overdue: ${label}` : label
 }
 
 /**
@@ -150,6 +191,8 @@ export function searchTasks(tasks: Task[], query: string): Task[] {
 
 /**
  * Group tasks by a specific field
+ * A task with a list field (e.g. tags) is in the group of each value; tasks without a
+ * value are grouped under ''. The task list groups with groupTasksBy from utils/grouping.
  */
 export function groupTasks<K extends keyof Task>(
   tasks: Task[],
@@ -158,12 +201,25 @@ export function groupTasks<K extends keyof Task>(
   const grouped: Record<string, Task[]> = {}
 
   tasks.forEach(task => {
-    const key = String(task[groupBy])
-    if (!grouped[key]) {
-      grouped[key] = []
-    }
-    grouped[key].push(task)
+    const value = task[groupBy]
+    const keys = Array.isArray(value) && value.length > 0 ? value.map(String) : [toGroupKey(value)]
+    new Set(keys).forEach(key => {
+      if (!grouped[key]) {
+        grouped[key] = []
+      }
+      grouped[key].push(task)
+    })
   })
 
   return grouped
 }
+
+/**
+ * Get the group key of a single field value
+ */
+function toGroupKey(value: unknown): string {
+  if (value === undefined || value === null || (Array.isArray(value) && value.length === 0)) {
+    return ''
+  }
+  return value instanceof Date ? value.toISOString() : String(value)
+}
@@ -0,0 +1,119 @@
+import { Task } from '@/types/task'
+import { SerializedTask, serializeTask } from '@/storage'
+import { toCsv } from './csv'
+import { toDateInputValue } from './date'
+
+/**
+ * Version of the JSON export format
+ */
+export const TASK_EXPORT_VERSION = 1
+
+/**
+ * JSON export file layout
+ */
+export interface TaskExportFile {
+  app: 'nimbustodo'
+  version: number
+  exportedAt: string
+  tasks: SerializedTask[]
+}
+
+/**
+ * Task fields written to and read from CSV, in column order
+ */
+export const TASK_CSV_FIELDS = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'hasDueTime',
+  'timeZone',
+  'tags',
+  'listId',
+  'createdAt',
+  'updatedAt',
+  'completedAt',
+] as const
+
+export type TaskCsvField = (typeof TASK_CSV_FIELDS)[number]
+
+/**
+ * Human-readable CSV column names
+ */
+export const TASK_CSV_FIELD_LABELS: Record<TaskCsvField, string> = {
+  id: 'ID',
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  priority: 'Priority',
+  dueDate: 'Due Date',
+  hasDueTime: 'Has Due Time',
+  timeZone: 'Time Zone',
+  tags: 'Tags',
+  listId: 'List ID',
+  createdAt: 'Created At',
+  updatedAt: 'Updated At',
+  completedAt: 'Completed At',
+}
+
+/**
+ * Export tasks as JSON, keeping every field
+ */
+export function exportTasksToJson(tasks: Task[], now: Date = new Date()): string {
+  const file: TaskExportFile = {
+    app: 'nimbustodo',
+    version: TASK_EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    tasks: tasks.map(serializeTask),
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Format an optional date as an ISO string for CSV
+ */
+function toCsvDate(date: Date | null | undefined): string {
+  return date ? new Date(date).toISOString() : ''
+}
+
+/**
+ * Get the CSV value of one task field
+ * Date-only due dates are written as YYYY-MM-DD so they read naturally in spreadsheets
+ */
+function getCsvValue(task: Task, field: TaskCsvField): string {
+  switch (field) {
+    case 'dueDate':
+      if (!task.dueDate) return ''
+      return task.hasDueTime ? toCsvDate(task.dueDate) : toDateInputValue(task.dueDate)
+    case 'hasDueTime':
+      return task.hasDueTime ? 'true' : 'false'
+    case 'tags':
+      return (task.tags || []).join(', ')
+    case 'createdAt':
+    case 'updatedAt':
+    case 'completedAt':
+      return toCsvDate(task[field])
+    default:
+      return task[field] || ''
+  }
+}
+
+/**
+ * Export tasks as CSV with a header row
+ * Subtasks, reminders and repeat rules are only kept by the JSON export
+ */
+export function exportTasksToCsv(tasks: Task[]): string {
+  return toCsv([
+    TASK_CSV_FIELDS.map(field => TASK_CSV_FIELD_LABELS[field]),
+    ...tasks.map(task => TASK_CSV_FIELDS.map(field => getCsvValue(task, field))),
+  ])
+}
+
+/**
+ * Build a dated file name for an export, e.g. nimbustodo-tasks-2024-05-01.json
+ */
+export function getExportFilename(extension: string, now: Date = new Date()): string {
+  return `nimbustodo-tasks-${toDateInputValue(now)}.${extension}`
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { parseJsonImport } from './taskImport'
+
+/**
+ * Import a single task with some fields set, returning its row
+ */
+const importTask = (fields: Record<string, unknown>) =>
+  parseJsonImport(JSON.stringify([{ id: 'x', title: 'T', ...fields }]))[0]
+
+describe('parseJsonImport', () => {
+  it('imports a task with well-typed fields', () => {
+    const row = importTask({
+      tags: ['work'],
+      subtasks: [{ id: 's1', title: 'Step', done: false, order: 0 }],
+      reminders: [0, 15],
+      recurrence: { frequency: 'weekly', interval: 1, byWeekday: [1, 3] },
+      listId: 'inbox',
+      hasDueTime: false,
+    })
+    expect(row.errors).toEqual([])
+    expect(row.task?.tags).toEqual(['work'])
+  })
+
+  it.each([
+    ['tags', 'work', 'Tags must be a list of text'],
+    ['tags', ['work', 3], 'Tags must be a list of text'],
+    [
+      'subtasks',
+      [{ title: 'Step', done: 'no' }],
+      'Subtasks must be a list of items with an id, title, done and order',
+    ],
+    ['reminders', '15', 'Reminders must be a list of numbers'],
+    ['recurrence', 'weekly', 'Repeat rule is invalid'],
+    ['recurrence', { frequency: 'hourly', interval: 1 }, 'Unknown repeat frequency "hourly"'],
+    ['recurrence', { frequency: 'daily', interval: 0 }, 'Repeat rule is invalid'],
+    ['listId', 7, 'List must be a list id'],
+    ['hasDueTime', 'yes', 'Due time flag must be true or false'],
+    ['order', 3, 'Order must be text'],
+  ])('reports %s of the wrong type as a row error', (field, value, message) => {
+    const row = importTask({ [field]: value })
+    expect(row.task).toBeNull()
+    expect(row.errors).toContain(message)
+  })
+})
@@ -0,0 +1,337 @@
+import {
+  RecurrenceFrequency,
+  RecurrenceRule,
+  Subtask,
+  Task,
+  TaskInput,
+  TaskPriority,
+  TaskStatus,
+} from '@/types/task'
+import { reviveTask } from '@/storage'
+import { TASK_CSV_FIELDS, TASK_CSV_FIELD_LABELS, TaskCsvField } from './taskExport'
+import { parseDateInputValue } from './date'
+import { createTask, generateTaskId } from './task'
+
+/**
+ * Why an imported row is considered a duplicate
+ */
+export interface ImportDuplicate {
+  reason: 'id' | 'titleAndDueDate'
+  /** Title of the task it duplicates */
+  title: string
+}
+
+/**
+ * One parsed row of an import, shown in the preview before anything is saved
+ */
+export interface ImportRow {
+  /** 1-based position in the file (CSV rows count the header as row 1) */
+  row: number
+  /** The parsed task, or null when the row has errors */
+  task: Task | null
+  errors: string[]
+  duplicate?: ImportDuplicate
+}
+
+/**
+ * Maps task fields to CSV column indexes
+ */
+export type CsvFieldMapping = Partial<Record<TaskCsvField, number>>
+
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'urgent']
+const STATUSES: TaskStatus[] = ['pending', 'completed', 'archived']
+
+/**
+ * Other column names recognised when guessing a CSV mapping
+ */
+const CSV_FIELD_ALIASES: Partial<Record<TaskCsvField, string[]>> = {
+  title: ['name', 'task', 'content', 'subject'],
+  description: ['notes', 'note', 'details'],
+  status: ['state'],
+  dueDate: ['due', 'deadline', 'date'],
+  tags: ['labels', 'label'],
+  listId: ['list', 'project'],
+  completedAt: ['completed', 'done at'],
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly']
+
+/**
+ * Check that an optional field holds a list of values of one type
+ */
+function isListOf<T>(value: unknown, isItem: (item: unknown) => item is T): boolean {
+  return value === undefined || (Array.isArray(value) && value.every(isItem))
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+const isSubtask = (value: unknown): value is Subtask => {
+  const subtask = value as Partial<Subtask> | null
+  return (
+    !!subtask &&
+    typeof subtask === 'object' &&
+    isString(subtask.id) &&
+    isString(subtask.title) &&
+    typeof subtask.done === 'boolean' &&
+    isNumber(subtask.order)
+  )
+}
+
+/**
+ * Check a recurrence rule, returning a message when it is not one
+ */
+function validateRecurrence(rule: RecurrenceRule | null | undefined): string | null {
+  if (rule === null || rule === undefined) return null
+  const isPositive = (value: unknown) => isNumber(value) && Number.isInteger(value) && value > 0
+
+  if (!isString(rule.frequency)) return 'Repeat rule is invalid'
+  if (!FREQUENCIES.includes(rule.frequency)) {
+    return `Unknown repeat frequency "${String(rule.frequency)}"`
+  }
+  if (
+    !isPositive(rule.interval) ||
+    !isListOf(rule.byWeekday, (day): day is number => isNumber(day) && day >= 0 && day <= 6) ||
+    (rule.byMonthDay !== undefined && !isPositive(rule.byMonthDay)) ||
+    (rule.count !== undefined && !isPositive(rule.count))
+  ) {
+    return 'Repeat rule is invalid'
+  }
+  return null
+}
+
+/**
+ * Check the fields of an imported task, returning one message per problem
+ * Imported data is untyped, so fields the app reads as lists or flags are checked too:
+ * a bad value would be saved and break the task list on every load.
+ */
+export function validateImportedTask(task: Task): string[] {
+  const errors: string[] = []
+  if (!task.title.trim()) errors.push('Title is required')
+  if (!PRIORITIES.includes(task.priority)) {
+    errors.push(`Unknown priority "${String(task.priority)}"`)
+  }
+  if (!STATUSES.includes(task.status)) {
+    errors.push(`Unknown status "${String(task.status)}"`)
+  }
+  if (task.description !== undefined && !isString(task.description)) {
+    errors.push('Description must be text')
+  }
+  if (!isListOf(task.tags, isString)) errors.push('Tags must be a list of text')
+  if (!isListOf(task.subtasks, isSubtask)) {
+    errors.push('Subtasks must be a list of items with an id, title, done and order')
+  }
+  if (!isListOf(task.reminders, isNumber)) errors.push('Reminders must be a list of numbers')
+  if (task.listId !== undefined && !isString(task.listId)) errors.push('List must be a list id')
+  if (task.hasDueTime !== undefined && typeof task.hasDueTime !== 'boolean') {
+    errors.push('Due time flag must be true or false')
+  }
+  if (task.timeZone !== undefined && !isString(task.timeZone)) {
+    errors.push('Time zone must be text')
+  }
+  if (task.order !== undefined && !isString(task.order)) errors.push('Order must be text')
+  const recurrenceError = validateRecurrence(task.recurrence)
+  if (recurrenceError) errors.push(recurrenceError)
+  return errors
+}
+
+/**
+ * Read a JSON export (or a bare array of tasks) into import rows
+ * Throws an Error when the file as a whole cannot be read
+ */
+export function parseJsonImport(text: string): ImportRow[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON.')
+  }
+
+  const items = Array.isArray(data) ? data : (data as { tasks?: unknown } | null)?.tasks
+  if (!Array.isArray(items)) {
+    throw new Error('The file does not contain a list of tasks.')
+  }
+
+  return items.map((item, index) => {
+    const row = index + 1
+    try {
+      const task = reviveTask({ priority: 'medium', status: 'pending', ...item })
+      const errors = validateImportedTask(task)
+      return { row, task: errors.length > 0 ? null : task, errors }
+    } catch (error) {
+      return { row, task: null, errors: [error instanceof Error ? error.message : String(error)] }
+    }
+  })
+}
+
+/**
+ * Normalise a column name for matching: lowercase letters and digits only
+ */
+function normalizeColumnName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Guess which CSV column holds which task field from the header row
+ */
+export function guessCsvMapping(header: string[]): CsvFieldMapping {
+  const columns = header.map(normalizeColumnName)
+  const mapping: CsvFieldMapping = {}
+
+  TASK_CSV_FIELDS.forEach(field => {
+    const names = [field, TASK_CSV_FIELD_LABELS[field], ...(CSV_FIELD_ALIASES[field] || [])].map(
+      normalizeColumnName
+    )
+    const index = columns.findIndex(
+      (column, i) => names.includes(column) && !Object.values(mapping).includes(i)
+    )
+    if (index !== -1) mapping[field] = index
+  })
+
+  return mapping
+}
+
+/**
+ * Parse a CSV date cell
+ * YYYY-MM-DD is read as a local date without a time; anything else as a full timestamp
+ */
+function parseCsvDate(value: string): { date: Date; hasTime: boolean } {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return { date: parseDateInputValue(value) as Date, hasTime: false }
+  }
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${value}"`)
+  }
+  return { date, hasTime: true }
+}
+
+/**
+ * Read CSV data rows (without the header) into import rows using a column mapping
+ */
+export function parseCsvImport(
+  rows: string[][],
+  mapping: CsvFieldMapping,
+  now: Date = new Date()
+): ImportRow[] {
+  return rows.map((cells, index) => {
+    const row = index + 2
+    const errors: string[] = []
+    const get = (field: TaskCsvField) => {
+      const column = mapping[field]
+      return column === undefined ? '' : (cells[column] || '').trim()
+    }
+    const getDate = (field: TaskCsvField, label: string) => {
+      const value = get(field)
+      if (!value) return null
+      try {
+        return parseCsvDate(value)
+      } catch (error) {
+        errors.push(`${label}: ${(error as Error).message}`)
+        return null
+      }
+    }
+
+    const due = getDate('dueDate', 'Due date')
+    const hasDueTimeCell = get('hasDueTime').toLowerCase()
+    const tags = get('tags')
+      .split(/[,;]/)
+      .map(tag => tag.trim().replace(/^#/, ''))
+      .filter(Boolean)
+
+    const task: Task = {
+      id: get('id') || generateTaskId(),
+      title: get('title'),
+      description: get('description') || undefined,
+      status: (get('status').toLowerCase() || 'pending') as TaskStatus,
+      priority: (get('priority').toLowerCase() || 'medium') as TaskPriority,
+      dueDate: due?.date || null,
+      hasDueTime: hasDueTimeCell
+        ? ['true', 'yes', '1'].includes(hasDueTimeCell)
+        : due?.hasTime || false,
+      timeZone: get('timeZone') || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      listId: get('listId') || undefined,
+      createdAt: getDate('createdAt', 'Created at')?.date || now,
+      updatedAt: getDate('updatedAt', 'Updated at')?.date || now,
+      completedAt: getDate('completedAt', 'Completed at')?.date || null,
+    }
+
+    errors.push(...validateImportedTask(task))
+    return { row, task: errors.length > 0 ? null : task, errors }
+  })
+}
+
+/**
+ * Key used to match tasks with the same title and due date
+ */
+function getTitleKey(task: Task): string {
+  const due = task.dueDate ? new Date(task.dueDate).getTime() : ''
+  return `${task.title.trim().toLowerCase()}|${due}`
+}
+
+/**
+ * Flag rows that duplicate an existing task, or an earlier row, by id or by title and due date
+ */
+export function markDuplicates(rows: ImportRow[], existing: Task[]): ImportRow[] {
+  const byId = new Map(existing.map(task => [task.id, task]))
+  const byTitle = new Map(existing.map(task => [getTitleKey(task), task]))
+
+  return rows.map(row => {
+    if (!row.task) return row
+
+    const sameId = byId.get(row.task.id)
+    const sameTitle = byTitle.get(getTitleKey(row.task))
+    byId.set(row.task.id, row.task)
+    byTitle.set(getTitleKey(row.task), row.task)
+
+    if (sameId) return { ...row, duplicate: { reason: 'id', title: sameId.title } }
+    if (sameTitle)
+      return { ...row, duplicate: { reason: 'titleAndDueDate', title: sameTitle.title } }
+    return { ...row, duplicate: undefined }
+  })
+}
+
+interface ImportOptions {
+  /** Import duplicate rows too, as copies with new ids */
+  includeDuplicates?: boolean
+  /** Ids of existing lists; tasks pointing at any other list go to the Inbox */
+  listIds?: string[]
+}
+
+/**
+ * Get the tasks to add from previewed rows, skipping invalid rows
+ */
+export function getImportedTasks(
+  rows: ImportRow[],
+  { includeDuplicates = false, listIds }: ImportOptions = {}
+): Task[] {
+  return rows.flatMap(row => {
+    if (!row.task) return []
+    if (row.duplicate && !includeDuplicates) return []
+
+    const task = row.duplicate?.reason === 'id' ? { ...row.task, id: generateTaskId() } : row.task
+    if (task.listId && listIds && !listIds.includes(task.listId)) {
+      return [{ ...task, listId: undefined }]
+    }
+    return [task]
+  })
+}
+
+/**
+ * Turn task payloads from another tool's export into import rows
+ */
+export function inputsToImportRows(inputs: TaskInput[], now: Date = new Date()): ImportRow[] {
+  return inputs.map((input, index) => {
+    const task: Task = {
+      ...createTask(input),
+      createdAt: now,
+      updatedAt: now,
+      completedAt: input.status && input.status !== 'pending' ? now : null,
+    }
+    const errors = validateImportedTask(task)
+    return { row: index + 1, task: errors.length > 0 ? null : task, errors }
+  })
+}
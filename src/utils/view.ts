@@ -0,0 +1,239 @@
+import { Task } from '@/types/task'
+import { TaskList } from '@/types/list'
+import {
+  SavedView,
+  SmartFilter,
+  TaskFilterStatus,
+  TaskGroupBy,
+  TaskLayout,
+  ViewSettings,
+} from '@/types/view'
+import { isTaskDueToday, isTaskOverdue } from './task'
+import { getTaskListId } from './list'
+import { isSameTag } from './tag'
+import { addDays, endOfDay } from './date'
+import { SearchIndex, searchTasksWithQuery } from './search'
+import { DEFAULT_SORT, formatSortParam, parseSortParam } from './sort'
+
+/**
+ * Number of days ahead the Upcoming view covers
+ */
+export const UPCOMING_DAYS = 7
+
+/**
+ * Settings used when no view is selected
+ */
+export const DEFAULT_VIEW_SETTINGS: ViewSettings = {
+  filterStatus: 'all',
+  sort: DEFAULT_SORT,
+  groupBy: 'status',
+  tags: [],
+  listId: null,
+  query: '',
+}
+
+/**
+ * Views every user has; they are not stored and cannot be deleted
+ */
+export const BUILT_IN_VIEWS: SavedView[] = [
+  {
+    ...DEFAULT_VIEW_SETTINGS,
+    id: 'today',
+    name: 'Today',
+    icon: '☀️',
+    filterStatus: 'pending',
+    sort: [
+      { key: 'dueDate', direction: 'asc' },
+      { key: 'priority', direction: 'desc' },
+    ],
+    groupBy: 'none',
+    smartFilter: 'today',
+    builtIn: true,
+  },
+  {
+    ...DEFAULT_VIEW_SETTINGS,
+    id: 'upcoming',
+    name: 'Upcoming',
+    icon: '📅',
+    filterStatus: 'pending',
+    sort: [
+      { key: 'dueDate', direction: 'asc' },
+      { key: 'priority', direction: 'desc' },
+    ],
+    groupBy: 'none',
+    smartFilter: 'upcoming',
+    builtIn: true,
+  },
+  {
+    ...DEFAULT_VIEW_SETTINGS,
+    id: 'overdue',
+    name: 'Overdue',
+    icon: '⏰',
+    filterStatus: 'pending',
+    sort: [{ key: 'dueDate', direction: 'asc' }],
+    groupBy: 'priority',
+    smartFilter: 'overdue',
+    builtIn: true,
+  },
+]
+
+/**
+ * Check a task against a built-in date filter
+ * Upcoming covers the next UPCOMING_DAYS days after today
+ */
+export function matchesSmartFilter(
+  task: Task,
+  filter: SmartFilter,
+  now: Date = new Date()
+): boolean {
+  switch (filter) {
+    case 'today':
+      return isTaskDueToday(task, now)
+    case 'overdue':
+      return isTaskOverdue(task, now)
+    case 'upcoming': {
+      if (!task.dueDate) return false
+      const dueDate = new Date(task.dueDate)
+      return dueDate > endOfDay(now) && dueDate <= endOfDay(addDays(now, UPCOMING_DAYS))
+    }
+  }
+}
+
+/**
+ * Check a task against a status filter ('all' excludes archived tasks)
+ */
+export function matchesStatusFilter(task: Task, filterStatus: TaskFilterStatus): boolean {
+  return filterStatus === 'all' ? task.status !== 'archived' : task.status === filterStatus
+}
+
+interface ApplyViewOptions {
+  /** Index of the same tasks, for the search query */
+  index: SearchIndex
+  lists?: TaskList[]
+  now?: Date
+}
+
+/**
+ * Get the tasks matching a view's list, tags, date filter and search query
+ * The status filter, sorting and grouping are applied by TaskListDisplay
+ */
+export function applyViewFilters(
+  tasks: Task[],
+  view: ViewSettings,
+  { index, lists, now = new Date() }: ApplyViewOptions
+): Task[] {
+  const filtered = tasks.filter(
+    task =>
+      (view.listId === null || getTaskListId(task) === view.listId) &&
+      view.tags.every(tag => task.tags?.some(other => isSameTag(other, tag))) &&
+      (!view.smartFilter || matchesSmartFilter(task, view.smartFilter, now))
+  )
+  return searchTasksWithQuery(filtered, index, view.query, { lists, now })
+}
+
+/**
+ * Build a saved view from the current settings
+ */
+export function createSavedView(name: string, settings: ViewSettings, icon = '🔖'): SavedView {
+  return {
+    ...settings,
+    id: `view-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    icon,
+  }
+}
+
+/**
+ * Get the settings part of a view
+ */
+export function getViewSettings(view: SavedView): ViewSettings {
+  return {
+    filterStatus: view.filterStatus,
+    sort: view.sort,
+    groupBy: view.groupBy,
+    tags: view.tags,
+    listId: view.listId,
+    query: view.query,
+    smartFilter: view.smartFilter,
+    layout: view.layout,
+  }
+}
+
+/**
+ * Collect every tag used by the tasks, sorted alphabetically
+ */
+export function getAllTags(tasks: Task[]): string[] {
+  const tags = new Set<string>()
+  tasks.forEach(task => task.tags?.forEach(tag => tags.add(tag)))
+  return [...tags].sort((a, b) => a.localeCompare(b))
+}
+
+const FILTER_STATUSES: TaskFilterStatus[] = ['all', 'pending', 'completed', 'archived']
+const GROUP_OPTIONS: TaskGroupBy[] = ['status', 'priority', 'list', 'tag', 'due', 'none']
+const LAYOUTS: TaskLayout[] = ['list', 'board', 'month', 'week']
+
+/**
+ * Get a query param if it is one of the allowed values
+ */
+function pickParam<T extends string>(value: string | null, options: T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback
+}
+
+/**
+ * Read view settings from URL query params
+ * Params that are missing or invalid keep the value from `base` (the list or view defaults):
+ * ?status=pending&sort=dueDate,priority:asc&group=none&layout=board&q=report&tag=work&tag=home
+ */
+export function readViewParams(params: URLSearchParams, base: ViewSettings): ViewSettings {
+  return {
+    ...base,
+    filterStatus: pickParam(params.get('status'), FILTER_STATUSES, base.filterStatus),
+    sort: parseSortParam(params.get('sort')) ?? base.sort,
+    groupBy: pickParam(params.get('group'), GROUP_OPTIONS, base.groupBy),
+    layout: pickParam(params.get('layout'), LAYOUTS, base.layout || 'list'),
+    query: params.get('q') ?? base.query,
+    // An empty tag param clears the tags of a saved view
+    tags: params.has('tag') ? params.getAll('tag').filter(Boolean) : base.tags,
+  }
+}
+
+/**
+ * Build the query params for settings, leaving out values equal to `base`
+ */
+export function writeViewParams(settings: ViewSettings, base: ViewSettings): URLSearchParams {
+  const params = new URLSearchParams()
+  if (settings.filterStatus !== base.filterStatus) params.set('status', settings.filterStatus)
+  const sort = formatSortParam(settings.sort)
+  if (sort !== formatSortParam(base.sort)) params.set('sort', sort)
+  if (settings.groupBy !== base.groupBy) params.set('group', settings.groupBy)
+  if ((settings.layout || 'list') !== (base.layout || 'list')) {
+    params.set('layout', settings.layout || 'list')
+  }
+  if (settings.query !== base.query) params.set('q', settings.query)
+  if (settings.tags.join('\n') !== base.tags.join('\n')) {
+    if (settings.tags.length === 0) params.set('tag', '')
+    settings.tags.forEach(tag => params.append('tag', tag))
+  }
+  return params
+}
+
+/**
+ * Get the route path of a list or view, optionally with a task open
+ * e.g. /list/work, /view/today/task/task-1 or /task/task-1
+ */
+export function getViewPath({
+  listId,
+  viewId,
+  taskId,
+}: {
+  listId?: string
+  viewId?: string
+  taskId?: string
+}): string {
+  const scope = viewId
+    ? `/view/${encodeURIComponent(viewId)}`
+    : listId
+      ? `/list/${encodeURIComponent(listId)}`
+      : ''
+  return taskId ? `${scope}/task/${encodeURIComponent(taskId)}` : scope || '/'
+}
@@ -0,0 +1,54 @@
+/**
+ * Rows of a virtualized list between two indices (`end` excluded)
+ */
+export interface RowRange {
+  start: number
+  end: number
+}
+
+/**
+ * Get the top offset of every row from their heights
+ * The result has one more entry than `sizes`: the last one is the total height.
+ */
+export function getRowOffsets(sizes: number[]): number[] {
+  const offsets = new Array<number>(sizes.length + 1)
+  offsets[0] = 0
+  for (let i = 0; i < sizes.length; i++) {
+    offsets[i + 1] = offsets[i] + sizes[i]
+  }
+  return offsets
+}
+
+/**
+ * Get the index of the row at a vertical position (clamped to the rows that exist)
+ */
+export function findRowAt(offsets: number[], position: number): number {
+  const count = offsets.length - 1
+  if (count <= 0) return 0
+
+  // Last row starting at or above the position
+  let low = 0
+  let high = count - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (offsets[mid] <= position) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+  return low
+}
+
+/**
+ * Get the rows overlapping the band between two vertical positions
+ */
+export function getVisibleRange(offsets: number[], top: number, bottom: number): RowRange {
+  const count = offsets.length - 1
+  if (count <= 0 || bottom <= top) return { start: 0, end: 0 }
+
+  const start = findRowAt(offsets, Math.max(0, top))
+  let end = start
+  while (end < count && offsets[end] < bottom) end++
+  return { start, end: Math.max(end, start + 1) }
+}